@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 amount) external returns (bool);
+    function approve(address spender, uint256 amount) external returns (bool);
+}
+
+interface IMessageTransmitterV2 {
+    function receiveMessage(bytes calldata message, bytes calldata attestation) external returns (bool);
+}
+
+/**
+ * @title CCTPHookHandler
+ * @notice Receives a CCTP V2 USDC transfer and calls a contract with the
+ * minted USDC in the same transaction. GasFlowSDK.bridgeAndCall burns with
+ * this handler as both mint recipient and destinationCaller and with hookData
+ * abi.encode(target, callData, fallbackRecipient).
+ *
+ * Because the handler is the destinationCaller, MessageTransmitterV2 accepts
+ * the message from no one else: the USDC cannot be minted without its call.
+ * relay() can be sent by anyone holding the attestation - the message and
+ * hook data are signed by Circle, so the caller chooses nothing.
+ *
+ * The target is approved for exactly the minted amount and the approval is
+ * cleared after the call. Whatever the target did not take - all of it when
+ * the call reverts - is sent to fallbackRecipient.
+ */
+contract CCTPHookHandler {
+    // CCTP V2 message header offsets (bytes)
+    uint256 private constant NONCE_INDEX = 12;
+    uint256 private constant DESTINATION_CALLER_INDEX = 108;
+    uint256 private constant MESSAGE_BODY_INDEX = 148;
+
+    // BurnMessageV2 offsets within the message body (bytes)
+    uint256 private constant MINT_RECIPIENT_INDEX = 36;
+    uint256 private constant HOOK_DATA_INDEX = 228;
+
+    address public immutable messageTransmitter;
+    address public immutable usdc;
+
+    bool private relaying;
+
+    event HookExecuted(bytes32 indexed nonce, address indexed target, uint256 amount, bool success, bytes result);
+    event FundsReturned(bytes32 indexed nonce, address indexed fallbackRecipient, uint256 amount);
+
+    constructor(address _messageTransmitter, address _usdc) {
+        require(_messageTransmitter != address(0) && _usdc != address(0), "CCTPHookHandler: zero address");
+        messageTransmitter = _messageTransmitter;
+        usdc = _usdc;
+    }
+
+    /**
+     * @notice Receive an attested message addressed to this handler and make
+     * the call in its hook data with the minted USDC
+     * @return success Whether the call to the target succeeded
+     * @return result The call's return or revert data
+     */
+    function relay(bytes calldata message, bytes calldata attestation)
+        external
+        returns (bool success, bytes memory result)
+    {
+        require(!relaying, "CCTPHookHandler: reentrant relay");
+        relaying = true;
+
+        require(message.length >= MESSAGE_BODY_INDEX + HOOK_DATA_INDEX, "CCTPHookHandler: message too short");
+        // Checked before receiving so a message sent elsewhere fails with a clear reason
+        require(
+            bytes32(message[DESTINATION_CALLER_INDEX:DESTINATION_CALLER_INDEX + 32]) == _toBytes32(address(this)),
+            "CCTPHookHandler: handler is not the destinationCaller"
+        );
+        uint256 mintRecipientIndex = MESSAGE_BODY_INDEX + MINT_RECIPIENT_INDEX;
+        require(
+            bytes32(message[mintRecipientIndex:mintRecipientIndex + 32]) == _toBytes32(address(this)),
+            "CCTPHookHandler: handler is not the mint recipient"
+        );
+
+        (address target, bytes memory callData, address fallbackRecipient) =
+            abi.decode(message[MESSAGE_BODY_INDEX + HOOK_DATA_INDEX:], (address, bytes, address));
+        // Calls on the token or transmitter could move USDC the handler holds for other messages
+        require(target != usdc && target != messageTransmitter, "CCTPHookHandler: target not allowed");
+        require(fallbackRecipient != address(0), "CCTPHookHandler: no fallback recipient");
+
+        // Minted amount, net of the Circle fee, from the balance change
+        uint256 balanceBefore = IERC20(usdc).balanceOf(address(this));
+        require(
+            IMessageTransmitterV2(messageTransmitter).receiveMessage(message, attestation),
+            "CCTPHookHandler: receiveMessage failed"
+        );
+        uint256 amount = IERC20(usdc).balanceOf(address(this)) - balanceBefore;
+        bytes32 nonce = bytes32(message[NONCE_INDEX:NONCE_INDEX + 32]);
+
+        require(IERC20(usdc).approve(target, amount), "CCTPHookHandler: approve failed");
+        (success, result) = target.call(callData);
+        require(IERC20(usdc).approve(target, 0), "CCTPHookHandler: approve failed");
+
+        // The target can take at most amount, so the balance never drops below balanceBefore
+        uint256 unused = IERC20(usdc).balanceOf(address(this)) - balanceBefore;
+        if (unused > 0) {
+            require(IERC20(usdc).transfer(fallbackRecipient, unused), "CCTPHookHandler: transfer failed");
+            emit FundsReturned(nonce, fallbackRecipient, unused);
+        }
+
+        emit HookExecuted(nonce, target, amount, success, result);
+        relaying = false;
+    }
+
+    function _toBytes32(address account) private pure returns (bytes32) {
+        return bytes32(uint256(uint160(account)));
+    }
+}
@@ -0,0 +1,153 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IERC20Permit {
+    function allowance(address owner, address spender) external view returns (uint256);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+    function approve(address spender, uint256 amount) external returns (bool);
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+}
+
+interface ITokenMessengerV2 {
+    function depositForBurn(
+        uint256 amount,
+        uint32 destinationDomain,
+        bytes32 mintRecipient,
+        address burnToken,
+        bytes32 destinationCaller,
+        uint256 maxFee,
+        uint32 minFinalityThreshold
+    ) external;
+
+    function depositForBurnWithHook(
+        uint256 amount,
+        uint32 destinationDomain,
+        bytes32 mintRecipient,
+        address burnToken,
+        bytes32 destinationCaller,
+        uint256 maxFee,
+        uint32 minFinalityThreshold,
+        bytes calldata hookData
+    ) external;
+}
+
+/**
+ * @title CCTPPermitRouter
+ * @notice Burns the caller's USDC through TokenMessengerV2 with an EIP-2612
+ * permit instead of a separate approve transaction.
+ *
+ * The router only ever burns USDC, and only the caller's own: it redeems a
+ * permit whose owner is msg.sender, pulls exactly amount from msg.sender and
+ * burns it with the typed parameters given - it forwards no calldata and
+ * holds no USDC or allowance after a call.
+ *
+ * TokenMessengerV2 records the router, not the caller, as the burn message's
+ * messageSender. Destination contracts that act on messageSender cannot tell
+ * callers of the router apart.
+ */
+contract CCTPPermitRouter {
+    struct BurnParams {
+        uint256 amount;
+        uint32 destinationDomain;
+        bytes32 mintRecipient;
+        bytes32 destinationCaller; // bytes32(0): anyone may receive the message
+        uint256 maxFee;
+        uint32 minFinalityThreshold;
+        bytes hookData; // Empty: depositForBurn, else depositForBurnWithHook
+    }
+
+    struct PermitSignature {
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    address public immutable tokenMessenger;
+    address public immutable usdc;
+
+    event PermitBurn(
+        address indexed sender,
+        uint32 indexed destinationDomain,
+        bytes32 mintRecipient,
+        uint256 amount,
+        bool withHook
+    );
+
+    constructor(address _tokenMessenger, address _usdc) {
+        require(_tokenMessenger != address(0) && _usdc != address(0), "CCTPPermitRouter: zero address");
+        tokenMessenger = _tokenMessenger;
+        usdc = _usdc;
+    }
+
+    /**
+     * @notice Redeem a USDC permit from msg.sender for this router and burn
+     * params.amount of msg.sender's USDC
+     */
+    function burnWithPermit(BurnParams calldata params, PermitSignature calldata signature) external {
+        require(params.amount > 0, "CCTPPermitRouter: zero amount");
+        require(params.mintRecipient != bytes32(0), "CCTPPermitRouter: zero mint recipient");
+        require(params.maxFee < params.amount, "CCTPPermitRouter: maxFee must be below amount");
+
+        // A permit submitted by someone else first only sets the same allowance,
+        // so a failed permit is fine as long as the allowance is there
+        try IERC20Permit(usdc).permit(
+            msg.sender,
+            address(this),
+            params.amount,
+            signature.deadline,
+            signature.v,
+            signature.r,
+            signature.s
+        ) {} catch {}
+        require(
+            IERC20Permit(usdc).allowance(msg.sender, address(this)) >= params.amount,
+            "CCTPPermitRouter: permit not redeemed"
+        );
+
+        require(
+            IERC20Permit(usdc).transferFrom(msg.sender, address(this), params.amount),
+            "CCTPPermitRouter: transferFrom failed"
+        );
+        require(IERC20Permit(usdc).approve(tokenMessenger, params.amount), "CCTPPermitRouter: approve failed");
+
+        if (params.hookData.length == 0) {
+            ITokenMessengerV2(tokenMessenger).depositForBurn(
+                params.amount,
+                params.destinationDomain,
+                params.mintRecipient,
+                usdc,
+                params.destinationCaller,
+                params.maxFee,
+                params.minFinalityThreshold
+            );
+        } else {
+            ITokenMessengerV2(tokenMessenger).depositForBurnWithHook(
+                params.amount,
+                params.destinationDomain,
+                params.mintRecipient,
+                usdc,
+                params.destinationCaller,
+                params.maxFee,
+                params.minFinalityThreshold,
+                params.hookData
+            );
+        }
+
+        emit PermitBurn(
+            msg.sender,
+            params.destinationDomain,
+            params.mintRecipient,
+            params.amount,
+            params.hookData.length != 0
+        );
+    }
+}
@@ -1,4 +1,8 @@
-import { ChainConfig, ChainId } from '../types';
+import { ChainConfig, ChainId, GasFlowEnvironment } from '../types';
+import { InvalidParamsError, UnsupportedChainError } from '../errors';
+
+// Circle Paymaster v0.8, deployed at the same address on every supported mainnet
+const MAINNET_PAYMASTER_V08 = '0x0578cFB241215b77442a541325d6A4E6dFE700Ec';
 
 export const SUPPORTED_CHAINS: Record<ChainId, ChainConfig> = {
   // Ethereum Sepolia Testnet
@@ -102,7 +106,8 @@ export const MAINNET_CHAINS: Record<ChainId, ChainConfig> = {
     name: 'Ethereum',
     rpcUrl: 'https://ethereum-rpc.publicnode.com',
     testnetRpcUrl: '',
-    usdcAddress: '0xA0b86a33E6441929e43c0Bf24E6C2c4a75be2F64',
+    usdcAddress: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    paymasterAddress: MAINNET_PAYMASTER_V08,
     cctpDomain: 0,
     gasTokenSymbol: 'ETH',
     blockExplorerUrl: 'https://etherscan.io',
@@ -119,7 +124,7 @@ export const MAINNET_CHAINS: Record<ChainId, ChainConfig> = {
     rpcUrl: 'https://arbitrum-one-rpc.publicnode.com',
     testnetRpcUrl: '',
     usdcAddress: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
-    paymasterAddress: '0x6C973eBe80dCD8660841D4356bf15c32460271C9',
+    paymasterAddress: MAINNET_PAYMASTER_V08,
     cctpDomain: 3,
     gasTokenSymbol: 'ETH',
     blockExplorerUrl: 'https://arbiscan.io',
@@ -136,6 +141,7 @@ export const MAINNET_CHAINS: Record<ChainId, ChainConfig> = {
     rpcUrl: 'https://base-rpc.publicnode.com',
     testnetRpcUrl: '',
     usdcAddress: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    paymasterAddress: MAINNET_PAYMASTER_V08,
     cctpDomain: 6,
     gasTokenSymbol: 'ETH',
     blockExplorerUrl: 'https://basescan.org',
@@ -152,6 +158,7 @@ export const MAINNET_CHAINS: Record<ChainId, ChainConfig> = {
     rpcUrl: 'https://avalanche-c-chain-rpc.publicnode.com',
     testnetRpcUrl: '',
     usdcAddress: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+    paymasterAddress: MAINNET_PAYMASTER_V08,
     cctpDomain: 1,
     gasTokenSymbol: 'AVAX',
     blockExplorerUrl: 'https://snowtrace.io',
@@ -168,16 +175,29 @@ export const MAINNET_CHAINS: Record<ChainId, ChainConfig> = {
     rpcUrl: 'https://polygon-bor-rpc.publicnode.com',
     testnetRpcUrl: '',
     usdcAddress: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+    paymasterAddress: MAINNET_PAYMASTER_V08,
     cctpDomain: 7,
     gasTokenSymbol: 'MATIC',
     blockExplorerUrl: 'https://polygonscan.com',
+    entryPointV06: '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789',
+    entryPointV07: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+    entryPointV08: '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
+    bundlerUrl: 'https://polygon-mainnet.g.alchemy.com/v2',
   },
 };
 
+export const DEFAULT_MAINNET_CHAINS = [
+  1,     // Ethereum
+  42161, // Arbitrum One
+  8453,  // Base
+  43114, // Avalanche
+  137,   // Polygon
+];
+
 export function getChainConfig(chainId: ChainId, useTestnet = true): ChainConfig {
   const config = useTestnet ? SUPPORTED_CHAINS[chainId] : MAINNET_CHAINS[chainId];
   if (!config) {
-    throw new Error(`Unsupported chain ID: ${chainId}`);
+    throw new UnsupportedChainError(`Unsupported chain ID: ${chainId}`, { chainId });
   }
   return config;
 }
@@ -192,4 +212,35 @@ export function getTestnetChains(): ChainId[] {
 
 export function getMainnetChains(): ChainId[] {
   return Object.keys(MAINNET_CHAINS).map(Number);
-}
\ No newline at end of file
+}
+
+export function isMainnetChain(chainId: ChainId): boolean {
+  return chainId in MAINNET_CHAINS;
+}
+
+export function getDefaultChains(environment: GasFlowEnvironment = 'testnet'): ChainId[] {
+  return environment === 'mainnet' ? DEFAULT_MAINNET_CHAINS : DEFAULT_SUPPORTED_CHAINS;
+}
+
+/**
+ * Throw if any chain does not belong to the given environment. A single SDK
+ * instance never mixes testnet and mainnet chains.
+ */
+export function assertChainsInEnvironment(chainIds: ChainId[], environment: GasFlowEnvironment): void {
+  const isInEnvironment = environment === 'mainnet' ? isMainnetChain : isTestnetChain;
+  const otherEnvironment = environment === 'mainnet' ? 'testnet' : 'mainnet';
+  const isInOtherEnvironment = environment === 'mainnet' ? isTestnetChain : isMainnetChain;
+
+  for (const chainId of chainIds) {
+    if (isInEnvironment(chainId)) {
+      continue;
+    }
+    if (isInOtherEnvironment(chainId)) {
+      throw new InvalidParamsError(
+        `Chain ${chainId} is a ${otherEnvironment} chain and cannot be used with environment '${environment}'`,
+        { chainId }
+      );
+    }
+    throw new UnsupportedChainError(`Unsupported ${environment} chain ID: ${chainId}`, { chainId });
+  }
+}
@@ -1,4 +1,6 @@
-import { ChainId } from '../types';
+import { ChainId, Logger } from '../types';
+import { UnsupportedChainError } from '../errors';
+import { silentLogger } from '../utils/logger';
 
 
 /**
@@ -145,7 +147,7 @@ export function getCCTPAddresses(chainId: ChainId, isTestnet: boolean = true): C
   const addresses = isTestnet ? CCTP_TESTNET_ADDRESSES : CCTP_MAINNET_ADDRESSES;
   
   if (!addresses[chainId]) {
-    throw new Error(`CCTP not supported on chain ${chainId}`);
+    throw new UnsupportedChainError(`CCTP not supported on chain ${chainId}`, { chainId });
   }
   
   return addresses[chainId];
@@ -167,6 +169,24 @@ export function getSupportedCCTPChains(isTestnet: boolean = true): ChainId[] {
   return Object.keys(addresses).map(chainId => parseInt(chainId));
 }
 
+/**
+ * Non-EVM CCTP destinations have no EVM chain ID, so the SDK identifies them
+ * with these. USDC can be burned to them, but the SDK does not mint there -
+ * the recipient receives the attested message on the destination chain.
+ */
+export const NON_EVM_CHAIN_IDS = {
+  solana: 1399811149,
+  solanaDevnet: 1399811150,
+};
+
+export const SOLANA_CCTP_DOMAIN = 5;
+
+// Native USDC mint accounts on Solana
+export const SOLANA_USDC_MINTS = {
+  mainnet: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  devnet: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+};
+
 /**
  * CCTP Domain mapping (for Circle's internal routing)
  * Domain 0 = Ethereum, 1 = Avalanche, 2 = Noble, 3 = Arbitrum, etc.
@@ -187,23 +207,66 @@ export const CCTP_DOMAIN_MAPPING: Record<ChainId, number> = {
   11155420: 2, // Optimism Sepolia
   84532: 6,    // Base Sepolia
   80002: 7,    // Polygon Amoy
+
+  // Non-EVM domains
+  [NON_EVM_CHAIN_IDS.solana]: SOLANA_CCTP_DOMAIN,
+  [NON_EVM_CHAIN_IDS.solanaDevnet]: SOLANA_CCTP_DOMAIN,
+};
+
+const NON_EVM_CCTP_DOMAINS = new Set([SOLANA_CCTP_DOMAIN]);
+
+/**
+ * CCTP V2 minFinalityThreshold values: at or below `fast` a burn is attested
+ * at confirmed finality (Fast Transfer), `standard` waits for hard finality
+ */
+export const FINALITY_THRESHOLDS = {
+  fast: 1000,
+  standard: 2000,
 };
 
+/**
+ * Circle attestation service (Iris) base URLs
+ */
+export const IRIS_API_URLS = {
+  mainnet: 'https://iris-api.circle.com',
+  testnet: 'https://iris-api-sandbox.circle.com',
+};
+
+export function getIrisApiUrl(isTestnet: boolean = true): string {
+  return isTestnet ? IRIS_API_URLS.testnet : IRIS_API_URLS.mainnet;
+}
+
 /**
  * Get CCTP domain for a chain
  */
 export function getCCTPDomain(chainId: ChainId): number {
   if (!(chainId in CCTP_DOMAIN_MAPPING)) {
-    throw new Error(`CCTP domain not found for chain ${chainId}`);
+    throw new UnsupportedChainError(`CCTP domain not found for chain ${chainId}`, { chainId });
   }
   return CCTP_DOMAIN_MAPPING[chainId];
 }
 
+/**
+ * Whether a CCTP domain is a non-EVM chain, where transfers are completed
+ * outside the SDK
+ */
+export function isNonEvmDomain(domain: number): boolean {
+  return NON_EVM_CCTP_DOMAINS.has(domain);
+}
+
+export function isNonEvmChain(chainId: ChainId): boolean {
+  return chainId in CCTP_DOMAIN_MAPPING && isNonEvmDomain(CCTP_DOMAIN_MAPPING[chainId]);
+}
+
 /**
  * Validate CCTP contract addresses against known official addresses
  * This helps detect configuration errors and ensures contract integrity
  */
-export function validateCCTPAddresses(chainId: ChainId, isTestnet: boolean = true): boolean {
+export function validateCCTPAddresses(
+  chainId: ChainId,
+  isTestnet: boolean = true,
+  logger: Logger = silentLogger
+): boolean {
   try {
     const addresses = getCCTPAddresses(chainId, isTestnet);
     const expectedConstants = isTestnet ? {
@@ -237,7 +300,7 @@ export function validateCCTPAddresses(chainId: ChainId, isTestnet: boolean = tru
 
     return true;
   } catch (error) {
-    console.error(`CCTP address validation failed for chain ${chainId}:`, error);
+    logger.error('CCTP address validation failed', { chainId, isTestnet, error });
     return false;
   }
 }
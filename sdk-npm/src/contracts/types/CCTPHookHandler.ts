@@ -0,0 +1,204 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumber,
+  BytesLike,
+  CallOverrides,
+  ContractTransaction,
+  Overrides,
+  PopulatedTransaction,
+  Signer,
+  utils,
+} from "ethers";
+import type {
+  FunctionFragment,
+  Result,
+  EventFragment,
+} from "@ethersproject/abi";
+import type { Listener, Provider } from "@ethersproject/providers";
+import type {
+  TypedEventFilter,
+  TypedEvent,
+  TypedListener,
+  OnEvent,
+} from "./common";
+
+export interface CCTPHookHandlerInterface extends utils.Interface {
+  functions: {
+    "messageTransmitter()": FunctionFragment;
+    "usdc()": FunctionFragment;
+    "relay(bytes,bytes)": FunctionFragment;
+  };
+
+  getFunction(
+    nameOrSignatureOrTopic: "messageTransmitter" | "usdc" | "relay"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "messageTransmitter",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "usdc", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "relay",
+    values: [BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "messageTransmitter",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "usdc", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "relay", data: BytesLike): Result;
+
+  events: {
+    "HookExecuted(bytes32,address,uint256,bool,bytes)": EventFragment;
+    "FundsReturned(bytes32,address,uint256)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "HookExecuted"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "FundsReturned"): EventFragment;
+}
+
+export interface HookExecutedEventObject {
+  nonce: string;
+  target: string;
+  amount: BigNumber;
+  success: boolean;
+  result: string;
+}
+export type HookExecutedEvent = TypedEvent<
+  [string, string, BigNumber, boolean, string],
+  HookExecutedEventObject
+>;
+
+export type HookExecutedEventFilter = TypedEventFilter<HookExecutedEvent>;
+
+export interface FundsReturnedEventObject {
+  nonce: string;
+  fallbackRecipient: string;
+  amount: BigNumber;
+}
+export type FundsReturnedEvent = TypedEvent<
+  [string, string, BigNumber],
+  FundsReturnedEventObject
+>;
+
+export type FundsReturnedEventFilter = TypedEventFilter<FundsReturnedEvent>;
+
+export interface CCTPHookHandler extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  interface: CCTPHookHandlerInterface;
+
+  queryFilter<TEvent extends TypedEvent>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TEvent>>;
+
+  listeners<TEvent extends TypedEvent>(
+    eventFilter?: TypedEventFilter<TEvent>
+  ): Array<TypedListener<TEvent>>;
+  listeners(eventName?: string): Array<Listener>;
+  removeAllListeners<TEvent extends TypedEvent>(
+    eventFilter: TypedEventFilter<TEvent>
+  ): this;
+  removeAllListeners(eventName?: string): this;
+  off: OnEvent<this>;
+  on: OnEvent<this>;
+  once: OnEvent<this>;
+  removeListener: OnEvent<this>;
+
+  functions: {
+    messageTransmitter(overrides?: CallOverrides): Promise<[string]>;
+
+    usdc(overrides?: CallOverrides): Promise<[string]>;
+
+    relay(
+      message: BytesLike,
+      attestation: BytesLike,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+  };
+
+  messageTransmitter(overrides?: CallOverrides): Promise<string>;
+
+  usdc(overrides?: CallOverrides): Promise<string>;
+
+  relay(
+    message: BytesLike,
+    attestation: BytesLike,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  callStatic: {
+    messageTransmitter(overrides?: CallOverrides): Promise<string>;
+
+    usdc(overrides?: CallOverrides): Promise<string>;
+
+    relay(
+      message: BytesLike,
+      attestation: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<[boolean, string] & { success: boolean; result: string }>;
+  };
+
+  filters: {
+    "HookExecuted(bytes32,address,uint256,bool,bytes)"(
+      nonce?: BytesLike | null,
+      target?: string | null,
+      amount?: null,
+      success?: null,
+      result?: null
+    ): HookExecutedEventFilter;
+    HookExecuted(
+      nonce?: BytesLike | null,
+      target?: string | null,
+      amount?: null,
+      success?: null,
+      result?: null
+    ): HookExecutedEventFilter;
+
+    "FundsReturned(bytes32,address,uint256)"(
+      nonce?: BytesLike | null,
+      fallbackRecipient?: string | null,
+      amount?: null
+    ): FundsReturnedEventFilter;
+    FundsReturned(
+      nonce?: BytesLike | null,
+      fallbackRecipient?: string | null,
+      amount?: null
+    ): FundsReturnedEventFilter;
+  };
+
+  estimateGas: {
+    messageTransmitter(overrides?: CallOverrides): Promise<BigNumber>;
+
+    usdc(overrides?: CallOverrides): Promise<BigNumber>;
+
+    relay(
+      message: BytesLike,
+      attestation: BytesLike,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    messageTransmitter(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    usdc(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    relay(
+      message: BytesLike,
+      attestation: BytesLike,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+  };
+}
@@ -0,0 +1,228 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumber,
+  BigNumberish,
+  BytesLike,
+  CallOverrides,
+  ContractTransaction,
+  Overrides,
+  PopulatedTransaction,
+  Signer,
+  utils,
+} from "ethers";
+import type {
+  FunctionFragment,
+  Result,
+  EventFragment,
+} from "@ethersproject/abi";
+import type { Listener, Provider } from "@ethersproject/providers";
+import type {
+  TypedEventFilter,
+  TypedEvent,
+  TypedListener,
+  OnEvent,
+} from "./common";
+
+export declare namespace CCTPPermitRouter {
+  export type BurnParamsStruct = {
+    amount: BigNumberish;
+    destinationDomain: BigNumberish;
+    mintRecipient: BytesLike;
+    destinationCaller: BytesLike;
+    maxFee: BigNumberish;
+    minFinalityThreshold: BigNumberish;
+    hookData: BytesLike;
+  };
+
+  export type BurnParamsStructOutput = [
+    BigNumber,
+    number,
+    string,
+    string,
+    BigNumber,
+    number,
+    string
+  ] & {
+    amount: BigNumber;
+    destinationDomain: number;
+    mintRecipient: string;
+    destinationCaller: string;
+    maxFee: BigNumber;
+    minFinalityThreshold: number;
+    hookData: string;
+  };
+
+  export type PermitSignatureStruct = {
+    deadline: BigNumberish;
+    v: BigNumberish;
+    r: BytesLike;
+    s: BytesLike;
+  };
+
+  export type PermitSignatureStructOutput = [
+    BigNumber,
+    number,
+    string,
+    string
+  ] & { deadline: BigNumber; v: number; r: string; s: string };
+}
+
+export interface CCTPPermitRouterInterface extends utils.Interface {
+  functions: {
+    "burnWithPermit((uint256,uint32,bytes32,bytes32,uint256,uint32,bytes),(uint256,uint8,bytes32,bytes32))": FunctionFragment;
+    "tokenMessenger()": FunctionFragment;
+    "usdc()": FunctionFragment;
+  };
+
+  getFunction(
+    nameOrSignatureOrTopic: "burnWithPermit" | "tokenMessenger" | "usdc"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "burnWithPermit",
+    values: [
+      CCTPPermitRouter.BurnParamsStruct,
+      CCTPPermitRouter.PermitSignatureStruct
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenMessenger",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "usdc", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "burnWithPermit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenMessenger",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "usdc", data: BytesLike): Result;
+
+  events: {
+    "PermitBurn(address,uint32,bytes32,uint256,bool)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "PermitBurn"): EventFragment;
+}
+
+export interface PermitBurnEventObject {
+  sender: string;
+  destinationDomain: number;
+  mintRecipient: string;
+  amount: BigNumber;
+  withHook: boolean;
+}
+export type PermitBurnEvent = TypedEvent<
+  [string, number, string, BigNumber, boolean],
+  PermitBurnEventObject
+>;
+
+export type PermitBurnEventFilter = TypedEventFilter<PermitBurnEvent>;
+
+export interface CCTPPermitRouter extends BaseContract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  interface: CCTPPermitRouterInterface;
+
+  queryFilter<TEvent extends TypedEvent>(
+    event: TypedEventFilter<TEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TEvent>>;
+
+  listeners<TEvent extends TypedEvent>(
+    eventFilter?: TypedEventFilter<TEvent>
+  ): Array<TypedListener<TEvent>>;
+  listeners(eventName?: string): Array<Listener>;
+  removeAllListeners<TEvent extends TypedEvent>(
+    eventFilter: TypedEventFilter<TEvent>
+  ): this;
+  removeAllListeners(eventName?: string): this;
+  off: OnEvent<this>;
+  on: OnEvent<this>;
+  once: OnEvent<this>;
+  removeListener: OnEvent<this>;
+
+  functions: {
+    burnWithPermit(
+      params: CCTPPermitRouter.BurnParamsStruct,
+      signature: CCTPPermitRouter.PermitSignatureStruct,
+      overrides?: Overrides & { from?: string }
+    ): Promise<ContractTransaction>;
+
+    tokenMessenger(overrides?: CallOverrides): Promise<[string]>;
+
+    usdc(overrides?: CallOverrides): Promise<[string]>;
+  };
+
+  burnWithPermit(
+    params: CCTPPermitRouter.BurnParamsStruct,
+    signature: CCTPPermitRouter.PermitSignatureStruct,
+    overrides?: Overrides & { from?: string }
+  ): Promise<ContractTransaction>;
+
+  tokenMessenger(overrides?: CallOverrides): Promise<string>;
+
+  usdc(overrides?: CallOverrides): Promise<string>;
+
+  callStatic: {
+    burnWithPermit(
+      params: CCTPPermitRouter.BurnParamsStruct,
+      signature: CCTPPermitRouter.PermitSignatureStruct,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    tokenMessenger(overrides?: CallOverrides): Promise<string>;
+
+    usdc(overrides?: CallOverrides): Promise<string>;
+  };
+
+  filters: {
+    "PermitBurn(address,uint32,bytes32,uint256,bool)"(
+      sender?: string | null,
+      destinationDomain?: BigNumberish | null,
+      mintRecipient?: null,
+      amount?: null,
+      withHook?: null
+    ): PermitBurnEventFilter;
+    PermitBurn(
+      sender?: string | null,
+      destinationDomain?: BigNumberish | null,
+      mintRecipient?: null,
+      amount?: null,
+      withHook?: null
+    ): PermitBurnEventFilter;
+  };
+
+  estimateGas: {
+    burnWithPermit(
+      params: CCTPPermitRouter.BurnParamsStruct,
+      signature: CCTPPermitRouter.PermitSignatureStruct,
+      overrides?: Overrides & { from?: string }
+    ): Promise<BigNumber>;
+
+    tokenMessenger(overrides?: CallOverrides): Promise<BigNumber>;
+
+    usdc(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    burnWithPermit(
+      params: CCTPPermitRouter.BurnParamsStruct,
+      signature: CCTPPermitRouter.PermitSignatureStruct,
+      overrides?: Overrides & { from?: string }
+    ): Promise<PopulatedTransaction>;
+
+    tokenMessenger(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    usdc(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+}
@@ -37,6 +37,8 @@ export interface USDCInterface extends utils.Interface {
     "name()": FunctionFragment;
     "symbol()": FunctionFragment;
     "totalSupply()": FunctionFragment;
+    "nonces(address)": FunctionFragment;
+    "version()": FunctionFragment;
   };
 
   getFunction(
@@ -50,6 +52,8 @@ export interface USDCInterface extends utils.Interface {
       | "name"
       | "symbol"
       | "totalSupply"
+      | "nonces"
+      | "version"
   ): FunctionFragment;
 
   encodeFunctionData(functionFragment: "balanceOf", values: [string]): string;
@@ -76,6 +80,8 @@ export interface USDCInterface extends utils.Interface {
     functionFragment: "totalSupply",
     values?: undefined
   ): string;
+  encodeFunctionData(functionFragment: "nonces", values: [string]): string;
+  encodeFunctionData(functionFragment: "version", values?: undefined): string;
 
   decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
@@ -92,6 +98,8 @@ export interface USDCInterface extends utils.Interface {
     functionFragment: "totalSupply",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "nonces", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "version", data: BytesLike): Result;
 
   events: {
     "Approval(address,address,uint256)": EventFragment;
@@ -187,6 +195,10 @@ export interface USDC extends BaseContract {
     symbol(overrides?: CallOverrides): Promise<[string]>;
 
     totalSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    nonces(owner: string, overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    version(overrides?: CallOverrides): Promise<[string]>;
   };
 
   balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
@@ -224,6 +236,10 @@ export interface USDC extends BaseContract {
 
   totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
 
+  nonces(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+  version(overrides?: CallOverrides): Promise<string>;
+
   callStatic: {
     balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
 
@@ -259,6 +275,10 @@ export interface USDC extends BaseContract {
     symbol(overrides?: CallOverrides): Promise<string>;
 
     totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+
+    nonces(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    version(overrides?: CallOverrides): Promise<string>;
   };
 
   filters: {
@@ -320,6 +340,10 @@ export interface USDC extends BaseContract {
     symbol(overrides?: CallOverrides): Promise<BigNumber>;
 
     totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+
+    nonces(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    version(overrides?: CallOverrides): Promise<BigNumber>;
   };
 
   populateTransaction: {
@@ -360,5 +384,12 @@ export interface USDC extends BaseContract {
     symbol(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     totalSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    nonces(
+      owner: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    version(overrides?: CallOverrides): Promise<PopulatedTransaction>;
   };
 }
@@ -0,0 +1,182 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Signer, utils } from "ethers";
+import type { Provider } from "@ethersproject/providers";
+import type {
+  CCTPPermitRouter,
+  CCTPPermitRouterInterface,
+} from "../CCTPPermitRouter";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenMessenger",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_usdc",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint32",
+        name: "destinationDomain",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "mintRecipient",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "withHook",
+        type: "bool",
+      },
+    ],
+    name: "PermitBurn",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "struct CCTPPermitRouter.BurnParams",
+        name: "params",
+        type: "tuple",
+        components: [
+          {
+            internalType: "uint256",
+            name: "amount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "destinationDomain",
+            type: "uint32",
+          },
+          {
+            internalType: "bytes32",
+            name: "mintRecipient",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "destinationCaller",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "maxFee",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "minFinalityThreshold",
+            type: "uint32",
+          },
+          {
+            internalType: "bytes",
+            name: "hookData",
+            type: "bytes",
+          },
+        ],
+      },
+      {
+        internalType: "struct CCTPPermitRouter.PermitSignature",
+        name: "signature",
+        type: "tuple",
+        components: [
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+          {
+            internalType: "uint8",
+            name: "v",
+            type: "uint8",
+          },
+          {
+            internalType: "bytes32",
+            name: "r",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "s",
+            type: "bytes32",
+          },
+        ],
+      },
+    ],
+    name: "burnWithPermit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "tokenMessenger",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "usdc",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class CCTPPermitRouter__factory {
+  static readonly abi = _abi;
+  static createInterface(): CCTPPermitRouterInterface {
+    return new utils.Interface(_abi) as CCTPPermitRouterInterface;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): CCTPPermitRouter {
+    return new Contract(address, _abi, signerOrProvider) as CCTPPermitRouter;
+  }
+}
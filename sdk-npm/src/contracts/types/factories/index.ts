@@ -1,6 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export { CCTPHookHandler__factory } from "./CCTPHookHandler__factory";
+export { CCTPPermitRouter__factory } from "./CCTPPermitRouter__factory";
 export { MessageTransmitterV2__factory } from "./MessageTransmitterV2__factory";
 export { TokenMessengerV2__factory } from "./TokenMessengerV2__factory";
 export { USDC__factory } from "./USDC__factory";
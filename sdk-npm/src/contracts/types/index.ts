@@ -1,10 +1,14 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export type { CCTPHookHandler } from "./CCTPHookHandler";
+export type { CCTPPermitRouter } from "./CCTPPermitRouter";
 export type { MessageTransmitterV2 } from "./MessageTransmitterV2";
 export type { TokenMessengerV2 } from "./TokenMessengerV2";
 export type { USDC } from "./USDC";
 export * as factories from "./factories";
+export { CCTPHookHandler__factory } from "./factories/CCTPHookHandler__factory";
+export { CCTPPermitRouter__factory } from "./factories/CCTPPermitRouter__factory";
 export { MessageTransmitterV2__factory } from "./factories/MessageTransmitterV2__factory";
 export { TokenMessengerV2__factory } from "./factories/TokenMessengerV2__factory";
 export { USDC__factory } from "./factories/USDC__factory";
@@ -0,0 +1,59 @@
+import {
+  BridgeProgress,
+  ExecutionEvent,
+  ExecutionEventPayloads,
+  ExecutionEventType,
+  GasFlowEvents
+} from '../types';
+import { TypedEventEmitter } from '../utils/events';
+
+// Event that starts the step each completion event finishes, used for durationMs
+const STEP_STARTS: Partial<Record<ExecutionEventType, ExecutionEventType>> = {
+  approval_confirmed: 'approval_sent',
+  burn_confirmed: 'burn_sent',
+  attestation_received: 'attestation_pending',
+  mint_confirmed: 'mint_sent',
+  userop_included: 'userop_submitted',
+  transaction_confirmed: 'transaction_sent',
+};
+
+/**
+ * Emits the lifecycle events of one execution, stamping each with the
+ * execution ID and timings
+ */
+export class ExecutionEventReporter {
+  private startedAt = Date.now();
+  private stepStartedAt: Map<ExecutionEventType, number> = new Map();
+
+  constructor(
+    private executionId: string,
+    private emitter: TypedEventEmitter<GasFlowEvents>
+  ) {}
+
+  emit<K extends ExecutionEventType>(type: K, payload: ExecutionEventPayloads[K]): void {
+    const now = Date.now();
+    const start = STEP_STARTS[type];
+    const stepStartedAt = start ? this.stepStartedAt.get(start) : undefined;
+    this.stepStartedAt.set(type, now);
+
+    const event = {
+      type,
+      executionId: this.executionId,
+      timestamp: new Date(now),
+      elapsedMs: now - this.startedAt,
+      durationMs: stepStartedAt !== undefined ? now - stepStartedAt : undefined,
+      ...payload,
+    } as ExecutionEvent;
+
+    // The per-type listener signature can't be resolved for a generic K
+    this.emitter.emit(type as ExecutionEventType, event as any);
+    this.emitter.emit('onExecutionEvent', event);
+  }
+
+  /**
+   * Bridge progress listener that forwards CCTP steps as execution events
+   */
+  readonly bridgeProgress = (progress: BridgeProgress): void => {
+    this.emit(progress.step, { chainId: progress.chainId, transactionHash: progress.transactionHash });
+  };
+}
@@ -0,0 +1,93 @@
+import { ethers } from 'ethers';
+import {
+  ExecutionRecord,
+  GasFlowTransaction,
+  StorageAdapter
+} from '../types';
+import { serialize, deserialize } from '../utils/serialization';
+import { hashCalls } from '../utils/idempotency';
+
+const KEY_PREFIX = 'execution:';
+
+/**
+ * Persists every GasFlowSDK execution as a state machine so that an
+ * interrupted execution can be resumed from its last completed step.
+ */
+export class ExecutionJournal {
+  constructor(private storage: StorageAdapter) {}
+
+  async create(
+    transaction: GasFlowTransaction,
+    userAddress: string,
+    batch?: GasFlowTransaction[]
+  ): Promise<ExecutionRecord> {
+    const now = Date.now();
+    const record: ExecutionRecord = {
+      id: this.generateId(),
+      status: 'in_progress',
+      step: 'created',
+      transaction,
+      batch,
+      requestHash: hashCalls(batch || [transaction]),
+      userAddress,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.save(record);
+    return record;
+  }
+
+  async get(executionId: string): Promise<ExecutionRecord | null> {
+    const json = await this.storage.get(KEY_PREFIX + executionId);
+    return json ? deserialize<ExecutionRecord>(json) : null;
+  }
+
+  /**
+   * Merge changes into a record and persist it
+   */
+  async update(
+    record: ExecutionRecord,
+    changes: Partial<Omit<ExecutionRecord, 'id' | 'createdAt'>>
+  ): Promise<ExecutionRecord> {
+    const updated: ExecutionRecord = {
+      ...record,
+      ...changes,
+      updatedAt: Date.now(),
+    };
+
+    await this.save(updated);
+    return updated;
+  }
+
+  async list(): Promise<ExecutionRecord[]> {
+    const keys = await this.storage.keys(KEY_PREFIX);
+    const records = await Promise.all(
+      keys.map(key => this.get(key.slice(KEY_PREFIX.length)))
+    );
+
+    return records
+      .filter((record): record is ExecutionRecord => record !== null)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Executions that have not completed (in progress or failed)
+   */
+  async listPending(): Promise<ExecutionRecord[]> {
+    const records = await this.list();
+    return records.filter(record => record.status !== 'completed');
+  }
+
+  async delete(executionId: string): Promise<void> {
+    await this.storage.delete(KEY_PREFIX + executionId);
+  }
+
+  private async save(record: ExecutionRecord): Promise<void> {
+    await this.storage.set(KEY_PREFIX + record.id, serialize(record));
+  }
+
+  private generateId(): string {
+    return `exec_${Date.now().toString(36)}_${ethers.utils.hexlify(ethers.utils.randomBytes(6)).slice(2)}`;
+  }
+}
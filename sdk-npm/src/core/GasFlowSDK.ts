@@ -1,63 +1,150 @@
-import { BigNumber } from 'ethers';
+import { BigNumber, providers } from 'ethers';
 import { 
   GasFlowConfig, 
+  GasFlowEnvironment,
   GasFlowTransaction, 
   GasFlowResult, 
+  ExecuteOptions,
+  BridgeAndCallParams,
+  BridgeAndCallResult,
+  BridgeHistoryRecord,
+  BridgeResult,
+  BridgeSettlement,
+  BridgeAttestation,
+  BridgeQuote,
+  RebalanceParams,
+  RebalanceJob,
+  CCTPTransferParams,
+  CCTPTransferResult,
+  CCTPTransferMode,
+  QuotedTransferParams,
   UnifiedBalance,
   GasFlowEvents,
   TransactionStatus,
   TransactionUpdate,
   ChainId,
-  EventListener
+  BatchCallResult,
+  ExecutionRecord,
+  ExecutionBridge,
+  PersistedTransferObject,
+  RouteOption,
+  SimulationResult,
+  SimulationStep
 } from '../types';
 import { BalanceManager } from '../services/BalanceManager';
 import { GasEstimator } from '../services/GasEstimator';
 import { CCTPServiceFactory, CCTPService } from '../services/CCTPServiceFactory';
 import { RealPaymasterService } from '../services/RealPaymasterService';
 import { RouteOptimizer, RouteAnalysis } from '../services/RouteOptimizer';
-import { DEFAULT_SUPPORTED_CHAINS } from '../config/chains';
+import { BridgeTracker } from '../services/BridgeTracker';
+import { FastTransferAllowanceMonitor } from '../services/FastTransferAllowanceMonitor';
+import { getDefaultChains, assertChainsInEnvironment } from '../config/chains';
+import { NON_EVM_CHAIN_IDS, isNonEvmChain } from '../contracts/addresses';
+import { MemoryStorageAdapter } from '../storage';
+import { ExecutionJournal } from './ExecutionJournal';
+import { ExecutionEventReporter } from './ExecutionEvents';
+import { TransactionHistory } from './TransactionHistory';
+import { Rebalancer } from './Rebalancer';
+import {
+  GasFlowError,
+  InvalidParamsError,
+  NoRouteError,
+  SignerMissingError,
+  BundlerError,
+  ExecutionRevertedError,
+  CancelledError,
+  describeError
+} from '../errors';
+import { ScopedLogger, createLogger } from '../utils/logger';
+import { abortable, sleep, throwIfAborted } from '../utils/abort';
+import { TypedEventEmitter } from '../utils/events';
+import { IdempotencyStore, hashCalls } from '../utils/idempotency';
 
 export class GasFlowSDK {
+  readonly history: TransactionHistory;
+  readonly bridgeTracker: BridgeTracker;
   private balanceManager: BalanceManager;
   private gasEstimator: GasEstimator;
   private cctpService: CCTPService;
   private paymasterService: RealPaymasterService;
   private routeOptimizer: RouteOptimizer;
-  private eventListeners: Map<string, EventListener[]> = new Map();
+  private journal: ExecutionJournal;
+  private rebalancer: Rebalancer;
+  private executionKeys: IdempotencyStore;
+  private logger: ScopedLogger;
+  private environment: GasFlowEnvironment;
+  private supportedChains: ChainId[];
+  private events: TypedEventEmitter<GasFlowEvents>;
   
   constructor(private config: GasFlowConfig) {
+    this.logger = createLogger(config.logger, [
+      config.apiKey,
+      config.alchemyApiKey,
+      config.coinGeckoApiKey,
+    ]);
+    this.events = new TypedEventEmitter<GasFlowEvents>(this.logger);
+
     // Validate configuration
     this.validateConfig(config);
     
     // Initialize services
-    const useTestnet = true; // For hackathon, always use testnet
+    this.environment = config.environment || 'testnet';
+    const useTestnet = this.environment === 'testnet';
     const supportedChains = config.supportedChains.length > 0 
       ? config.supportedChains 
-      : DEFAULT_SUPPORTED_CHAINS;
+      : getDefaultChains(this.environment);
+    this.supportedChains = supportedChains;
 
-    this.balanceManager = new BalanceManager(supportedChains, useTestnet);
-    this.gasEstimator = new GasEstimator(supportedChains, useTestnet, this.config.coinGeckoApiKey);
+    this.balanceManager = new BalanceManager(supportedChains, useTestnet, this.logger);
+    this.gasEstimator = new GasEstimator(supportedChains, useTestnet, this.config.coinGeckoApiKey, this.logger);
+    const executionStorage = this.config.executionStorage || new MemoryStorageAdapter();
+    const idempotencyStorage = this.config.idempotencyStorage || executionStorage;
+    this.bridgeTracker = new BridgeTracker(useTestnet, executionStorage, this.logger, this.config.irisApiUrl);
     this.cctpService = CCTPServiceFactory.create({
       apiKey: this.config.apiKey,
       useTestnet,
-      signers: this.config.signers
+      signers: this.config.signers,
+      permitRouters: this.config.permitRouters,
+      idempotencyStorage,
+      tracker: this.bridgeTracker,
+      irisApiUrl: this.config.irisApiUrl,
+      logger: this.logger
     });
-    this.paymasterService = new RealPaymasterService(useTestnet, this.config.alchemyApiKey);
+    this.paymasterService = new RealPaymasterService(useTestnet, this.config.alchemyApiKey, this.logger);
     this.routeOptimizer = new RouteOptimizer(
       this.balanceManager,
       this.gasEstimator,
       this.cctpService,
-      supportedChains
+      supportedChains,
+      this.logger
     );
+    if (this.config.fastAllowanceRefreshMs) {
+      this.cctpService.allowanceMonitor.start(this.config.fastAllowanceRefreshMs);
+    }
+    this.journal = new ExecutionJournal(executionStorage);
+    this.executionKeys = new IdempotencyStore(idempotencyStorage, 'idempotency:execution:');
+    this.history = new TransactionHistory(this.config.historyStorage, this.logger);
+    this.rebalancer = new Rebalancer(this.balanceManager, this.cctpService, executionStorage, this.history, this.logger);
   }
 
   private validateConfig(config: GasFlowConfig): void {
     if (!config.apiKey) {
-      throw new Error('API key is required');
+      throw new InvalidParamsError('API key is required');
     }
     
+    if (config.environment && config.environment !== 'mainnet' && config.environment !== 'testnet') {
+      throw new InvalidParamsError(`Invalid environment '${config.environment}' - expected 'mainnet' or 'testnet'`);
+    }
+
+    const environment = config.environment || 'testnet';
     if (!config.supportedChains || config.supportedChains.length === 0) {
-      console.warn('No supported chains specified, using defaults');
+      this.logger.warn('No supported chains specified, using defaults', { environment });
+    } else {
+      assertChainsInEnvironment(config.supportedChains, environment);
+    }
+
+    if (config.signers) {
+      assertChainsInEnvironment(Array.from(config.signers.keys()), environment);
     }
   }
 
@@ -65,48 +152,146 @@ export class GasFlowSDK {
     transaction: GasFlowTransaction,
     userAddress: string,
     userPrivateKey?: string,
-    signer?: any
+    signer?: any,
+    options: ExecuteOptions = {}
+  ): Promise<GasFlowResult> {
+    throwIfAborted(options.signal);
+    return this.startExecution(transaction, userAddress, undefined, userPrivateKey, signer, options.signal);
+  }
+
+  /**
+   * Execute several calls on the same destination chain in one flow. Gas for
+   * all calls is bridged once; with a private key the calls run atomically in
+   * a single paymaster UserOperation, with a signer they are sent one after
+   * another and a result is reported per call.
+   */
+  async executeBatch(
+    transactions: GasFlowTransaction[],
+    userAddress: string,
+    userPrivateKey?: string,
+    signer?: any,
+    options: ExecuteOptions = {}
   ): Promise<GasFlowResult> {
+    throwIfAborted(options.signal);
+    const combined = await this.combineBatch(transactions);
+    return this.startExecution(combined, userAddress, transactions, userPrivateKey, signer, options.signal);
+  }
+
+  /**
+   * Resume an interrupted execution from its last completed step.
+   * Credentials are never persisted, so the private key or signer used for
+   * the original execution must be provided again if execution is pending.
+   */
+  async resume(
+    executionId: string,
+    userPrivateKey?: string,
+    signer?: any,
+    options: ExecuteOptions = {}
+  ): Promise<GasFlowResult> {
+    const record = await this.journal.get(executionId);
+    if (!record) {
+      throw new GasFlowError('EXECUTION_NOT_FOUND', `Execution ${executionId} not found`);
+    }
+
+    if (record.status === 'completed' && record.result) {
+      return record.result;
+    }
+
+    this.logger.info('Resuming execution', { executionId, step: record.step });
+    return this.runExecution(record, userPrivateKey, signer, options.signal);
+  }
+
+  /**
+   * Executions that have not completed (in progress, failed or cancelled) and can be resumed
+   */
+  async listPendingExecutions(): Promise<ExecutionRecord[]> {
+    return this.journal.listPending();
+  }
+
+  async getExecution(executionId: string): Promise<ExecutionRecord | null> {
+    return this.journal.get(executionId);
+  }
+
+  /**
+   * Create and run a new execution. A transaction with an idempotencyKey that
+   * was seen before returns the in-flight or completed result, and resumes an
+   * interrupted or failed execution from its journal instead of starting over.
+   */
+  private async startExecution(
+    transaction: GasFlowTransaction,
+    userAddress: string,
+    batch: GasFlowTransaction[] | undefined,
+    userPrivateKey?: string,
+    signer?: any,
+    signal?: AbortSignal
+  ): Promise<GasFlowResult> {
+    const key = transaction.idempotencyKey;
+    if (!key) {
+      const record = await this.journal.create(transaction, userAddress, batch);
+      return this.runExecution(record, userPrivateKey, signer, signal);
+    }
+
+    return this.executionKeys.dedupe(key, async () => {
+      const executionId = await this.executionKeys.get<string>(key);
+      const existing = executionId ? await this.journal.get(executionId) : null;
+
+      if (existing) {
+        // Records from before requestHash was stored are hashed from their calls
+        const existingHash = existing.requestHash || hashCalls(existing.batch || [existing.transaction]);
+        if (existing.userAddress.toLowerCase() !== userAddress.toLowerCase() ||
+            existingHash !== hashCalls(batch || [transaction])) {
+          throw new InvalidParamsError(`Idempotency key ${key} was already used for a different transaction`);
+        }
+
+        if (existing.status === 'completed' && existing.result) {
+          this.logger.info('Returning completed execution for idempotency key', { executionId: existing.id });
+          return existing.result;
+        }
+
+        this.logger.info('Resuming execution for idempotency key', { executionId: existing.id, step: existing.step });
+        return this.runExecution(existing, userPrivateKey, signer, signal);
+      }
+
+      const record = await this.journal.create(transaction, userAddress, batch);
+      await this.executionKeys.set(key, record.id);
+      return this.runExecution(record, userPrivateKey, signer, signal);
+    });
+  }
+
+  private async runExecution(
+    record: ExecutionRecord,
+    userPrivateKey?: string,
+    signer?: any,
+    signal?: AbortSignal
+  ): Promise<GasFlowResult> {
+    const { transaction, userAddress } = record;
+    const reporter = new ExecutionEventReporter(record.id, this.events);
+    let plannedRoute: RouteOption | undefined;
+
     try {
+      throwIfAborted(signal);
+
+      if (record.status === 'failed' || record.status === 'cancelled') {
+        record = await this.journal.update(record, { status: 'in_progress', error: undefined });
+      }
+
       this.emitUpdate({
+        executionId: record.id,
         status: TransactionStatus.PENDING,
         estimatedCompletion: new Date(Date.now() + 30000), // 30 seconds estimate
       });
 
       // Step 1: Use provided route or analyze optimal route
-      let bestRoute: any;
-      
-      if (transaction.executeOn && typeof transaction.executeOn === 'number' && 
-          transaction.payFromChain && transaction.payFromChain !== 'auto') {
-        // User has selected a specific route - use it directly
-        console.log('Using user-selected route:', {
-          executeOn: transaction.executeOn,
-          payFrom: transaction.payFromChain
-        });
-        
-        bestRoute = {
-          executeOnChain: transaction.executeOn,
-          payFromChain: transaction.payFromChain,
-          gasCost: BigNumber.from('10000'), // Will be calculated later
-          totalCost: BigNumber.from('10000'),
-          estimatedTime: transaction.payFromChain === transaction.executeOn ? 120 : 180
-        };
-      } else {
-        // Analyze optimal route
-        const routeAnalysis = await this.routeOptimizer.analyzeOptimalRoute(
-          transaction,
-          userAddress,
-          transaction.urgency || 'medium'
-        );
+      if (!record.route) {
+        plannedRoute = await this.selectRoute(transaction, userAddress, signal, true);
+        record = await this.journal.update(record, { step: 'route_selected', route: plannedRoute });
+        reporter.emit('route_selected', { route: plannedRoute });
+      }
 
-        if (!routeAnalysis.bestRoute) {
-          throw new Error('No viable execution route found');
-        }
+      const bestRoute = record.route!;
 
-        bestRoute = routeAnalysis.bestRoute;
-      }
-      
-      console.log('Optimal route selected:', {
+      this.logger.info('Route selected', {
+        executionId: record.id,
         executeOn: bestRoute.executeOnChain,
         payFrom: bestRoute.payFromChain,
         totalCost: bestRoute.totalCost.toString(),
@@ -114,99 +299,349 @@ export class GasFlowSDK {
       });
 
       // Step 2: Handle cross-chain bridging if needed
-      let bridgeTransactionHash: string | undefined;
-      
-      if (bestRoute.payFromChain !== bestRoute.executeOnChain) {
+      if (bestRoute.sources) {
+        record = await this.bridgeFromSources(record, reporter, signal);
+      } else if (bestRoute.payFromChain !== bestRoute.executeOnChain) {
         this.emitUpdate({
+          executionId: record.id,
           status: TransactionStatus.BRIDGING,
+          bridgeTransactionHash: record.bridge?.transactionHash,
           estimatedCompletion: new Date(Date.now() + bestRoute.estimatedTime * 1000),
         });
 
-        console.log('Cross-chain bridge required');
-        
-        const bridgeResult = await this.cctpService.initiateBridge({
-          amount: bestRoute.gasCost,
-          fromChain: bestRoute.payFromChain,
-          toChain: bestRoute.executeOnChain,
-          recipient: userAddress,
-          transferMode: transaction.transferMode || 'auto', // Use specified mode or auto
-          useFastTransfer: false, // Backward compatibility - overridden by transferMode
-        });
+        if (!record.bridge) {
+          throwIfAborted(signal);
+          this.logger.info('Cross-chain bridge required', { executionId: record.id });
 
-        bridgeTransactionHash = bridgeResult.transactionHash;
-        
-        // Wait for bridge completion
-        const destinationTxHash = await this.cctpService.waitForCompletion(
-          bridgeResult.transactionHash,
-          bestRoute.payFromChain,
-          bestRoute.executeOnChain
-        );
-        
-        console.log('Bridge completed:', destinationTxHash);
+          const bridgeResult = await this.cctpService.initiateBridge({
+            ...this.plannedBridge(
+              bestRoute.gasCost,
+              bestRoute.payFromChain,
+              bestRoute.executeOnChain,
+              bestRoute,
+              transaction.transferMode
+            ),
+            recipient: userAddress,
+            useFastTransfer: false, // Backward compatibility - overridden by transferMode
+            idempotencyKey: `${record.id}:bridge`, // Never burn twice for one execution
+            allowanceReservationId: bestRoute.allowanceReservationId,
+            onProgress: reporter.bridgeProgress,
+          });
+
+          record = await this.journal.update(record, {
+            step: 'bridge_initiated',
+            bridge: {
+              transactionHash: bridgeResult.transactionHash,
+              transferObject: this.toPersistedTransferObject(bridgeResult.transferObject),
+            },
+          });
+        }
+
+        if (!record.bridge!.destinationTransactionHash) {
+          // Wait for bridge completion
+          const destinationTxHash = await this.cctpService.waitForCompletion(
+            record.bridge!.transactionHash,
+            bestRoute.payFromChain,
+            bestRoute.executeOnChain,
+            record.bridge!.transferObject,
+            { signal, onProgress: reporter.bridgeProgress }
+          );
+
+          const settlement = await this.cctpService.getBridgeSettlement(record.bridge!.transactionHash);
+          record = await this.journal.update(record, {
+            step: 'bridge_completed',
+            bridge: {
+              ...record.bridge!,
+              destinationTransactionHash: destinationTxHash,
+              settlement: settlement || undefined,
+            },
+          });
+
+          this.logger.info('Bridge completed', {
+            executionId: record.id,
+            destinationTransactionHash: destinationTxHash,
+          });
+        }
       }
 
+      const bridgeTransactionHash = record.bridge?.transactionHash || record.bridgeLegs?.[0]?.transactionHash;
+
       // Step 3: Execute transaction with Paymaster
       this.emitUpdate({
+        executionId: record.id,
         status: TransactionStatus.EXECUTING,
         bridgeTransactionHash,
       });
 
-      let transactionHash: string;
-      let gasUsed: BigNumber;
+      const execution = await this.executeOnDestination(record, reporter, userPrivateKey, signer, signal);
+      record = execution.record;
+
+      // Step 4: Calculate final costs and savings
+      const totalCostUSDC = bestRoute.totalCost;
+      const estimatedSavings = undefined; // Skip savings calculation for user-selected routes
+
+      const result: GasFlowResult = {
+        transactionHash: execution.transactionHash,
+        executedOnChain: bestRoute.executeOnChain,
+        gasUsed: execution.gasUsed,
+        gasPaymentChain: bestRoute.payFromChain,
+        totalCostUSDC,
+        bridgeTransactionHash,
+        bridgeTransactionHashes: record.bridgeLegs?.map(leg => leg.transactionHash),
+        estimatedSavings,
+        executionId: record.id,
+        calls: execution.calls,
+        bridgeSettlement: record.bridge?.settlement,
+      };
+
+      record = await this.journal.update(record, {
+        step: 'completed',
+        status: 'completed',
+        result,
+      });
+      await this.history.recordExecution(record);
+
+      this.emitUpdate({
+        executionId: record.id,
+        status: TransactionStatus.COMPLETED,
+        transactionHash: execution.transactionHash,
+        gasUsed: execution.gasUsed,
+      });
+      reporter.emit('completed', { result });
+
+      return result;
+    } catch (error) {
+      const gasFlowError = GasFlowError.from(error, 'EXECUTION_FAILED');
+      // A cancelled execution stays resumable and is reported separately from failures
+      const cancelled = gasFlowError instanceof CancelledError;
+
+      // Allowance held for burns that were never sent; initiateBridge already gave back the rest
+      const route = record.route || plannedRoute;
+      if (route) {
+        this.routeOptimizer.releaseAllowance(route);
+      }
+
+      try {
+        record = await this.journal.update(record, {
+          status: cancelled ? 'cancelled' : 'failed',
+          error: gasFlowError.toJSON(),
+        });
+        await this.history.recordExecution(record);
+      } catch (journalError) {
+        this.logger.warn('Failed to record execution failure', { executionId: record.id, error: journalError });
+      }
+
+      if (cancelled) {
+        this.logger.info('Execution cancelled', { executionId: record.id, step: record.step });
+      }
+
+      this.emitUpdate({
+        executionId: record.id,
+        status: cancelled ? TransactionStatus.CANCELLED : TransactionStatus.FAILED,
+        error: gasFlowError.toJSON(),
+      });
+      reporter.emit(cancelled ? 'cancelled' : 'failed', { step: record.step, error: gasFlowError.toJSON() });
+      if (!cancelled) {
+        this.events.emit('onError', gasFlowError.toJSON());
+      }
+      throw gasFlowError;
+    }
+  }
+
+  private async selectRoute(
+    transaction: GasFlowTransaction,
+    userAddress: string,
+    signal?: AbortSignal,
+    reserveFastAllowance: boolean = false
+  ): Promise<RouteOption> {
+    this.validateTransactionChains(transaction);
+
+    if (transaction.executeOn && typeof transaction.executeOn === 'number' && 
+        transaction.payFromChain && transaction.payFromChain !== 'auto') {
+      // User has selected a specific route - use it directly
+      this.logger.debug('Using user-selected route', {
+        executeOn: transaction.executeOn,
+        payFrom: transaction.payFromChain
+      });
+      
+      return {
+        executeOnChain: transaction.executeOn,
+        payFromChain: transaction.payFromChain,
+        gasCost: BigNumber.from('10000'), // Will be calculated later
+        totalCost: BigNumber.from('10000'),
+        estimatedTime: transaction.payFromChain === transaction.executeOn ? 120 : 180
+      };
+    }
+
+    // Analyze optimal route
+    // Executions hold Fast Transfer allowance for the chosen route until its burn is sent
+    const routeAnalysis = await this.routeOptimizer.analyzeOptimalRoute(
+      transaction,
+      userAddress,
+      transaction.urgency || 'medium',
+      signal,
+      reserveFastAllowance
+    );
+
+    if (!routeAnalysis.bestRoute) {
+      throw new NoRouteError('No viable execution route found');
+    }
+
+    return routeAnalysis.bestRoute;
+  }
+
+  /**
+   * Bridge every leg of a split-source route: burns are sent in parallel and
+   * the execution continues once all of them are minted. Legs already burned
+   * or minted by an earlier attempt are picked up from the journal.
+   */
+  private async bridgeFromSources(
+    record: ExecutionRecord,
+    reporter: ExecutionEventReporter,
+    signal?: AbortSignal
+  ): Promise<ExecutionRecord> {
+    const { transaction, userAddress } = record;
+    const route = record.route!;
+    const sources = route.sources!;
+    const legs: Array<ExecutionBridge | undefined> = sources.map(
+      source => record.bridgeLegs?.find(leg => leg.fromChain === source.chainId)
+    );
+
+    this.emitUpdate({
+      executionId: record.id,
+      status: TransactionStatus.BRIDGING,
+      bridgeTransactionHash: legs[0]?.transactionHash,
+      estimatedCompletion: new Date(Date.now() + route.estimatedTime * 1000),
+    });
+
+    if (legs.some(leg => !leg)) {
+      throwIfAborted(signal);
+      this.logger.info('Split-source bridge required', {
+        executionId: record.id,
+        sources: sources.map(source => source.chainId),
+      });
+
+      const burns = await Promise.allSettled(sources.map((source, index) => legs[index] || this.cctpService
+        .initiateBridge({
+          ...this.plannedBridge(source.amount, source.chainId, route.executeOnChain, source, transaction.transferMode),
+          recipient: userAddress,
+          idempotencyKey: `${record.id}:bridge:${source.chainId}`, // Never burn twice for one leg
+          allowanceReservationId: source.allowanceReservationId,
+          onProgress: reporter.bridgeProgress,
+        })
+        .then(result => {
+          legs[index] = {
+            fromChain: source.chainId,
+            transactionHash: result.transactionHash,
+            transferObject: this.toPersistedTransferObject(result.transferObject),
+          };
+        })
+      ));
+
+      // Record the burns that went through before surfacing a failed one
+      record = await this.journal.update(record, {
+        step: legs.every(leg => leg) ? 'bridge_initiated' : record.step,
+        bridgeLegs: legs.filter((leg): leg is ExecutionBridge => leg !== undefined),
+      });
+      this.throwFirstRejection(burns);
+    }
+
+    const mints = await Promise.allSettled(legs.map(async (leg, index) => {
+      if (leg!.destinationTransactionHash) {
+        return;
+      }
+
+      const destinationTransactionHash = await this.cctpService.waitForCompletion(
+        leg!.transactionHash,
+        sources[index].chainId,
+        route.executeOnChain,
+        leg!.transferObject,
+        { signal, onProgress: reporter.bridgeProgress }
+      );
+      const settlement = await this.cctpService.getBridgeSettlement(leg!.transactionHash);
+      legs[index] = { ...leg!, destinationTransactionHash, settlement: settlement || undefined };
+    }));
+
+    const completed = legs.every(leg => leg!.destinationTransactionHash);
+    record = await this.journal.update(record, {
+      step: completed ? 'bridge_completed' : record.step,
+      bridgeLegs: legs as ExecutionBridge[],
+    });
+    this.throwFirstRejection(mints);
+
+    this.logger.info('Split-source bridge completed', {
+      executionId: record.id,
+      destinationTransactionHashes: legs.map(leg => leg!.destinationTransactionHash),
+    });
+    return record;
+  }
+
+  private throwFirstRejection(results: PromiseSettledResult<unknown>[]): void {
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (rejected) {
+      throw rejected.reason;
+    }
+  }
+
+  /**
+   * Submit the transaction on the destination chain (or pick up a previously
+   * submitted one) and wait for it to be mined
+   */
+  private async executeOnDestination(
+    record: ExecutionRecord,
+    reporter: ExecutionEventReporter,
+    userPrivateKey?: string,
+    signer?: any,
+    signal?: AbortSignal
+  ): Promise<{
+    record: ExecutionRecord;
+    transactionHash: string;
+    gasUsed: BigNumber;
+    calls?: BatchCallResult[];
+  }> {
+    const { transaction } = record;
+    const executeOnChain = record.route!.executeOnChain;
+
+    if (!record.execution) {
+      throwIfAborted(signal);
 
       // Determine execution mode based on available parameters
       const hasPrivateKey = !!userPrivateKey;
       const hasSigner = !!signer;
-      const paymasterAvailable = this.paymasterService.isPaymasterAvailable(bestRoute.executeOnChain);
+      const paymasterAvailable = this.paymasterService.isPaymasterAvailable(executeOnChain);
 
-      console.log('Execution mode analysis:', {
+      this.logger.debug('Selecting execution mode', {
+        executionId: record.id,
         hasPrivateKey,
         hasSigner,
         paymasterAvailable,
-        executeOnChain: bestRoute.executeOnChain
+        executeOnChain
       });
 
       if (paymasterAvailable && hasPrivateKey) {
         // Use Circle Paymaster for USDC gas payment with private key
-        console.log('🏦 Executing with Circle Paymaster v0.8 (private key mode)');
+        this.logger.info('Executing with Circle Paymaster', { executionId: record.id, chainId: executeOnChain });
         
         const operationHash = await this.paymasterService.executeWithPaymaster(
-          transaction,
-          userPrivateKey,
-          bestRoute.executeOnChain
+          record.batch || transaction,
+          userPrivateKey!,
+          executeOnChain
         );
 
-        // Wait for receipt with improved polling
-        let receipt;
-        let attempts = 0;
-        const maxAttempts = 30; // 30 seconds max wait
-        
-        while (attempts < maxAttempts) {
-          try {
-            receipt = await this.paymasterService.getTransactionReceipt(
-              operationHash,
-              bestRoute.executeOnChain
-            );
-            
-            if (receipt.success && receipt.transactionHash) {
-              break;
-            }
-          } catch (error) {
-            console.log(`[CIRCLE] Receipt attempt ${attempts + 1}/${maxAttempts}: ${error}`);
-          }
-          
-          attempts++;
-          await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
-        }
-
-        if (!receipt?.success || !receipt.transactionHash) {
-          throw new Error('Circle Paymaster transaction failed or receipt unavailable');
-        }
-
-        transactionHash = receipt.transactionHash;
-        gasUsed = BigNumber.from(receipt.gasUsed?.toString() || '0');
+        record = await this.journal.update(record, {
+          step: 'execution_submitted',
+          execution: { mode: 'paymaster', hash: operationHash },
+        });
+        reporter.emit('userop_submitted', { chainId: executeOnChain, userOpHash: operationHash });
+      } else if (hasSigner && record.batch) {
+        this.logger.info('Executing batch with signer', {
+          executionId: record.id,
+          chainId: executeOnChain,
+          calls: record.batch.length,
+        });
+        return this.executeBatchWithSigner(record, reporter, signer, signal);
       } else if (hasSigner) {
-        console.log('🔗 Executing with Traditional gas payment (signer mode)');
+        this.logger.info('Executing with signer', { executionId: record.id, chainId: executeOnChain });
         
         try {
           const txRequest = {
@@ -216,16 +651,20 @@ export class GasFlowSDK {
           };
           
           const txResponse = await signer.sendTransaction(txRequest);
-          console.log(`Transaction submitted: ${txResponse.hash}`);
-          
-          const receipt = await txResponse.wait();
-          console.log(`Transaction confirmed in block ${receipt.blockNumber}`);
-          
-          transactionHash = txResponse.hash;
-          gasUsed = receipt.gasUsed;
+          this.logger.info('Transaction submitted', {
+            executionId: record.id,
+            chainId: executeOnChain,
+            transactionHash: txResponse.hash,
+          });
+
+          record = await this.journal.update(record, {
+            step: 'execution_submitted',
+            execution: { mode: 'signer', hash: txResponse.hash },
+          });
+          reporter.emit('transaction_sent', { chainId: executeOnChain, transactionHash: txResponse.hash });
         } catch (error) {
-          console.error('Traditional execution failed:', error);
-          throw new Error(`Transaction execution failed: ${error}`);
+          this.logger.error('Signer execution failed', { executionId: record.id, chainId: executeOnChain, error });
+          throw this.toExecutionError(error, executeOnChain);
         }
       } else {
         // No valid execution method available
@@ -233,61 +672,709 @@ export class GasFlowSDK {
           ? 'Paymaster available but requires private key. For MetaMask integration, provide signer parameter.'
           : 'No execution method available. Provide either private key for paymaster or signer for traditional execution.';
         
-        throw new Error(errorMessage);
+        throw new SignerMissingError(errorMessage, { chainId: executeOnChain });
       }
+    }
 
-      // Step 4: Calculate final costs and savings
-      const totalCostUSDC = bestRoute.totalCost;
-      const estimatedSavings = undefined; // Skip savings calculation for user-selected routes
+    const execution = record.execution!;
 
-      this.emitUpdate({
-        status: TransactionStatus.COMPLETED,
-        transactionHash,
-        gasUsed,
+    if (execution.mode === 'paymaster') {
+      const receipt = await this.waitForUserOperationReceipt(execution.hash, executeOnChain, signal);
+      reporter.emit('userop_included', {
+        chainId: executeOnChain,
+        userOpHash: execution.hash,
+        transactionHash: receipt.transactionHash,
       });
-
       return {
-        transactionHash,
-        executedOnChain: bestRoute.executeOnChain,
-        gasUsed,
-        gasPaymentChain: bestRoute.payFromChain,
-        totalCostUSDC,
-        bridgeTransactionHash,
-        estimatedSavings,
+        record,
+        transactionHash: receipt.transactionHash,
+        gasUsed: BigNumber.from(receipt.gasUsed?.toString() || '0'),
+        // Calls of one UserOperation succeed or revert together
+        calls: record.batch?.map((call, index) => ({
+          index,
+          to: call.to,
+          transactionHash: receipt.transactionHash,
+          status: 'success' as const,
+        })),
       };
+    }
+
+    if (record.batch) {
+      return this.executeBatchWithSigner(record, reporter, signer, signal);
+    }
+
+    const provider = signer?.provider || this.getSignerProvider(executeOnChain);
+    if (!provider) {
+      throw new SignerMissingError(
+        `No provider available to track transaction ${execution.hash} on chain ${executeOnChain}`,
+        { chainId: executeOnChain, transactionHash: execution.hash }
+      );
+    }
+
+    let receipt: providers.TransactionReceipt;
+    try {
+      receipt = await abortable(provider.waitForTransaction(execution.hash), signal);
+      this.logger.info('Transaction confirmed', {
+        executionId: record.id,
+        chainId: executeOnChain,
+        transactionHash: execution.hash,
+        blockNumber: receipt.blockNumber,
+      });
     } catch (error) {
-      this.emitUpdate({
-        status: TransactionStatus.FAILED,
-        error: {
-          code: 'EXECUTION_FAILED',
-          message: error instanceof Error ? error.message : 'Unknown error',
-          retryable: true,
-        },
+      if (error instanceof CancelledError) {
+        throw error;
+      }
+      this.logger.error('Signer execution failed', { executionId: record.id, chainId: executeOnChain, error });
+      throw this.toExecutionError(error, executeOnChain, execution.hash);
+    }
+
+    if (receipt.status === 0) {
+      throw new ExecutionRevertedError(`Transaction ${execution.hash} reverted`, {
+        chainId: executeOnChain,
+        transactionHash: execution.hash,
       });
+    }
+    reporter.emit('transaction_confirmed', { chainId: executeOnChain, transactionHash: execution.hash });
+
+    return {
+      record,
+      transactionHash: execution.hash,
+      gasUsed: receipt.gasUsed,
+    };
+  }
+
+  /**
+   * Send batch calls one at a time, each waiting for the previous one to be
+   * mined, with nonces assigned locally. Every submission and receipt is
+   * journaled so an interrupted batch resumes at the first unfinished call.
+   */
+  private async executeBatchWithSigner(
+    record: ExecutionRecord,
+    reporter: ExecutionEventReporter,
+    signer?: any,
+    signal?: AbortSignal
+  ): Promise<{
+    record: ExecutionRecord;
+    transactionHash: string;
+    gasUsed: BigNumber;
+    calls: BatchCallResult[];
+  }> {
+    const calls = record.batch!;
+    const executeOnChain = record.route!.executeOnChain;
+    const provider = signer?.provider || this.getSignerProvider(executeOnChain);
+    if (!provider) {
+      throw new SignerMissingError(`No provider available to execute batch on chain ${executeOnChain}`, {
+        chainId: executeOnChain,
+      });
+    }
+
+    let results: BatchCallResult[] = [...(record.execution?.calls || [])];
+    let nonce: number | undefined;
+
+    const saveResults = async (hash: string) => {
+      record = await this.journal.update(record, {
+        step: 'execution_submitted',
+        execution: { mode: 'signer', hash, calls: results },
+      });
+    };
+
+    for (let index = 0; index < calls.length; index++) {
+      const call = calls[index];
+      let result = results[index];
+
+      if (!result) {
+        throwIfAborted(signal);
+        if (!signer) {
+          throw new SignerMissingError('A signer is required to continue the batch', { chainId: executeOnChain });
+        }
+
+        try {
+          const callNonce: number = nonce ?? await signer.getTransactionCount('pending');
+          const txResponse = await signer.sendTransaction({
+            to: call.to,
+            value: call.value || 0,
+            data: call.data || '0x',
+            gasLimit: call.gasLimit,
+            nonce: callNonce,
+          });
+          nonce = callNonce + 1;
+
+          result = { index, to: call.to, transactionHash: txResponse.hash, status: 'pending' };
+        } catch (error) {
+          this.logger.error('Batch call submission failed', { executionId: record.id, index, error });
+          throw this.toExecutionError(error, executeOnChain);
+        }
+
+        results = [...results, result];
+        await saveResults(result.transactionHash);
+        reporter.emit('transaction_sent', {
+          chainId: executeOnChain,
+          transactionHash: result.transactionHash,
+          callIndex: index,
+        });
+        this.logger.info('Batch call submitted', {
+          executionId: record.id,
+          index,
+          transactionHash: result.transactionHash,
+        });
+      }
+
+      if (result.status === 'pending') {
+        let receipt: providers.TransactionReceipt;
+        try {
+          receipt = await abortable(provider.waitForTransaction(result.transactionHash), signal);
+        } catch (error) {
+          if (error instanceof CancelledError) {
+            throw error;
+          }
+          throw this.toExecutionError(error, executeOnChain, result.transactionHash);
+        }
+
+        result = {
+          ...result,
+          status: receipt.status === 0 ? 'reverted' : 'success',
+          gasUsed: receipt.gasUsed,
+        };
+        results = results.map(existing => (existing.index === index ? result : existing));
+        await saveResults(result.transactionHash);
+        reporter.emit('transaction_confirmed', {
+          chainId: executeOnChain,
+          transactionHash: result.transactionHash,
+          callIndex: index,
+        });
+      }
+
+      if (result.status === 'reverted') {
+        // Later calls usually depend on earlier ones (approve -> swap), so stop here
+        throw new ExecutionRevertedError(`Batch call ${index} to ${call.to} reverted`, {
+          chainId: executeOnChain,
+          transactionHash: result.transactionHash,
+        });
+      }
+    }
+
+    const last = results[results.length - 1];
+    return {
+      record,
+      transactionHash: last.transactionHash,
+      gasUsed: results.reduce((total, call) => total.add(call.gasUsed || 0), BigNumber.from(0)),
+      calls: results,
+    };
+  }
+
+  /**
+   * Merge batch calls into one transaction used for routing and bridging:
+   * the gas limit is the sum of every call's gas limit
+   */
+  private async combineBatch(transactions: GasFlowTransaction[]): Promise<GasFlowTransaction> {
+    if (!transactions || transactions.length === 0) {
+      throw new InvalidParamsError('executeBatch requires at least one transaction');
+    }
+
+    const [first] = transactions;
+    if (typeof first.executeOn !== 'number') {
+      throw new InvalidParamsError('executeBatch requires executeOn to be a chain ID');
+    }
+
+    const sharedOptions: Array<keyof GasFlowTransaction> = ['executeOn', 'payFromChain', 'urgency', 'transferMode', 'idempotencyKey'];
+    for (const transaction of transactions) {
+      for (const option of sharedOptions) {
+        if (transaction[option] !== undefined && transaction[option] !== first[option]) {
+          throw new InvalidParamsError(`All batch transactions must use the same ${option}`);
+        }
+      }
+    }
+
+    this.validateTransactionChains(first);
+    const urgency = first.urgency || 'medium';
+
+    let gasLimit = BigNumber.from(0);
+    let value = BigNumber.from(0);
+    for (const transaction of transactions) {
+      const callGasLimit = transaction.gasLimit
+        || (await this.gasEstimator.estimateGas(transaction, first.executeOn, urgency)).gasLimit;
+      gasLimit = gasLimit.add(callGasLimit);
+      value = value.add(transaction.value || 0);
+    }
+
+    return {
+      to: first.to,
+      data: first.data,
+      value,
+      gasLimit,
+      payFromChain: first.payFromChain,
+      executeOn: first.executeOn,
+      urgency: first.urgency,
+      routeWeights: first.routeWeights,
+      transferMode: first.transferMode,
+      idempotencyKey: first.idempotencyKey,
+    };
+  }
+
+  private toExecutionError(error: unknown, chainId: ChainId, transactionHash?: string): GasFlowError {
+    const normalized = GasFlowError.from(error, 'EXECUTION_REVERTED', { chainId, transactionHash });
+    if (normalized.code !== 'EXECUTION_REVERTED') {
+      return normalized;
+    }
+    return new ExecutionRevertedError(`Transaction execution failed: ${describeError(error)}`, {
+      chainId,
+      transactionHash,
+      cause: error,
+    });
+  }
+
+  private async waitForUserOperationReceipt(
+    operationHash: string,
+    chainId: ChainId,
+    signal?: AbortSignal
+  ): Promise<{ transactionHash: string; gasUsed?: bigint }> {
+    // Wait for receipt with improved polling
+    let receipt;
+    let attempts = 0;
+    const maxAttempts = 30; // 30 seconds max wait
+    
+    while (attempts < maxAttempts) {
+      throwIfAborted(signal);
+      try {
+        receipt = await this.paymasterService.getTransactionReceipt(
+          operationHash,
+          chainId
+        );
+        
+        if (receipt.success && receipt.transactionHash) {
+          break;
+        }
+      } catch (error) {
+        this.logger.debug('UserOperation receipt not available yet', {
+          userOpHash: operationHash,
+          attempt: attempts + 1,
+          maxAttempts,
+          error,
+        });
+      }
+      
+      attempts++;
+      await sleep(1000, signal); // Wait 1 second
+    }
+
+    if (!receipt?.transactionHash) {
+      // The operation may still be included later - resume() picks it up again
+      throw new BundlerError('Circle Paymaster receipt unavailable', { chainId });
+    }
+
+    if (!receipt.success) {
+      throw new ExecutionRevertedError('Circle Paymaster transaction failed', {
+        chainId,
+        transactionHash: receipt.transactionHash,
+      });
+    }
+
+    return { transactionHash: receipt.transactionHash, gasUsed: receipt.gasUsed };
+  }
+
+  /**
+   * Burn parameters for a planned bridge: the quote the route was planned on
+   * while it is still valid, else the planned transfer mode at current fees.
+   * User-selected routes carry neither and fall back to requestedMode.
+   */
+  private plannedBridge(
+    amount: BigNumber,
+    fromChain: ChainId,
+    toChain: ChainId,
+    plan: { transferMode?: 'fast' | 'standard'; quote?: BridgeQuote },
+    requestedMode: CCTPTransferMode = 'auto'
+  ): Pick<CCTPTransferParams, 'amount' | 'fromChain' | 'toChain' | 'transferMode'> |
+    Pick<QuotedTransferParams, 'quote' | 'transferMode'> {
+    const transferMode = plan.transferMode ?? requestedMode;
+    const { quote } = plan;
+    if (quote && quote.amount.eq(amount) && quote.fromChain === fromChain && Date.now() <= quote.validUntil) {
+      return { quote, transferMode };
+    }
+    return { amount, fromChain, toChain, transferMode };
+  }
+
+  /**
+   * Run a standalone bridge and record how it ended in history. run fills in
+   * the record as the burn and mint happen, so a failure after the burn is
+   * still recorded under its transaction hash.
+   */
+  private async recordBridge<T>(
+    fromChain: ChainId,
+    toChain: ChainId,
+    signer: any,
+    run: (record: Partial<BridgeHistoryRecord>) => Promise<T>
+  ): Promise<T> {
+    const record: Partial<BridgeHistoryRecord> = {};
+    const createdAt = Date.now();
+    const finish = async (status: BridgeHistoryRecord['status']) => {
+      if (!this.history.enabled) {
+        return;
+      }
+      const sender = signer || this.config.signers?.get(fromChain);
+      const userAddress: string = sender ? await sender.getAddress().catch(() => '') : '';
+      await this.history.recordBridge({ ...record, status, userAddress, fromChain, toChain, createdAt });
+    };
+
+    try {
+      const result = await run(record);
+      await finish('completed');
+      return result;
+    } catch (error) {
+      const gasFlowError = GasFlowError.from(error, 'EXECUTION_FAILED');
+      record.transactionHash = record.transactionHash ?? gasFlowError.transactionHash;
+      record.error = gasFlowError.toJSON();
+      await finish(gasFlowError instanceof CancelledError ? 'cancelled' : 'failed');
       throw error;
     }
   }
 
-  async getUnifiedBalance(userAddress: string): Promise<UnifiedBalance> {
-    return this.balanceManager.getUnifiedBalance(userAddress);
+  private getSignerProvider(chainId: ChainId): any {
+    const configuredSigner = this.config.signers?.get(chainId);
+    return configuredSigner?.provider;
+  }
+
+  /**
+   * Reduce a bridge transfer object to the JSON-safe parts needed to resume
+   */
+  private toPersistedTransferObject(transferObject: any): PersistedTransferObject | undefined {
+    if (!transferObject?.messageHash || !transferObject?.message) {
+      return undefined;
+    }
+
+    const receipt = transferObject.receipt;
+    return {
+      messageHash: transferObject.messageHash,
+      message: transferObject.message,
+      receipt: receipt
+        ? {
+            transactionHash: receipt.transactionHash,
+            blockHash: receipt.blockHash,
+            blockNumber: receipt.blockNumber,
+            status: receipt.status,
+            logs: (receipt.logs || []).map((log: any) => ({
+              address: log.address,
+              topics: log.topics,
+              data: log.data,
+              logIndex: log.logIndex,
+            })),
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Finish a CCTP transfer whose burn succeeded but whose mint never happened
+   * (closed tab, missing destination signer, out of gas). Submits
+   * receiveMessage only if the message was not received yet and returns the
+   * destination transaction hash either way.
+   */
+  async completeTransfer(
+    sourceTxHash: string,
+    fromChain: ChainId,
+    toChain: ChainId,
+    signer?: any,
+    options: ExecuteOptions = {}
+  ): Promise<string> {
+    if (!sourceTxHash || !/^0x[0-9a-fA-F]{64}$/.test(sourceTxHash)) {
+      throw new InvalidParamsError('A source transaction hash is required');
+    }
+    this.validateChainId(fromChain);
+    this.validateChainId(toChain);
+    if (signer) {
+      this.validateSigner(signer);
+    }
+
+    this.logger.info('Completing transfer', { fromChain, toChain, transactionHash: sourceTxHash });
+    return this.recordBridge(fromChain, toChain, signer, async record => {
+      record.transactionHash = sourceTxHash;
+      const mintTransactionHash = await this.cctpService.completeTransfer(
+        sourceTxHash,
+        fromChain,
+        toChain,
+        signer,
+        options.signal
+      );
+      record.mintTransactionHash = mintTransactionHash;
+      record.settlement = (await this.cctpService.getBridgeSettlement(sourceTxHash)) || undefined;
+      return mintTransactionHash;
+    });
+  }
+
+  /**
+   * Have Circle re-sign a Fast Transfer message that expired before it was
+   * received, then finish the transfer with completeTransfer(). Transfers
+   * completed through execute() or waitForCompletion are re-attested
+   * automatically. fromChain is needed unless the transfer is still tracked.
+   */
+  async reattest(
+    sourceTxHash: string,
+    fromChain?: ChainId,
+    options: ExecuteOptions = {}
+  ): Promise<BridgeAttestation> {
+    if (!sourceTxHash || !/^0x[0-9a-fA-F]{64}$/.test(sourceTxHash)) {
+      throw new InvalidParamsError('A source transaction hash is required');
+    }
+    if (fromChain !== undefined) {
+      this.validateChainId(fromChain);
+    }
+
+    this.logger.info('Re-attesting transfer', { fromChain, transactionHash: sourceTxHash });
+    return this.cctpService.reattest(sourceTxHash, fromChain, options.signal);
+  }
+
+  /**
+   * Minted amount, fee actually charged and unused maxFee of a transfer
+   * completed by this SDK, or null until its mint is confirmed
+   */
+  async getBridgeSettlement(sourceTxHash: string): Promise<BridgeSettlement | null> {
+    return this.cctpService.getBridgeSettlement(sourceTxHash);
+  }
+
+  /**
+   * Bridge USDC on its own - not to pay for an execution - and wait for the
+   * mint. Takes the same params as CCTP initiateBridge, including quote and
+   * idempotencyKey, and records the transfer in history. For a non-EVM
+   * destination (Solana) the SDK stops at the attestation, which the caller
+   * receives on the destination chain.
+   */
+  async bridge(params: CCTPTransferParams, options: ExecuteOptions = {}): Promise<BridgeResult> {
+    this.validateChainId(params.fromChain);
+    this.validateDestinationChainId(params.toChain);
+    if (params.signer) {
+      this.validateSigner(params.signer);
+    }
+
+    this.logger.info('Bridging', {
+      fromChain: params.fromChain,
+      toChain: params.toChain,
+      amount: params.amount?.toString(),
+    });
+    return this.recordBridge(params.fromChain, params.toChain, params.signer, async record => {
+      throwIfAborted(options.signal);
+      const bridge: CCTPTransferResult = await this.cctpService.initiateBridge(params);
+      record.transactionHash = bridge.transactionHash;
+      record.bridgeFee = bridge.bridgeFee;
+
+      if (isNonEvmChain(params.toChain)) {
+        const transfer = await this.bridgeTracker.track(bridge.transactionHash, params.fromChain, params.toChain, {
+          transferObject: this.toPersistedTransferObject(bridge.transferObject),
+        });
+        const attestation = await transfer.wait(options.signal);
+        return { bridge, destinationCompletion: 'external', attestation };
+      }
+
+      const mintTransactionHash = await this.cctpService.waitForCompletion(
+        bridge.transactionHash,
+        params.fromChain,
+        params.toChain,
+        bridge.transferObject,
+        { signal: options.signal }
+      );
+      record.mintTransactionHash = mintTransactionHash;
+      record.settlement = (await this.cctpService.getBridgeSettlement(bridge.transactionHash)) || undefined;
+      return { bridge, destinationCompletion: 'sdk', mintTransactionHash, settlement: record.settlement };
+    });
+  }
+
+  /**
+   * Bridge USDC and call a contract with it on the destination chain, minting
+   * and calling in one transaction through a deployed CCTPHookHandler. If the
+   * call reverts the USDC goes to params.fallbackRecipient.
+   */
+  async bridgeAndCall(params: BridgeAndCallParams, options: ExecuteOptions = {}): Promise<BridgeAndCallResult> {
+    this.validateChainId(params.fromChain);
+    this.validateChainId(params.toChain);
+
+    this.logger.info('Bridging and calling', {
+      fromChain: params.fromChain,
+      toChain: params.toChain,
+      target: params.target,
+    });
+    return this.recordBridge(params.fromChain, params.toChain, params.signer, async record => {
+      const result = await this.cctpService.bridgeAndCall(params, { signal: options.signal });
+      record.transactionHash = result.bridge.transactionHash;
+      record.mintTransactionHash = result.mintTransactionHash;
+      record.bridgeFee = result.bridge.bridgeFee;
+      record.settlement = (await this.cctpService.getBridgeSettlement(result.bridge.transactionHash)) || undefined;
+      return result;
+    });
+  }
+
+  /**
+   * Fast and standard fees, maxFee, finality and ETA for bridging amount, from
+   * one read of Circle's fee schedule and allowance. Valid until
+   * quote.validUntil.
+   */
+  async getBridgeQuote(amount: BigNumber, fromChain: ChainId, toChain: ChainId): Promise<BridgeQuote> {
+    this.validateChainId(fromChain);
+    this.validateDestinationChainId(toChain);
+    return this.cctpService.getBridgeQuote(amount, fromChain, toChain);
+  }
+
+  /**
+   * Bring every chain in params.targets that is below its min back up to its
+   * target, bridging from chains above their target with as few CCTP
+   * transfers as possible. With dryRun the plan is returned without
+   * bridging; otherwise the transfers run as one job - in parallel across
+   * source chains - whose report includes the outcome of each transfer and
+   * the resulting balances.
+   */
+  async rebalance(params: RebalanceParams, options: ExecuteOptions = {}): Promise<RebalanceJob> {
+    Object.keys(params.targets || {}).forEach(chainId => this.validateChainId(Number(chainId)));
+    return this.rebalancer.rebalance(params, options.signal);
+  }
+
+  async getRebalanceJob(jobId: string): Promise<RebalanceJob | null> {
+    return this.rebalancer.get(jobId);
+  }
+
+  /**
+   * Circle's Fast Transfer allowance as seen by route planning: cached, with
+   * the live/fallback source, reservations and change events
+   */
+  get fastTransferAllowance(): FastTransferAllowanceMonitor {
+    return this.cctpService.allowanceMonitor;
+  }
+
+  async getUnifiedBalance(userAddress: string, options: ExecuteOptions = {}): Promise<UnifiedBalance> {
+    const balance = await this.balanceManager.getUnifiedBalance(userAddress, options.signal);
+    this.events.emit('onBalanceUpdate', balance);
+    return balance;
   }
 
   async estimateTransaction(
     transaction: GasFlowTransaction,
-    userAddress: string
+    userAddress: string,
+    options: ExecuteOptions = {}
   ): Promise<RouteAnalysis> {
+    this.validateTransactionChains(transaction);
+
     return this.routeOptimizer.analyzeOptimalRoute(
       transaction,
       userAddress,
-      transaction.urgency || 'medium'
+      transaction.urgency || 'medium',
+      options.signal
     );
   }
 
   async getOptimalRoute(
     transaction: GasFlowTransaction,
-    userAddress: string
+    userAddress: string,
+    options: ExecuteOptions = {}
   ): Promise<RouteAnalysis> {
-    return this.estimateTransaction(transaction, userAddress);
+    return this.estimateTransaction(transaction, userAddress, options);
+  }
+
+  /**
+   * Dry-run an execution: select the route, pre-flight the bridge and build the
+   * destination call without broadcasting anything. Returns the ordered steps
+   * execute() would perform with calldata, gas and USDC cost for each.
+   */
+  async simulate(
+    transaction: GasFlowTransaction,
+    userAddress: string,
+    userPrivateKey?: string
+  ): Promise<SimulationResult> {
+    const steps: SimulationStep[] = [];
+    const preflightErrors: string[] = [];
+    const urgency = transaction.urgency || 'medium';
+
+    let route: RouteOption;
+    try {
+      route = await this.selectRoute(transaction, userAddress);
+    } catch (error) {
+      preflightErrors.push(error instanceof Error ? error.message : String(error));
+      return {
+        steps,
+        totalEstimatedCostUSDC: BigNumber.from(0),
+        preflightErrors,
+        canExecute: false,
+      };
+    }
+
+    // Bridge steps (approve, depositForBurn, receiveMessage) - one set per source chain
+    const bridgeSources = route.sources
+      ? route.sources.map(source => ({ chainId: source.chainId, amount: source.amount, transferMode: source.transferMode }))
+      : route.payFromChain !== route.executeOnChain
+        ? [{ chainId: route.payFromChain, amount: route.gasCost, transferMode: route.transferMode }]
+        : [];
+    for (const source of bridgeSources) {
+      const bridgeSimulation = await this.cctpService.simulateBridge({
+        amount: source.amount,
+        fromChain: source.chainId,
+        toChain: route.executeOnChain,
+        recipient: userAddress,
+        transferMode: source.transferMode ?? transaction.transferMode ?? 'auto',
+        useFastTransfer: false,
+      }, userAddress);
+
+      steps.push(...bridgeSimulation.steps);
+      preflightErrors.push(...bridgeSimulation.preflightErrors);
+    }
+
+    // Destination execution step
+    const paymasterAvailable = this.paymasterService.isPaymasterAvailable(route.executeOnChain);
+
+    if (paymasterAvailable && userPrivateKey) {
+      const step: SimulationStep = {
+        type: 'userOperation',
+        chainId: route.executeOnChain,
+        to: transaction.to,
+        data: transaction.data || '0x',
+        value: transaction.value,
+        description: `Execute call via Circle Paymaster UserOperation on chain ${route.executeOnChain}`,
+      };
+
+      try {
+        const prepared = await this.paymasterService.buildUserOperation(
+          transaction,
+          userPrivateKey,
+          route.executeOnChain
+        );
+        step.userOperation = prepared.userOperation;
+        step.estimatedGas = BigNumber.from(prepared.totalGas.toString());
+        step.estimatedCostUSDC = BigNumber.from(prepared.usdcCost.toString());
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        step.error = message;
+        preflightErrors.push(message);
+      }
+
+      steps.push(step);
+    } else {
+      const gasEstimate = await this.gasEstimator.estimateGas(transaction, route.executeOnChain, urgency);
+      steps.push({
+        type: 'transaction',
+        chainId: route.executeOnChain,
+        to: transaction.to,
+        data: transaction.data || '0x',
+        value: transaction.value,
+        description: `Execute call with a signer on chain ${route.executeOnChain}`,
+        estimatedGas: gasEstimate.gasLimit,
+        estimatedCostUSDC: gasEstimate.gasCostUSDC,
+      });
+    }
+
+    // Price the remaining gas-only steps in USDC
+    for (const step of steps) {
+      if (step.estimatedCostUSDC || !step.estimatedGas) continue;
+
+      const gasCost = await this.gasEstimator.estimateGasCostUSDC(step.estimatedGas, step.chainId, urgency);
+      step.estimatedCostUSDC = gasCost.add(step.feeUSDC || 0);
+    }
+
+    const totalEstimatedCostUSDC = steps.reduce(
+      (sum, step) => sum.add(step.estimatedCostUSDC || 0),
+      BigNumber.from(0)
+    );
+
+    return {
+      route,
+      steps,
+      totalEstimatedCostUSDC,
+      preflightErrors,
+      canExecute: preflightErrors.length === 0,
+    };
   }
 
   startRealTimeBalanceUpdates(
@@ -295,35 +1382,36 @@ export class GasFlowSDK {
     onUpdate: (balance: UnifiedBalance) => void,
     intervalMs: number = 30000
   ): void {
-    this.balanceManager.startRealTimeUpdates(userAddress, onUpdate, intervalMs);
+    this.balanceManager.startRealTimeUpdates(
+      userAddress,
+      balance => {
+        onUpdate(balance);
+        this.events.emit('onBalanceUpdate', balance);
+      },
+      intervalMs,
+      error => this.events.emit('onError', GasFlowError.from(error, 'RPC_UNAVAILABLE').toJSON())
+    );
   }
 
   stopRealTimeBalanceUpdates(): void {
     this.balanceManager.stopRealTimeUpdates();
   }
 
-  on(event: keyof GasFlowEvents, listener: EventListener): void {
-    if (!this.eventListeners.has(event)) {
-      this.eventListeners.set(event, []);
-    }
-    this.eventListeners.get(event)!.push(listener);
+  /**
+   * Subscribe to status updates, balance updates, errors or a specific
+   * execution lifecycle event (e.g. 'burn_confirmed'). Every lifecycle event
+   * carries its executionId so concurrent executions can be told apart.
+   */
+  on<K extends keyof GasFlowEvents>(event: K, listener: GasFlowEvents[K]): void {
+    this.events.on(event, listener);
   }
 
-  off(event: keyof GasFlowEvents, listener: EventListener): void {
-    const listeners = this.eventListeners.get(event);
-    if (listeners) {
-      const index = listeners.indexOf(listener);
-      if (index > -1) {
-        listeners.splice(index, 1);
-      }
-    }
+  off<K extends keyof GasFlowEvents>(event: K, listener: GasFlowEvents[K]): void {
+    this.events.off(event, listener);
   }
 
   private emitUpdate(update: TransactionUpdate): void {
-    const listeners = this.eventListeners.get('onTransactionUpdate');
-    if (listeners) {
-      listeners.forEach(listener => listener(update));
-    }
+    this.events.emit('onTransactionUpdate', update);
   }
 
   private calculateSavings(
@@ -344,9 +1432,11 @@ export class GasFlowSDK {
   }
 
   async getSupportedChains(): Promise<ChainId[]> {
-    return this.config.supportedChains.length > 0 
-      ? this.config.supportedChains 
-      : DEFAULT_SUPPORTED_CHAINS;
+    return this.supportedChains;
+  }
+
+  getEnvironment(): GasFlowEnvironment {
+    return this.environment;
   }
 
   async getChainStatus(chainId: ChainId): Promise<{
@@ -355,7 +1445,7 @@ export class GasFlowSDK {
     cctpSupported: boolean;
   }> {
     const paymasterSupported = this.paymasterService.isPaymasterAvailable(chainId);
-    const cctpSupported = this.config.supportedChains.includes(chainId);
+    const cctpSupported = this.supportedChains.includes(chainId);
     
     return {
       available: cctpSupported,
@@ -373,9 +1463,9 @@ export class GasFlowSDK {
     
     if (this.cctpService && 'setSigner' in this.cctpService) {
       (this.cctpService as any).setSigner(chainId, signer);
-      console.log(`✅ Signer configured for chain ${chainId}`);
+      this.logger.debug('Signer configured', { chainId });
     } else {
-      console.warn(`⚠️ Current CCTP service does not support dynamic signer addition for chain ${chainId}`);
+      this.logger.warn('Current CCTP service does not support dynamic signer addition', { chainId });
     }
   }
 
@@ -385,15 +1475,10 @@ export class GasFlowSDK {
   setSignerForAllChains(signer: any): void {
     this.validateSigner(signer);
     
-    const supportedChains = this.config.supportedChains.length > 0 
-      ? this.config.supportedChains 
-      : DEFAULT_SUPPORTED_CHAINS;
-      
-    supportedChains.forEach(chainId => {
+    this.supportedChains.forEach(chainId => {
       this.setSigner(chainId, signer);
     });
-    
-    console.log(`✅ Signer configured for ${supportedChains.length} supported chains`);
+
   }
 
   /**
@@ -401,10 +1486,10 @@ export class GasFlowSDK {
    */
   private validateSigner(signer: any): void {
     if (!signer) {
-      throw new Error('Signer cannot be null or undefined');
+      throw new InvalidParamsError('Signer cannot be null or undefined');
     }
     if (typeof signer.getAddress !== 'function') {
-      throw new Error('Invalid signer provided - must implement getAddress() method');
+      throw new InvalidParamsError('Invalid signer provided - must implement getAddress() method');
     }
   }
 
@@ -413,21 +1498,48 @@ export class GasFlowSDK {
    */
   private validateChainId(chainId: ChainId): void {
     if (!chainId || typeof chainId !== 'number') {
-      throw new Error('Invalid chain ID provided');
+      throw new InvalidParamsError('Invalid chain ID provided');
     }
-    
-    const supportedChains = this.config.supportedChains.length > 0 
-      ? this.config.supportedChains 
-      : DEFAULT_SUPPORTED_CHAINS;
+
+    assertChainsInEnvironment([chainId], this.environment);
       
-    if (!supportedChains.includes(chainId)) {
-      console.warn(`⚠️ Chain ${chainId} is not in supported chains list: [${supportedChains.join(', ')}]`);
+    if (!this.supportedChains.includes(chainId)) {
+      this.logger.warn('Chain is not in supported chains list', { chainId, supportedChains: this.supportedChains });
+    }
+  }
+
+  /**
+   * Like validateChainId, but also accepts the environment's non-EVM CCTP
+   * destination, which USDC can be bridged to but nothing executed on
+   */
+  private validateDestinationChainId(chainId: ChainId): void {
+    const nonEvmChainId = this.environment === 'mainnet' ? NON_EVM_CHAIN_IDS.solana : NON_EVM_CHAIN_IDS.solanaDevnet;
+    if (chainId === nonEvmChainId) {
+      return;
     }
+    if (isNonEvmChain(chainId)) {
+      throw new InvalidParamsError(
+        `Chain ${chainId} cannot be used with environment '${this.environment}'`,
+        { chainId }
+      );
+    }
+    this.validateChainId(chainId);
+  }
+
+  /**
+   * Reject transactions that reference chains from the other environment
+   */
+  private validateTransactionChains(transaction: GasFlowTransaction): void {
+    const chainIds = [transaction.executeOn, transaction.payFromChain]
+      .filter((chainId): chainId is ChainId => typeof chainId === 'number');
+    assertChainsInEnvironment(chainIds, this.environment);
   }
 
   destroy(): void {
     this.balanceManager.destroy();
+    this.bridgeTracker.stop();
+    this.cctpService.allowanceMonitor.stop();
     this.gasEstimator.clearCache();
-    this.eventListeners.clear();
+    this.events.removeAllListeners();
   }
 }
\ No newline at end of file
@@ -0,0 +1,356 @@
+import { BigNumber, ethers } from 'ethers';
+import {
+  ChainId,
+  RebalanceJob,
+  RebalanceParams,
+  RebalanceTransfer,
+  StorageAdapter
+} from '../types';
+import { BalanceManager } from '../services/BalanceManager';
+import { CCTPService } from '../services/CCTPServiceFactory';
+import { TransactionHistory } from './TransactionHistory';
+import { CancelledError, GasFlowError, InvalidParamsError } from '../errors';
+import { ScopedLogger } from '../utils/logger';
+import { throwIfAborted } from '../utils/abort';
+import { serialize, deserialize } from '../utils/serialization';
+
+const KEY_PREFIX = 'rebalance:';
+
+const DEFAULT_MAX_FAST_FEE = BigNumber.from(10000); // $0.01 USDC
+const MIN_TRANSFER_AMOUNT = BigNumber.from(10000); // Circle CCTP minimum: 0.01 USDC
+
+interface Surplus {
+  chainId: ChainId;
+  available: BigNumber;
+}
+
+/**
+ * Keeps a USDC float on a set of chains: plans the CCTP transfers that bring
+ * every chain below its min back to its target from chains above theirs, and
+ * runs them as one persisted job.
+ */
+export class Rebalancer {
+  private logger: ScopedLogger;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private balanceManager: BalanceManager,
+    private cctpService: CCTPService,
+    private storage: StorageAdapter,
+    private history: TransactionHistory,
+    logger: ScopedLogger = new ScopedLogger()
+  ) {
+    this.logger = logger.child({ module: 'Rebalancer' });
+  }
+
+  /**
+   * Plan the transfers for params and, unless it is a dry run, execute them
+   * and wait for every mint. Source chains run in parallel, transfers from
+   * the same chain one after another. Failed transfers are reported in the
+   * job rather than thrown; once one is cancelled, the later transfers from
+   * its chain are cancelled without being sent.
+   */
+  async rebalance(params: RebalanceParams, signal?: AbortSignal): Promise<RebalanceJob> {
+    const job = await this.plan(params, signal);
+    if (!job.dryRun) {
+      await this.checkSigners(job);
+    }
+    await this.save(job);
+
+    if (job.dryRun || job.transfers.length === 0) {
+      this.logger.info('Rebalance planned', {
+        jobId: job.id,
+        dryRun: job.dryRun,
+        transfers: job.transfers.length,
+        unmet: job.unmet,
+      });
+      return job;
+    }
+
+    throwIfAborted(signal);
+    job.status = 'running';
+    await this.save(job);
+    this.logger.info('Rebalance started', { jobId: job.id, transfers: job.transfers.length });
+
+    // Burns from one chain share a signer and its nonces, so only chains run in parallel
+    const bySource = new Map<ChainId, number[]>();
+    job.transfers.forEach((transfer, index) => {
+      bySource.set(transfer.fromChain, [...(bySource.get(transfer.fromChain) || []), index]);
+    });
+    await Promise.all(Array.from(bySource.values()).map(async indexes => {
+      for (const index of indexes) {
+        const transfer = job.transfers[index];
+        if (indexes.some(earlier => earlier < index && job.transfers[earlier].status === 'cancelled')) {
+          transfer.status = 'cancelled';
+          continue;
+        }
+        await this.runTransfer(job, transfer, index, signal);
+      }
+    }));
+
+    const completed = job.transfers.filter(transfer => transfer.status === 'completed').length;
+    const cancelled = job.transfers.some(transfer => transfer.status === 'cancelled');
+    job.status = completed === job.transfers.length ? 'completed'
+      : cancelled ? 'cancelled'
+      : completed === 0 ? 'failed'
+      : 'partial';
+    job.totalFees = job.transfers.reduce(
+      (sum, transfer) => sum.add(transfer.settlement?.feeExecuted ?? transfer.bridgeFee),
+      BigNumber.from(0)
+    );
+
+    try {
+      this.balanceManager.clearCache();
+      job.balancesAfter = await this.readBalances(params.address, Object.keys(job.balancesBefore).map(Number));
+    } catch (error) {
+      this.logger.warn('Failed to read balances after rebalance', { jobId: job.id, error });
+    }
+
+    job.finishedAt = Date.now();
+    await this.save(job);
+    this.logger.info('Rebalance finished', { jobId: job.id, status: job.status, completed });
+    return job;
+  }
+
+  async get(jobId: string): Promise<RebalanceJob | null> {
+    const json = await this.storage.get(KEY_PREFIX + jobId);
+    return json ? deserialize<RebalanceJob>(json) : null;
+  }
+
+  /**
+   * Cover each deficit, largest first, from a single chain that can fund it
+   * alone where possible - the cheapest such chain - else from the largest
+   * surplus, so the plan uses as few transfers as possible. No transfer is
+   * below the CCTP minimum: a smaller remainder is rounded up to it and
+   * smaller surpluses are left in place.
+   */
+  private async plan(params: RebalanceParams, signal?: AbortSignal): Promise<RebalanceJob> {
+    const chainIds = this.validateParams(params);
+    const maxFastFee = params.maxFastFee ?? DEFAULT_MAX_FAST_FEE;
+
+    const balancesBefore = await this.readBalances(params.address, chainIds, signal);
+    const projected: Partial<Record<ChainId, BigNumber>> = { ...balancesBefore };
+
+    const deficits = chainIds
+      .filter(chainId => balancesBefore[chainId]!.lt(params.targets[chainId]!.min))
+      .map(chainId => ({ chainId, need: params.targets[chainId]!.target.sub(balancesBefore[chainId]!) }))
+      .sort((a, b) => (b.need.gt(a.need) ? 1 : b.need.lt(a.need) ? -1 : 0));
+    let surpluses: Surplus[] = chainIds
+      .map(chainId => ({ chainId, available: balancesBefore[chainId]!.sub(params.targets[chainId]!.target) }))
+      .filter(surplus => surplus.available.gte(MIN_TRANSFER_AMOUNT));
+
+    const transfers: RebalanceTransfer[] = [];
+    const unmet: ChainId[] = [];
+
+    for (const deficit of deficits) {
+      let remaining = deficit.need;
+
+      while (remaining.gt(0) && surpluses.length > 0) {
+        throwIfAborted(signal);
+        surpluses.sort((a, b) => (b.available.gt(a.available) ? 1 : b.available.lt(a.available) ? -1 : 0));
+
+        const wanted = remaining.lt(MIN_TRANSFER_AMOUNT) ? MIN_TRANSFER_AMOUNT : remaining;
+        const covering = surpluses.filter(surplus => surplus.available.gte(wanted));
+        const candidates = covering.length > 0 ? covering : [surpluses[0]];
+        const amount = candidates[0].available.lt(wanted) ? candidates[0].available : wanted;
+
+        const transfer = await this.cheapestTransfer(candidates, deficit.chainId, amount, maxFastFee);
+        transfers.push(transfer);
+
+        const source = surpluses.find(surplus => surplus.chainId === transfer.fromChain)!;
+        source.available = source.available.sub(amount);
+        surpluses = surpluses.filter(surplus => surplus.available.gte(MIN_TRANSFER_AMOUNT));
+        projected[transfer.fromChain] = projected[transfer.fromChain]!.sub(amount);
+        projected[transfer.toChain] = projected[transfer.toChain]!.add(amount).sub(transfer.bridgeFee);
+        remaining = remaining.sub(amount);
+      }
+
+      if (projected[deficit.chainId]!.lt(params.targets[deficit.chainId]!.min)) {
+        unmet.push(deficit.chainId);
+      }
+    }
+
+    if (unmet.length > 0) {
+      this.logger.warn('Not enough surplus to bring every chain to its min', { unmet });
+    }
+
+    return {
+      id: this.generateId(),
+      address: params.address,
+      dryRun: params.dryRun === true,
+      status: 'planned',
+      transfers,
+      balancesBefore,
+      projectedBalances: projected,
+      unmet,
+      totalFees: transfers.reduce((sum, transfer) => sum.add(transfer.bridgeFee), BigNumber.from(0)),
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Quote amount from each candidate chain and keep the cheapest, using Fast
+   * Transfer only when it is available and its fee is at most maxFastFee
+   */
+  private async cheapestTransfer(
+    candidates: Surplus[],
+    toChain: ChainId,
+    amount: BigNumber,
+    maxFastFee: BigNumber
+  ): Promise<RebalanceTransfer> {
+    let cheapest: RebalanceTransfer | null = null;
+
+    for (const candidate of candidates) {
+      const quote = await this.cctpService.getBridgeQuote(amount, candidate.chainId, toChain);
+      const tier = quote.fast.available && quote.fast.fee.lte(maxFastFee) ? quote.fast : quote.standard;
+      if (!cheapest || tier.fee.lt(cheapest.bridgeFee)) {
+        cheapest = {
+          fromChain: candidate.chainId,
+          toChain,
+          amount,
+          transferMode: tier.transferMode,
+          bridgeFee: tier.fee,
+          estimatedTime: tier.estimatedTime,
+          status: 'planned',
+        };
+      }
+    }
+
+    return cheapest!;
+  }
+
+  private async runTransfer(
+    job: RebalanceJob,
+    transfer: RebalanceTransfer,
+    index: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const createdAt = Date.now();
+    try {
+      transfer.status = 'bridging';
+      const bridge = await this.cctpService.initiateBridge({
+        amount: transfer.amount,
+        fromChain: transfer.fromChain,
+        toChain: transfer.toChain,
+        recipient: job.address,
+        transferMode: transfer.transferMode,
+        idempotencyKey: `${job.id}:${index}`, // Never burn twice for one planned transfer
+        signal,
+      });
+      transfer.transactionHash = bridge.transactionHash;
+      await this.save(job);
+
+      transfer.mintTransactionHash = await this.cctpService.waitForCompletion(
+        bridge.transactionHash,
+        transfer.fromChain,
+        transfer.toChain,
+        bridge.transferObject,
+        { signal }
+      );
+      transfer.settlement = (await this.cctpService.getBridgeSettlement(bridge.transactionHash)) || undefined;
+      transfer.status = 'completed';
+    } catch (error) {
+      const gasFlowError = GasFlowError.from(error, 'EXECUTION_FAILED');
+      if (gasFlowError instanceof CancelledError) {
+        this.logger.info('Rebalance transfer cancelled', {
+          jobId: job.id,
+          fromChain: transfer.fromChain,
+          toChain: transfer.toChain,
+          transactionHash: transfer.transactionHash,
+        });
+        transfer.status = 'cancelled';
+      } else {
+        this.logger.error('Rebalance transfer failed', {
+          jobId: job.id,
+          fromChain: transfer.fromChain,
+          toChain: transfer.toChain,
+          error: gasFlowError,
+        });
+        transfer.status = 'failed';
+      }
+      transfer.error = gasFlowError.toJSON();
+    }
+    await this.save(job);
+
+    await this.history.recordBridge({
+      status: transfer.status,
+      userAddress: job.address,
+      fromChain: transfer.fromChain,
+      toChain: transfer.toChain,
+      transactionHash: transfer.transactionHash,
+      mintTransactionHash: transfer.mintTransactionHash,
+      bridgeFee: transfer.bridgeFee,
+      settlement: transfer.settlement,
+      error: transfer.error,
+      createdAt,
+    });
+  }
+
+  /**
+   * Burns send from the signer of each source chain and mint to job.address,
+   * so a signer for another account would move that account's USDC instead
+   */
+  private async checkSigners(job: RebalanceJob): Promise<void> {
+    const sourceChains = Array.from(new Set(job.transfers.map(transfer => transfer.fromChain)));
+    for (const chainId of sourceChains) {
+      const signerAddress = await this.cctpService.getSignerAddress(chainId);
+      if (signerAddress.toLowerCase() !== job.address.toLowerCase()) {
+        throw new InvalidParamsError(
+          `Signer for chain ${chainId} is ${signerAddress}, not the rebalance address ${job.address}`,
+          { chainId }
+        );
+      }
+    }
+  }
+
+  private validateParams(params: RebalanceParams): ChainId[] {
+    if (!ethers.utils.isAddress(params.address)) {
+      throw new InvalidParamsError('Invalid rebalance address');
+    }
+
+    const chainIds = Object.keys(params.targets || {}).map(Number);
+    if (chainIds.length < 2) {
+      throw new InvalidParamsError('Rebalancing needs targets for at least two chains');
+    }
+
+    for (const chainId of chainIds) {
+      const { min, target } = params.targets[chainId]!;
+      if (min.lt(0) || target.lt(min)) {
+        throw new InvalidParamsError(`Target for chain ${chainId} must satisfy 0 <= min <= target`, { chainId });
+      }
+    }
+    if (params.maxFastFee !== undefined && params.maxFastFee.lt(0)) {
+      throw new InvalidParamsError('maxFastFee cannot be negative');
+    }
+    return chainIds;
+  }
+
+  private async readBalances(
+    address: string,
+    chainIds: ChainId[],
+    signal?: AbortSignal
+  ): Promise<Partial<Record<ChainId, BigNumber>>> {
+    const unified = await this.balanceManager.getUnifiedBalance(address, signal);
+    const balances: Partial<Record<ChainId, BigNumber>> = {};
+    for (const chainId of chainIds) {
+      balances[chainId] = unified.balancesByChain.find(info => info.chainId === chainId)?.balance
+        ?? BigNumber.from(0);
+    }
+    return balances;
+  }
+
+  /**
+   * Persist job snapshots in order - parallel transfers update the same job
+   */
+  private save(job: RebalanceJob): Promise<void> {
+    const json = serialize(job);
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => this.storage.set(KEY_PREFIX + job.id, json));
+    return this.saving;
+  }
+
+  private generateId(): string {
+    return `rebal_${Date.now().toString(36)}_${ethers.utils.hexlify(ethers.utils.randomBytes(6)).slice(2)}`;
+  }
+}
@@ -0,0 +1,229 @@
+import { BigNumber, ethers } from 'ethers';
+import {
+  BridgeHistoryRecord,
+  ExecutionRecord,
+  HistoryEntry,
+  HistoryQuery,
+  StorageAdapter
+} from '../types';
+import { InvalidParamsError } from '../errors';
+import { ScopedLogger } from '../utils/logger';
+import { serialize, deserialize } from '../utils/serialization';
+
+const KEY_PREFIX = 'history:';
+
+const CSV_COLUMNS: Array<keyof HistoryEntry> = [
+  'id',
+  'kind',
+  'status',
+  'userAddress',
+  'executedOnChain',
+  'gasPaymentChain',
+  'totalCostUSDC',
+  'bridgeCostUSDC',
+  'gasUsed',
+  'transactionHash',
+  'bridgeTransactionHash',
+  'bridgeDestinationTransactionHash',
+  'error',
+  'createdAt',
+  'finishedAt',
+];
+
+/**
+ * Opt-in record of finished executions and bridges. Disabled unless a
+ * history storage adapter is configured.
+ */
+export class TransactionHistory {
+  private logger: ScopedLogger;
+
+  constructor(
+    private storage?: StorageAdapter,
+    logger: ScopedLogger = new ScopedLogger()
+  ) {
+    this.logger = logger.child({ module: 'TransactionHistory' });
+  }
+
+  get enabled(): boolean {
+    return !!this.storage;
+  }
+
+  /**
+   * Record an execution that reached a final status. Storage errors are
+   * logged and never fail the execution.
+   */
+  async recordExecution(record: ExecutionRecord): Promise<void> {
+    if (!this.storage || record.status === 'in_progress') {
+      return;
+    }
+
+    const entry: HistoryEntry = {
+      id: record.id,
+      kind: 'execution',
+      status: record.status,
+      userAddress: record.userAddress,
+      executedOnChain: record.result?.executedOnChain ?? record.route?.executeOnChain,
+      gasPaymentChain: record.result?.gasPaymentChain ?? record.route?.payFromChain,
+      route: record.route,
+      totalCostUSDC: record.result?.totalCostUSDC ?? record.route?.totalCost,
+      bridgeCostUSDC: record.route?.bridgeCost,
+      gasUsed: record.result?.gasUsed,
+      transactionHash: record.result?.transactionHash,
+      // Split-source executions are listed by their first leg; route.sources has the rest
+      bridgeTransactionHash: (record.bridge || record.bridgeLegs?.[0])?.transactionHash,
+      bridgeDestinationTransactionHash: (record.bridge || record.bridgeLegs?.[0])?.destinationTransactionHash,
+      error: record.error,
+      createdAt: record.createdAt,
+      finishedAt: record.updatedAt,
+    };
+
+    await this.write(entry);
+  }
+
+  /**
+   * Record a standalone bridge that reached a final status, keyed by its burn
+   * transaction. Storage errors are logged and never fail the bridge.
+   */
+  async recordBridge(record: BridgeHistoryRecord): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    const cost = record.settlement?.feeExecuted ?? record.bridgeFee;
+    await this.write({
+      id: record.transactionHash ?? this.generateId(),
+      kind: 'bridge',
+      status: record.status,
+      userAddress: record.userAddress,
+      executedOnChain: record.toChain,
+      gasPaymentChain: record.fromChain,
+      totalCostUSDC: cost,
+      bridgeCostUSDC: cost,
+      transactionHash: record.mintTransactionHash,
+      bridgeTransactionHash: record.transactionHash,
+      bridgeDestinationTransactionHash: record.mintTransactionHash,
+      error: record.error,
+      createdAt: record.createdAt,
+      finishedAt: Date.now(),
+    });
+  }
+
+  async get(id: string): Promise<HistoryEntry | null> {
+    const json = await this.requireStorage().get(KEY_PREFIX + id);
+    return json ? deserialize<HistoryEntry>(json) : null;
+  }
+
+  /**
+   * Entries matching every given filter, newest first
+   */
+  async query(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+    const storage = this.requireStorage();
+    const keys = await storage.keys(KEY_PREFIX);
+    const entries = await Promise.all(keys.map(key => storage.get(key)));
+
+    const address = query.address?.toLowerCase();
+    const statuses = query.status === undefined
+      ? undefined
+      : Array.isArray(query.status) ? query.status : [query.status];
+    const from = query.from === undefined ? undefined : new Date(query.from).getTime();
+    const to = query.to === undefined ? undefined : new Date(query.to).getTime();
+
+    const matches = entries
+      .filter((json): json is string => json !== null)
+      .map(json => deserialize<HistoryEntry>(json))
+      .filter(entry =>
+        (address === undefined || entry.userAddress.toLowerCase() === address) &&
+        (query.chainId === undefined ||
+          entry.executedOnChain === query.chainId ||
+          entry.gasPaymentChain === query.chainId) &&
+        (statuses === undefined || statuses.includes(entry.status)) &&
+        (from === undefined || entry.createdAt >= from) &&
+        (to === undefined || entry.createdAt <= to)
+      )
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+  }
+
+  /**
+   * Matching entries as a JSON array, amounts as decimal strings in USDC base units
+   */
+  async exportJSON(query: HistoryQuery = {}): Promise<string> {
+    const entries = await this.query(query);
+    return JSON.stringify(entries.map(entry => this.toExportRow(entry)), null, 2);
+  }
+
+  /**
+   * Matching entries as CSV with a header row
+   */
+  async exportCSV(query: HistoryQuery = {}): Promise<string> {
+    const entries = await this.query(query);
+    const rows = entries.map(entry => {
+      const row = this.toExportRow(entry);
+      return CSV_COLUMNS.map(column => this.toCSVField(row[column])).join(',');
+    });
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.requireStorage().delete(KEY_PREFIX + id);
+  }
+
+  async clear(): Promise<void> {
+    const storage = this.requireStorage();
+    const keys = await storage.keys(KEY_PREFIX);
+    await Promise.all(keys.map(key => storage.delete(key)));
+  }
+
+  private toExportRow(entry: HistoryEntry): Record<string, string | number | undefined> {
+    const amount = (value?: BigNumber) => (value ? BigNumber.from(value).toString() : undefined);
+
+    return {
+      id: entry.id,
+      kind: entry.kind,
+      status: entry.status,
+      userAddress: entry.userAddress,
+      executedOnChain: entry.executedOnChain,
+      gasPaymentChain: entry.gasPaymentChain,
+      totalCostUSDC: amount(entry.totalCostUSDC),
+      bridgeCostUSDC: amount(entry.bridgeCostUSDC),
+      gasUsed: amount(entry.gasUsed),
+      transactionHash: entry.transactionHash,
+      bridgeTransactionHash: entry.bridgeTransactionHash,
+      bridgeDestinationTransactionHash: entry.bridgeDestinationTransactionHash,
+      error: entry.error ? `${entry.error.code}: ${entry.error.message}` : undefined,
+      createdAt: new Date(entry.createdAt).toISOString(),
+      finishedAt: new Date(entry.finishedAt).toISOString(),
+    };
+  }
+
+  private toCSVField(value: string | number | undefined): string {
+    if (value === undefined) {
+      return '';
+    }
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private async write(entry: HistoryEntry): Promise<void> {
+    try {
+      await this.storage!.set(KEY_PREFIX + entry.id, serialize(entry));
+    } catch (error) {
+      this.logger.warn('Failed to record history entry', { id: entry.id, kind: entry.kind, error });
+    }
+  }
+
+  /**
+   * ID for a bridge that failed before its burn was sent
+   */
+  private generateId(): string {
+    return `bridge_${Date.now().toString(36)}_${ethers.utils.hexlify(ethers.utils.randomBytes(6)).slice(2)}`;
+  }
+
+  private requireStorage(): StorageAdapter {
+    if (!this.storage) {
+      throw new InvalidParamsError('Transaction history is disabled. Set historyStorage in GasFlowConfig to enable it.');
+    }
+    return this.storage;
+  }
+}
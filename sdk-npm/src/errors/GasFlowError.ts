@@ -0,0 +1,236 @@
+import {
+  ChainId,
+  GasFlowErrorCode,
+  GasFlowError as GasFlowErrorShape
+} from '../types';
+
+/**
+ * Whether an operation failing with a given code may succeed if retried
+ */
+const RETRYABLE_CODES: Record<GasFlowErrorCode, boolean> = {
+  INVALID_PARAMS: false,
+  UNSUPPORTED_CHAIN: false,
+  SIGNER_MISSING: false,
+  USER_REJECTED: false,
+  NO_ROUTE: false,
+  INSUFFICIENT_BALANCE: false,
+  ALLOWANCE_FAILED: true,
+  BURN_REVERTED: false,
+  MESSAGE_NOT_FOUND: false,
+  TRANSACTION_NOT_FOUND: true,
+  ATTESTATION_TIMEOUT: true,
+  ATTESTATION_INVALID: false,
+  ATTESTATION_EXPIRED: true,
+  QUOTE_EXPIRED: false,
+  MINT_REVERTED: true,
+  PAYMASTER_REJECTED: false,
+  BUNDLER_ERROR: true,
+  GAS_ESTIMATION_FAILED: true,
+  RPC_UNAVAILABLE: true,
+  EXECUTION_REVERTED: false,
+  EXECUTION_NOT_FOUND: false,
+  EXECUTION_FAILED: false,
+  CANCELLED: false,
+};
+
+// ethers v5 error codes that indicate the RPC endpoint, not the call, failed
+const RPC_ERROR_CODES = ['NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT'];
+
+export interface GasFlowErrorOptions {
+  chainId?: ChainId;
+  transactionHash?: string;
+  retryable?: boolean;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK. Carries a stable code,
+ * retryability, chain/transaction context and the original cause.
+ */
+export class GasFlowError extends Error implements GasFlowErrorShape {
+  readonly code: GasFlowErrorCode;
+  readonly retryable: boolean;
+  readonly chainId?: ChainId;
+  readonly transactionHash?: string;
+  readonly cause?: unknown;
+
+  constructor(code: GasFlowErrorCode, message: string, options: GasFlowErrorOptions = {}) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options.retryable ?? RETRYABLE_CODES[code];
+    this.chainId = options.chainId;
+    this.transactionHash = options.transactionHash;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Plain GasFlowError object, safe to emit to listeners or persist
+   */
+  toJSON(): GasFlowErrorShape {
+    return {
+      code: this.code,
+      message: this.message,
+      chainId: this.chainId,
+      transactionHash: this.transactionHash,
+      retryable: this.retryable,
+    };
+  }
+
+  /**
+   * Normalize any thrown value into a GasFlowError. Existing GasFlowErrors are
+   * returned unchanged; provider connectivity failures and user rejections are
+   * recognized, everything else gets the fallback code.
+   */
+  static from(
+    error: unknown,
+    fallbackCode: GasFlowErrorCode = 'EXECUTION_FAILED',
+    options: Omit<GasFlowErrorOptions, 'cause'> = {}
+  ): GasFlowError {
+    if (error instanceof GasFlowError) {
+      return error;
+    }
+
+    const message = describeError(error);
+    const ethersCode = (error as any)?.code;
+
+    if (RPC_ERROR_CODES.includes(ethersCode)) {
+      return new RpcUnavailableError(message, { ...options, cause: error });
+    }
+    if (ethersCode === 'ACTION_REJECTED' || ethersCode === 4001) {
+      return new GasFlowError('USER_REJECTED', message, { ...options, cause: error });
+    }
+    if (ethersCode === 'INSUFFICIENT_FUNDS') {
+      return new InsufficientBalanceError(message, { ...options, cause: error });
+    }
+
+    return new GasFlowError(fallbackCode, message, { ...options, cause: error });
+  }
+}
+
+export class InvalidParamsError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('INVALID_PARAMS', message, options);
+  }
+}
+
+export class UnsupportedChainError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('UNSUPPORTED_CHAIN', message, options);
+  }
+}
+
+export class SignerMissingError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('SIGNER_MISSING', message, options);
+  }
+}
+
+export class NoRouteError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('NO_ROUTE', message, options);
+  }
+}
+
+export class InsufficientBalanceError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('INSUFFICIENT_BALANCE', message, options);
+  }
+}
+
+export class AllowanceError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('ALLOWANCE_FAILED', message, options);
+  }
+}
+
+export class BurnRevertedError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('BURN_REVERTED', message, options);
+  }
+}
+
+export class QuoteExpiredError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('QUOTE_EXPIRED', message, options);
+  }
+}
+
+export class AttestationTimeoutError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('ATTESTATION_TIMEOUT', message, options);
+  }
+}
+
+export class AttestationInvalidError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('ATTESTATION_INVALID', message, options);
+  }
+}
+
+export class AttestationExpiredError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('ATTESTATION_EXPIRED', message, options);
+  }
+}
+
+export class MintRevertedError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('MINT_REVERTED', message, options);
+  }
+}
+
+export class PaymasterRejectedError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('PAYMASTER_REJECTED', message, options);
+  }
+}
+
+export class BundlerError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('BUNDLER_ERROR', message, options);
+  }
+}
+
+export class GasEstimationError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('GAS_ESTIMATION_FAILED', message, options);
+  }
+}
+
+export class RpcUnavailableError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('RPC_UNAVAILABLE', message, options);
+  }
+}
+
+export class ExecutionRevertedError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('EXECUTION_REVERTED', message, options);
+  }
+}
+
+export class CancelledError extends GasFlowError {
+  constructor(message: string, options?: GasFlowErrorOptions) {
+    super('CANCELLED', message, options);
+  }
+}
+
+/**
+ * Best human-readable message for a thrown value (revert reason first)
+ */
+export function describeError(error: unknown): string {
+  const err = error as any;
+  if (err?.reason) {
+    return err.reason;
+  }
+  if (err?.shortMessage) {
+    return err.shortMessage;
+  }
+  if (err?.message) {
+    return err.message;
+  }
+  return typeof error === 'string' ? error : 'Unknown error';
+}
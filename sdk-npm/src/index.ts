@@ -1,19 +1,128 @@
 export { GasFlowSDK } from './core/GasFlowSDK';
+export { TransactionHistory } from './core/TransactionHistory';
+export { BridgeTracker, BridgeTransferHandle } from './services/BridgeTracker';
+export { FastTransferAllowanceMonitor } from './services/FastTransferAllowanceMonitor';
 
 export type {
   GasFlowConfig,
   GasFlowTransaction,
   GasFlowResult,
+  ExecuteOptions,
   UnifiedBalance,
+  GasFlowEvents,
+  TransactionUpdate,
+  ExecutionEvent,
+  ExecutionEventType,
+  ExecutionEventPayloads,
+  BridgeProgress,
+  BridgeProgressStep,
   ChainId,
   ExecutionMode,
+  GasFlowEnvironment,
   CCTPTransferMode,
-  CCTPTransferParams
+  CCTPApprovalMethod,
+  CCTPTransferParams,
+  BridgeAndCallParams,
+  BridgeAndCallResult,
+  BridgeResult,
+  BridgeSettlement,
+  BridgeStatus,
+  BridgeStatusValue,
+  BridgeQuote,
+  BridgeQuoteTier,
+  QuotedTransferParams,
+  StorageAdapter,
+  ExecutionRecord,
+  ExecutionBridge,
+  ExecutionStep,
+  ExecutionRecordStatus,
+  BridgeHistoryRecord,
+  HistoryEntry,
+  HistoryEntryStatus,
+  HistoryQuery,
+  RebalanceTarget,
+  RebalanceParams,
+  RebalanceTransfer,
+  RebalanceTransferStatus,
+  RebalanceJob,
+  RebalanceJobStatus,
+  TrackedTransfer,
+  TrackedTransferStatus,
+  TrackOptions,
+  BridgeAttestation,
+  BridgeTransferEvents,
+  FastTransferAllowance,
+  FastTransferAllowanceEvents,
+  AllowanceReservation,
+  CCTPMessage,
+  BurnMessage,
+  MintRecipient,
+  RouteWeights,
+  SimulationResult,
+  SimulationStep,
+  SimulationStepType,
+  GasFlowErrorCode,
+  Logger,
+  LogLevel,
+  LogContext
 } from './types';
 
+export {
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+  FileStorageAdapter
+} from './storage';
+
+export { createConsoleLogger, silentLogger } from './utils/logger';
+
+export {
+  decodeCCTPMessage,
+  encodeCCTPMessage,
+  decodeBurnMessage,
+  encodeBurnMessage,
+  bytes32ToAddress,
+  matchesEmittedMessage
+} from './utils/cctpMessage';
+
+export {
+  encodeMintRecipient,
+  solanaAddressToBytes32,
+  bytes32ToSolanaAddress,
+  getSolanaUSDCTokenAccount
+} from './utils/recipient';
+
+export {
+  GasFlowError,
+  InvalidParamsError,
+  UnsupportedChainError,
+  SignerMissingError,
+  NoRouteError,
+  InsufficientBalanceError,
+  AllowanceError,
+  BurnRevertedError,
+  AttestationTimeoutError,
+  AttestationInvalidError,
+  AttestationExpiredError,
+  QuoteExpiredError,
+  MintRevertedError,
+  PaymasterRejectedError,
+  BundlerError,
+  GasEstimationError,
+  RpcUnavailableError,
+  ExecutionRevertedError,
+  CancelledError
+} from './errors';
+
+export type { GasFlowErrorOptions } from './errors';
+
 export { 
   SUPPORTED_CHAINS, 
-  getChainConfig
+  MAINNET_CHAINS,
+  getChainConfig,
+  isTestnetChain,
+  isMainnetChain
 } from './config/chains';
 
+export { NON_EVM_CHAIN_IDS, SOLANA_CCTP_DOMAIN } from './contracts/addresses';
+
 export const VERSION = '0.6.0';
\ No newline at end of file
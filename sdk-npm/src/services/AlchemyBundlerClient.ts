@@ -1,9 +1,18 @@
 import { ChainId } from '../types';
 import { getChainConfig } from '../config/chains';
+import {
+  GasFlowError,
+  BundlerError,
+  PaymasterRejectedError,
+  UnsupportedChainError,
+  describeError
+} from '../errors';
+import { ScopedLogger } from '../utils/logger';
 
 export interface AlchemyBundlerConfig {
   apiKey: string;
   useTestnet: boolean;
+  logger?: ScopedLogger;
 }
 
 export interface UserOperationResponse {
@@ -26,16 +35,18 @@ export interface AlchemyResponse {
 export class AlchemyBundlerClient {
   private apiKey: string;
   private useTestnet: boolean;
+  private logger: ScopedLogger;
 
   constructor(config: AlchemyBundlerConfig) {
     this.apiKey = config.apiKey;
     this.useTestnet = config.useTestnet;
+    this.logger = (config.logger ?? new ScopedLogger()).child({ module: 'AlchemyBundlerClient' });
   }
 
   private getBundlerUrl(chainId: ChainId): string {
     const config = getChainConfig(chainId, this.useTestnet);
     if (!config.bundlerUrl) {
-      throw new Error(`Bundler URL not configured for chain ${chainId}`);
+      throw new UnsupportedChainError(`Bundler URL not configured for chain ${chainId}`, { chainId });
     }
     return `${config.bundlerUrl}/${this.apiKey}`;
   }
@@ -60,8 +71,7 @@ export class AlchemyBundlerClient {
       id: 1,
     };
 
-    console.log(`[ALCHEMY] Sending UserOperation to ${bundlerUrl}`);
-    console.log('[ALCHEMY] Request:', JSON.stringify(request, null, 2));
+    this.logger.debug('Sending UserOperation', { chainId, entryPoint: entryPointAddress });
 
     try {
       const response = await fetch(bundlerUrl, {
@@ -74,24 +84,23 @@ export class AlchemyBundlerClient {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw this.httpError(response, chainId);
       }
 
       const data: AlchemyResponse = await response.json();
-      console.log('[ALCHEMY] Response:', JSON.stringify(data, null, 2));
 
       if (data.error) {
-        throw new Error(`Alchemy Bundler Error ${data.error.code}: ${data.error.message}`);
+        throw this.rpcError('Alchemy Bundler Error', data.error, chainId);
       }
 
       if (!data.result) {
-        throw new Error('No userOpHash returned from bundler');
+        throw new BundlerError('No userOpHash returned from bundler', { chainId });
       }
 
       return data.result;
     } catch (error) {
-      console.error('[ALCHEMY] Failed to send UserOperation:', error);
-      throw new Error(`Bundler submission failed: ${error}`);
+      this.logger.error('Failed to send UserOperation', { chainId, error });
+      throw this.wrapError(error, 'Bundler submission failed', chainId);
     }
   }
 
@@ -113,7 +122,7 @@ export class AlchemyBundlerClient {
       id: 2,
     };
 
-    console.log(`[ALCHEMY] Estimating gas for UserOperation on chain ${chainId}`);
+    this.logger.debug('Estimating UserOperation gas', { chainId });
 
     try {
       const response = await fetch(bundlerUrl, {
@@ -126,19 +135,19 @@ export class AlchemyBundlerClient {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw this.httpError(response, chainId);
       }
 
       const data: AlchemyResponse = await response.json();
 
       if (data.error) {
-        throw new Error(`Alchemy Gas Estimation Error ${data.error.code}: ${data.error.message}`);
+        throw this.rpcError('Alchemy Gas Estimation Error', data.error, chainId);
       }
 
       return data.result;
     } catch (error) {
-      console.error('[ALCHEMY] Failed to estimate gas:', error);
-      throw new Error(`Gas estimation failed: ${error}`);
+      this.logger.error('Failed to estimate UserOperation gas', { chainId, error });
+      throw this.wrapError(error, 'Gas estimation failed', chainId);
     }
   }
 
@@ -155,7 +164,7 @@ export class AlchemyBundlerClient {
       id: 3,
     };
 
-    console.log(`[ALCHEMY] Getting receipt for UserOperation ${userOpHash}`);
+    this.logger.debug('Fetching UserOperation receipt', { chainId, userOpHash });
 
     try {
       const response = await fetch(bundlerUrl, {
@@ -168,7 +177,7 @@ export class AlchemyBundlerClient {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw this.httpError(response, chainId);
       }
 
       const data: AlchemyResponse = await response.json();
@@ -178,13 +187,13 @@ export class AlchemyBundlerClient {
         if (data.error.code === -32601 || data.error.message.includes('not found')) {
           return null;
         }
-        throw new Error(`Alchemy Receipt Error ${data.error.code}: ${data.error.message}`);
+        throw this.rpcError('Alchemy Receipt Error', data.error, chainId);
       }
 
       return data.result;
     } catch (error) {
-      console.error('[ALCHEMY] Failed to get receipt:', error);
-      throw new Error(`Receipt retrieval failed: ${error}`);
+      this.logger.error('Failed to fetch UserOperation receipt', { chainId, userOpHash, error });
+      throw this.wrapError(error, 'Receipt retrieval failed', chainId);
     }
   }
 
@@ -209,19 +218,46 @@ export class AlchemyBundlerClient {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw this.httpError(response, chainId);
       }
 
       const data: AlchemyResponse = await response.json();
 
       if (data.error) {
-        throw new Error(`Alchemy EntryPoints Error ${data.error.code}: ${data.error.message}`);
+        throw this.rpcError('Alchemy EntryPoints Error', data.error, chainId);
       }
 
       return data.result || [];
     } catch (error) {
-      console.error('[ALCHEMY] Failed to get supported entry points:', error);
-      throw new Error(`Supported entry points retrieval failed: ${error}`);
+      this.logger.error('Failed to fetch supported entry points', { chainId, error });
+      throw this.wrapError(error, 'Supported entry points retrieval failed', chainId);
     }
   }
-}
\ No newline at end of file
+
+  private httpError(response: Response, chainId: ChainId): BundlerError {
+    // Only server-side failures and rate limiting are worth retrying
+    const retryable = response.status >= 500 || response.status === 429;
+    return new BundlerError(`HTTP ${response.status}: ${response.statusText}`, { chainId, retryable });
+  }
+
+  /**
+   * Map a JSON-RPC error from the bundler. -32501 and EntryPoint AA3x codes
+   * are paymaster rejections (ERC-4337 bundler error codes).
+   */
+  private rpcError(label: string, error: AlchemyErrorResponse, chainId: ChainId): GasFlowError {
+    const message = `${label} ${error.code}: ${error.message}`;
+    if (error.code === -32501 || /AA3\d/.test(error.message)) {
+      return new PaymasterRejectedError(message, { chainId });
+    }
+    // -32602 (invalid params) and -32500 (rejected by EntryPoint simulation) won't pass on retry
+    const retryable = error.code !== -32602 && error.code !== -32500;
+    return new BundlerError(message, { chainId, retryable });
+  }
+
+  private wrapError(error: unknown, prefix: string, chainId: ChainId): GasFlowError {
+    if (error instanceof GasFlowError) {
+      return error;
+    }
+    return new BundlerError(`${prefix}: ${describeError(error)}`, { chainId, cause: error });
+  }
+}
@@ -2,6 +2,9 @@ import { ethers, BigNumber } from 'ethers';
 import WebSocket from 'ws';
 import { ChainId, BalanceInfo, UnifiedBalance, ChainConfig } from '../types';
 import { getChainConfig } from '../config/chains';
+import { GasFlowError, UnsupportedChainError, RpcUnavailableError, describeError } from '../errors';
+import { ScopedLogger } from '../utils/logger';
+import { abortable } from '../utils/abort';
 
 const USDC_ABI = [
   'function balanceOf(address owner) view returns (uint256)',
@@ -14,11 +17,14 @@ export class BalanceManager {
   private balanceCache: Map<string, BalanceInfo> = new Map();
   private lastUpdate: Date = new Date();
   private updateInterval: NodeJS.Timeout | null = null;
+  private logger: ScopedLogger;
   
   constructor(
     private supportedChains: ChainId[],
-    private useTestnet: boolean = true
+    private useTestnet: boolean = true,
+    logger: ScopedLogger = new ScopedLogger()
   ) {
+    this.logger = logger.child({ module: 'BalanceManager' });
     this.initializeProviders();
   }
 
@@ -35,6 +41,28 @@ export class BalanceManager {
   async getUSDCBalance(
     address: string,
     chainId: ChainId
+  ): Promise<BalanceInfo> {
+    try {
+      return await this.fetchUSDCBalance(address, chainId);
+    } catch (error) {
+      if (error instanceof UnsupportedChainError) {
+        throw error;
+      }
+      this.logger.warn('Failed to fetch USDC balance', { chainId, error });
+      return {
+        chainId,
+        balance: BigNumber.from(0),
+        usdValue: 0,
+      };
+    }
+  }
+
+  /**
+   * Read the USDC balance, throwing RpcUnavailableError when the chain's RPC fails
+   */
+  private async fetchUSDCBalance(
+    address: string,
+    chainId: ChainId
   ): Promise<BalanceInfo> {
     const cacheKey = `${address}-${chainId}`;
     
@@ -45,12 +73,12 @@ export class BalanceManager {
       }
     }
 
-    try {
-      const provider = this.providers.get(chainId);
-      if (!provider) {
-        throw new Error(`Provider not found for chain ${chainId}`);
-      }
+    const provider = this.providers.get(chainId);
+    if (!provider) {
+      throw new UnsupportedChainError(`Provider not found for chain ${chainId}`, { chainId });
+    }
 
+    try {
       const config = getChainConfig(chainId, this.useTestnet);
       const usdcContract = new ethers.Contract(
         config.usdcAddress,
@@ -74,21 +102,44 @@ export class BalanceManager {
       this.balanceCache.set(cacheKey, balanceInfo);
       return balanceInfo;
     } catch (error) {
-      console.error(`Failed to fetch USDC balance for chain ${chainId}:`, error);
-      return {
-        chainId,
-        balance: BigNumber.from(0),
-        usdValue: 0,
-      };
+      throw new RpcUnavailableError(
+        `Failed to fetch USDC balance for chain ${chainId}: ${describeError(error)}`,
+        { chainId, cause: error }
+      );
     }
   }
 
-  async getUnifiedBalance(address: string): Promise<UnifiedBalance> {
-    const balancePromises = this.supportedChains.map(chainId =>
-      this.getUSDCBalance(address, chainId)
+  async getUnifiedBalance(address: string, signal?: AbortSignal): Promise<UnifiedBalance> {
+    const results = await abortable(
+      Promise.allSettled(
+        this.supportedChains.map(chainId => this.fetchUSDCBalance(address, chainId))
+      ),
+      signal
     );
 
-    const balancesByChain = await Promise.all(balancePromises);
+    // A single unreachable chain reports a zero balance; if every chain
+    // failed the totals would be meaningless, so surface the RPC error
+    const failures = results.filter(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    if (failures.length > 0 && failures.length === results.length) {
+      throw GasFlowError.from(failures[0].reason, 'RPC_UNAVAILABLE');
+    }
+
+    const balancesByChain = results.map((result, index) => {
+      if (result.status === 'fulfilled') {
+        return result.value;
+      }
+      this.logger.warn('Failed to fetch USDC balance', {
+        chainId: this.supportedChains[index],
+        error: result.reason,
+      });
+      return {
+        chainId: this.supportedChains[index],
+        balance: BigNumber.from(0),
+        usdValue: 0,
+      };
+    });
     
     const totalUSDC = balancesByChain.reduce(
       (sum, balance) => sum.add(balance.balance),
@@ -113,7 +164,8 @@ export class BalanceManager {
   startRealTimeUpdates(
     address: string,
     onUpdate: (balance: UnifiedBalance) => void,
-    intervalMs: number = 30000
+    intervalMs: number = 30000,
+    onError?: (error: unknown) => void
   ): void {
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
@@ -124,7 +176,8 @@ export class BalanceManager {
         const balance = await this.getUnifiedBalance(address);
         onUpdate(balance);
       } catch (error) {
-        console.error('Failed to update balance:', error);
+        this.logger.error('Failed to update balance', { error });
+        onError?.(error);
       }
     }, intervalMs);
   }
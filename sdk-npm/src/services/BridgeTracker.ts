@@ -0,0 +1,470 @@
+import {
+  BridgeAttestation,
+  BridgeTransferEvents,
+  ChainId,
+  StorageAdapter,
+  TrackedTransfer,
+  TrackOptions
+} from '../types';
+import { getCCTPDomain, getIrisApiUrl, isNonEvmChain, FINALITY_THRESHOLDS } from '../contracts';
+import { AttestationTimeoutError, CancelledError, GasFlowError } from '../errors';
+import { MemoryStorageAdapter } from '../storage';
+import { ScopedLogger } from '../utils/logger';
+import { TypedEventEmitter } from '../utils/events';
+import { abortable } from '../utils/abort';
+import { serialize, deserialize } from '../utils/serialization';
+import { decodeCCTPMessage, matchesEmittedMessage } from '../utils/cctpMessage';
+
+const KEY_PREFIX = 'bridge:';
+
+// Fast transfers attest in seconds, standard ones wait for source chain finality
+const BACKOFF: Record<TrackedTransfer['transferMode'], { initialMs: number; maxMs: number; factor: number }> = {
+  fast: { initialMs: 2000, maxMs: 15000, factor: 1.5 },
+  standard: { initialMs: 15000, maxMs: 60000, factor: 1.5 },
+};
+
+const RATE_LIMIT_BACKOFF_MS = 60000;
+const MAX_CONCURRENT_REQUESTS = 5;
+const DEFAULT_TIMEOUT_MS = 1200000; // 20 minutes - covers Standard Transfer attestation time
+
+/**
+ * Handle for one tracked transfer. Every track() call for the same burn
+ * shares the same handle, so the transfer is polled once however many
+ * callers are waiting on it.
+ */
+export class BridgeTransferHandle {
+  private events: TypedEventEmitter<BridgeTransferEvents>;
+  private waiters: Array<{ resolve: (attestation: BridgeAttestation) => void; reject: (error: Error) => void }> = [];
+
+  constructor(private current: TrackedTransfer, logger: ScopedLogger) {
+    this.events = new TypedEventEmitter<BridgeTransferEvents>(logger);
+  }
+
+  get transactionHash(): string {
+    return this.current.transactionHash;
+  }
+
+  get status(): TrackedTransfer['status'] {
+    return this.current.status;
+  }
+
+  get transfer(): TrackedTransfer {
+    return { ...this.current };
+  }
+
+  on<K extends keyof BridgeTransferEvents>(event: K, listener: BridgeTransferEvents[K]): void {
+    this.events.on(event, listener);
+  }
+
+  off<K extends keyof BridgeTransferEvents>(event: K, listener: BridgeTransferEvents[K]): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Resolve with the attestation once Circle has signed the message. Aborting
+   * the signal stops waiting but not tracking.
+   */
+  wait(signal?: AbortSignal): Promise<BridgeAttestation> {
+    if (this.current.status === 'attested') {
+      return Promise.resolve(this.current.attestation!);
+    }
+    if (this.current.status === 'failed') {
+      return Promise.reject(this.toError());
+    }
+
+    return abortable(
+      new Promise<BridgeAttestation>((resolve, reject) => this.waiters.push({ resolve, reject })),
+      signal
+    );
+  }
+
+  /**
+   * @internal Called by BridgeTracker when the transfer changes
+   */
+  update(transfer: TrackedTransfer): void {
+    const statusChanged = transfer.status !== this.current.status;
+    this.current = transfer;
+    this.events.emit('status', this.transfer);
+
+    if (!statusChanged) {
+      return;
+    }
+
+    const waiters = this.waiters;
+    if (transfer.status === 'attested') {
+      this.waiters = [];
+      waiters.forEach(waiter => waiter.resolve(transfer.attestation!));
+      this.events.emit('attested', this.transfer);
+    } else if (transfer.status === 'failed') {
+      this.waiters = [];
+      const error = this.toError();
+      waiters.forEach(waiter => waiter.reject(error));
+      this.events.emit('failed', this.transfer);
+    }
+  }
+
+  /**
+   * @internal Called by BridgeTracker when tracking stops
+   */
+  close(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    const error = new CancelledError(`Stopped tracking ${this.current.transactionHash}`, {
+      transactionHash: this.current.transactionHash,
+    });
+    waiters.forEach(waiter => waiter.reject(error));
+    this.events.removeAllListeners();
+  }
+
+  private toError(): GasFlowError {
+    const error = this.current.error;
+    return error
+      ? new GasFlowError(error.code, error.message, {
+          chainId: error.chainId,
+          transactionHash: error.transactionHash,
+          retryable: error.retryable,
+        })
+      : new AttestationTimeoutError('Attestation failed', { transactionHash: this.current.transactionHash });
+  }
+}
+
+/**
+ * Watches many CCTP transfers at once for their Circle attestation. A single
+ * scheduler polls the attestation API for every due transfer with a bounded
+ * number of concurrent requests, backing off per transfer according to its
+ * transfer mode. Tracked transfers are persisted and can be restored after a
+ * restart.
+ */
+export class BridgeTracker {
+  private handles: Map<string, BridgeTransferHandle> = new Map();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+  private baseApiUrl: string;
+  private logger: ScopedLogger;
+
+  constructor(
+    useTestnet: boolean = true,
+    private storage: StorageAdapter = new MemoryStorageAdapter(),
+    logger: ScopedLogger = new ScopedLogger(),
+    irisApiUrl?: string
+  ) {
+    this.baseApiUrl = irisApiUrl || getIrisApiUrl(useTestnet);
+    this.logger = logger.child({ module: 'BridgeTracker' });
+  }
+
+  /**
+   * Start (or join) tracking the burn in transactionHash. A transfer that
+   * failed with a retryable error, such as an attestation timeout, is polled
+   * again from the start.
+   */
+  async track(
+    transactionHash: string,
+    fromChain: ChainId,
+    toChain: ChainId,
+    options: TrackOptions = {}
+  ): Promise<BridgeTransferHandle> {
+    const key = transactionHash.toLowerCase();
+    const existing = this.handles.get(key);
+    if (existing) {
+      if (this.isRetryable(existing.transfer)) {
+        const retried = this.retry(existing.transfer, options);
+        await this.save(retried);
+        existing.update(retried);
+        this.schedule();
+      }
+      return existing;
+    }
+
+    const now = Date.now();
+    let stored = await this.load(key);
+    if (stored && this.isRetryable(stored)) {
+      stored = this.retry(stored, options);
+      await this.save(stored);
+    }
+    const transfer: TrackedTransfer = stored || {
+      transactionHash,
+      fromChain,
+      toChain,
+      transferMode: this.resolveTransferMode(options),
+      destinationCompletion: isNonEvmChain(toChain) ? 'external' : 'sdk',
+      status: 'pending',
+      transferObject: options.transferObject,
+      attempts: 0,
+      nextPollAt: now,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      trackedAt: now,
+      updatedAt: now,
+    };
+
+    // Another call may have started tracking while storage was read
+    const raced = this.handles.get(key);
+    if (raced) {
+      return raced;
+    }
+
+    const handle = new BridgeTransferHandle(transfer, this.logger);
+    this.handles.set(key, handle);
+
+    if (!stored) {
+      await this.save(transfer);
+    }
+
+    this.logger.debug('Tracking transfer', {
+      transactionHash,
+      fromChain,
+      toChain,
+      transferMode: transfer.transferMode,
+      destinationCompletion: transfer.destinationCompletion,
+      status: transfer.status,
+    });
+
+    if (transfer.status === 'pending') {
+      this.schedule();
+    }
+    return handle;
+  }
+
+  /**
+   * Resume tracking every persisted transfer, e.g. after a restart
+   */
+  async restore(): Promise<BridgeTransferHandle[]> {
+    const keys = await this.storage.keys(KEY_PREFIX);
+    const handles: BridgeTransferHandle[] = [];
+
+    for (const key of keys) {
+      const transfer = await this.load(key.slice(KEY_PREFIX.length));
+      if (transfer) {
+        // Poll restored transfers right away rather than waiting out a stale backoff
+        if (transfer.status === 'pending') {
+          transfer.nextPollAt = Date.now();
+        }
+        await this.save(transfer);
+        handles.push(await this.track(transfer.transactionHash, transfer.fromChain, transfer.toChain));
+      }
+    }
+
+    this.logger.info('Restored tracked transfers', { count: handles.length });
+    return handles;
+  }
+
+  get(transactionHash: string): BridgeTransferHandle | undefined {
+    return this.handles.get(transactionHash.toLowerCase());
+  }
+
+  list(): TrackedTransfer[] {
+    return Array.from(this.handles.values()).map(handle => handle.transfer);
+  }
+
+  /**
+   * Stop tracking a transfer and forget its persisted state. Pending wait()
+   * calls reject with a CancelledError.
+   */
+  async untrack(transactionHash: string): Promise<void> {
+    const key = transactionHash.toLowerCase();
+    const handle = this.handles.get(key);
+    this.handles.delete(key);
+    handle?.close();
+    await this.storage.delete(KEY_PREFIX + key);
+  }
+
+  /**
+   * Stop polling. Persisted transfers can be picked up again with restore().
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.handles.forEach(handle => handle.close());
+    this.handles.clear();
+  }
+
+  private schedule(): void {
+    if (this.polling) {
+      return; // Rescheduled once the current round finishes
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const pending = Array.from(this.handles.values())
+      .map(handle => handle.transfer)
+      .filter(transfer => transfer.status === 'pending');
+    if (pending.length === 0) {
+      return;
+    }
+
+    const nextPollAt = Math.min(...pending.map(transfer => transfer.nextPollAt));
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pollDue().catch(error => this.logger.error('Attestation polling round failed', { error }));
+    }, Math.max(0, nextPollAt - Date.now()));
+  }
+
+  private async pollDue(): Promise<void> {
+    this.polling = true;
+    try {
+      const now = Date.now();
+      const due = Array.from(this.handles.values())
+        .filter(handle => handle.status === 'pending' && handle.transfer.nextPollAt <= now);
+
+      for (let i = 0; i < due.length; i += MAX_CONCURRENT_REQUESTS) {
+        await Promise.all(due.slice(i, i + MAX_CONCURRENT_REQUESTS).map(handle => this.poll(handle)));
+      }
+    } finally {
+      this.polling = false;
+      this.schedule();
+    }
+  }
+
+  private async poll(handle: BridgeTransferHandle): Promise<void> {
+    const transfer = handle.transfer;
+    const attempts = transfer.attempts + 1;
+    let rateLimited = false;
+    let next: TrackedTransfer = { ...transfer, attempts };
+
+    try {
+      const sourceDomain = getCCTPDomain(transfer.fromChain);
+      const response = await fetch(
+        `${this.baseApiUrl}/v2/messages/${sourceDomain}?transactionHash=${transfer.transactionHash}`
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        const message = this.selectMessage(data.messages || [], transfer);
+        next.irisStatus = message?.status;
+
+        if (message?.status === 'complete' && message.attestation && message.attestation !== 'PENDING') {
+          next = {
+            ...next,
+            status: 'attested',
+            attestation: {
+              message: message.message.startsWith('0x') ? message.message : `0x${message.message}`,
+              signature: message.attestation.startsWith('0x') ? message.attestation : `0x${message.attestation}`,
+            },
+          };
+        }
+      } else if (response.status === 429) {
+        rateLimited = true;
+        this.logger.warn('Attestation API rate limited', { transactionHash: transfer.transactionHash });
+      } else if (response.status !== 404) {
+        this.logger.warn('Attestation API error', { transactionHash: transfer.transactionHash, status: response.status });
+      }
+    } catch (error) {
+      this.logger.warn('Attestation polling attempt failed', { transactionHash: transfer.transactionHash, error });
+    }
+
+    const now = Date.now();
+    if (next.status === 'pending') {
+      if (now - transfer.trackedAt >= transfer.timeoutMs) {
+        next.status = 'failed';
+        next.error = new AttestationTimeoutError('Attestation timeout - Circle may still be processing the message', {
+          transactionHash: transfer.transactionHash,
+        }).toJSON();
+      } else {
+        next.nextPollAt = now + (rateLimited ? RATE_LIMIT_BACKOFF_MS : this.backoff(transfer.transferMode, attempts));
+      }
+    }
+    next.updatedAt = now;
+
+    if (next.status !== 'pending') {
+      this.logger.info('Tracked transfer finished', {
+        transactionHash: transfer.transactionHash,
+        status: next.status,
+        attempts,
+        elapsedMs: now - transfer.trackedAt,
+      });
+    }
+
+    try {
+      await this.save(next);
+    } catch (error) {
+      this.logger.warn('Failed to persist tracked transfer', { transactionHash: transfer.transactionHash, error });
+    }
+
+    // Skip handles that were untracked while the request was in flight
+    if (this.handles.get(transfer.transactionHash.toLowerCase()) === handle) {
+      handle.update(next);
+    }
+  }
+
+  /**
+   * The Iris entry for the tracked burn. A transaction can send several CCTP
+   * messages: the entry is then matched against the emitted message from the
+   * transfer object. A lone entry is taken as is - the attestation is
+   * validated against the burn before minting.
+   */
+  private selectMessage(messages: any[], transfer: TrackedTransfer): any {
+    if (messages.length <= 1) {
+      return messages[0];
+    }
+
+    const emitted = transfer.transferObject?.message;
+    if (!emitted) {
+      this.logger.warn('Transaction sent several CCTP messages - track it with its transferObject to pick one', {
+        transactionHash: transfer.transactionHash,
+        messages: messages.length,
+      });
+      return messages[0];
+    }
+    return messages.find(entry => typeof entry.message === 'string' &&
+      matchesEmittedMessage(entry.message.startsWith('0x') ? entry.message : `0x${entry.message}`, emitted));
+  }
+
+  private isRetryable(transfer: TrackedTransfer): boolean {
+    return transfer.status === 'failed' && transfer.error?.retryable === true;
+  }
+
+  private retry(transfer: TrackedTransfer, options: TrackOptions): TrackedTransfer {
+    const now = Date.now();
+    this.logger.info('Retrying failed transfer', {
+      transactionHash: transfer.transactionHash,
+      error: transfer.error?.code,
+    });
+
+    return {
+      ...transfer,
+      status: 'pending',
+      error: undefined,
+      attempts: 0,
+      nextPollAt: now,
+      timeoutMs: options.timeoutMs ?? transfer.timeoutMs,
+      trackedAt: now,
+      updatedAt: now,
+    };
+  }
+
+  private backoff(transferMode: TrackedTransfer['transferMode'], attempts: number): number {
+    const { initialMs, maxMs, factor } = BACKOFF[transferMode];
+    return Math.min(maxMs, initialMs * Math.pow(factor, attempts - 1));
+  }
+
+  /**
+   * Explicit mode, else the minFinalityThreshold of the burn message
+   */
+  private resolveTransferMode(options: TrackOptions): TrackedTransfer['transferMode'] {
+    if (options.transferMode && options.transferMode !== 'auto') {
+      return options.transferMode;
+    }
+
+    const message = options.transferObject?.message;
+    if (!message) {
+      return 'standard';
+    }
+    try {
+      return decodeCCTPMessage(message).minFinalityThreshold <= FINALITY_THRESHOLDS.fast ? 'fast' : 'standard';
+    } catch {
+      return 'standard';
+    }
+  }
+
+  private async load(key: string): Promise<TrackedTransfer | null> {
+    const json = await this.storage.get(KEY_PREFIX + key);
+    return json ? deserialize<TrackedTransfer>(json) : null;
+  }
+
+  private async save(transfer: TrackedTransfer): Promise<void> {
+    await this.storage.set(KEY_PREFIX + transfer.transactionHash.toLowerCase(), serialize(transfer));
+  }
+}
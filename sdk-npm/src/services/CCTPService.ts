@@ -1,15 +1,21 @@
 import { BigNumber } from 'ethers';
-import { ChainId, CCTPTransferParams, CCTPTransferResult } from '../types';
+import { ChainId, CCTPTransferParams, CCTPTransferResult, BridgeWaitOptions, BridgeStatus } from '../types';
 import { getChainConfig } from '../config/chains';
+import { ScopedLogger } from '../utils/logger';
+import { sleep } from '../utils/abort';
 
 export class CCTPService {
   public readonly BRIDGE_FEE_USDC = BigNumber.from(100000); // $0.10 USDC (6 decimals)
   public readonly FAST_TRANSFER_THRESHOLD = BigNumber.from(1000000000); // $1000 USDC
+  private logger: ScopedLogger;
   
   constructor(
     public apiKey: string,
-    public useTestnet: boolean = true
-  ) {}
+    public useTestnet: boolean = true,
+    logger: ScopedLogger = new ScopedLogger()
+  ) {
+    this.logger = logger.child({ module: 'CCTPService' });
+  }
 
   async estimateBridgeFee(
     amount: BigNumber,
@@ -108,7 +114,7 @@ export class CCTPService {
         ? '0x' + Math.random().toString(16).substr(2, 64)
         : undefined;
 
-      console.log(`[MOCK] Initiating CCTP bridge:`, {
+      this.logger.debug('Initiating mock CCTP bridge', {
         amount: amount.toString(),
         fromChain,
         toChain,
@@ -128,7 +134,7 @@ export class CCTPService {
         bridgeFee,
       };
     } catch (error) {
-      console.error('Failed to initiate CCTP bridge:', error);
+      this.logger.error('Failed to initiate CCTP bridge', { fromChain, toChain, error });
       throw new Error(`Bridge initiation failed: ${error}`);
     }
   }
@@ -136,13 +142,15 @@ export class CCTPService {
   async waitForCompletion(
     transactionHash: string,
     fromChain: ChainId,
-    toChain: ChainId
+    toChain: ChainId,
+    transferObject?: any,
+    options: BridgeWaitOptions = {}
   ): Promise<string> {
     // Mock implementation - poll for completion
-    console.log(`[MOCK] Waiting for bridge completion: ${transactionHash}`);
+    this.logger.debug('Waiting for mock bridge completion', { transactionHash });
     
     // Simulate waiting time
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    await sleep(2000, options.signal);
     
     // Return mock destination transaction hash
     return '0x' + Math.random().toString(16).substr(2, 64);
@@ -151,13 +159,13 @@ export class CCTPService {
   async getBridgeStatus(
     transactionHash: string,
     fromChain: ChainId
-  ): Promise<'pending' | 'attested' | 'completed' | 'failed'> {
+  ): Promise<BridgeStatus> {
     // Mock implementation
-    console.log(`[MOCK] Checking bridge status: ${transactionHash}`);
-    
+    this.logger.debug('Checking mock bridge status', { transactionHash });
+
     // Simulate random status for demo
     const statuses = ['pending', 'attested', 'completed'] as const;
-    return statuses[Math.floor(Math.random() * statuses.length)];
+    return { status: statuses[Math.floor(Math.random() * statuses.length)] };
   }
 
   async getOptimalRoute(
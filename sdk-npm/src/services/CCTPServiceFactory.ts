@@ -1,6 +1,20 @@
 import { Signer } from 'ethers';
-import { ChainId } from '../types';
+import {
+  ChainId,
+  BridgeWaitOptions,
+  BridgeAndCallParams,
+  BridgeAndCallResult,
+  BridgeSettlement,
+  BridgeAttestation,
+  BridgeQuote,
+  BridgeStatus,
+  StorageAdapter
+} from '../types';
 import { ProductionCCTPService } from './ProductionCCTPService';
+import { BridgeTracker } from './BridgeTracker';
+import { FastTransferAllowanceMonitor } from './FastTransferAllowanceMonitor';
+import { InvalidParamsError, SignerMissingError } from '../errors';
+import { ScopedLogger } from '../utils/logger';
 
 /**
  * Configuration for CCTP Service creation
@@ -9,6 +23,11 @@ export interface CCTPServiceConfig {
   apiKey: string;
   useTestnet?: boolean;
   signers?: Map<ChainId, Signer>;
+  permitRouters?: Map<ChainId, string>;
+  idempotencyStorage?: StorageAdapter; // Default: in-memory
+  tracker?: BridgeTracker; // Attestation tracker (default: one persisting to idempotencyStorage)
+  irisApiUrl?: string; // Attestation API base URL (default: Circle's for the network)
+  logger?: ScopedLogger;
 }
 
 /**
@@ -20,13 +39,21 @@ export interface CCTPService {
   readonly FAST_TRANSFER_THRESHOLD: any; // BigNumber
   readonly apiKey: string;
   readonly useTestnet?: boolean;
+  readonly allowanceMonitor: FastTransferAllowanceMonitor;
   
   estimateBridgeFee(amount: any, fromChain: ChainId, toChain: ChainId): Promise<any>;
-  canUseFastTransfer(amount: any, fromChain: ChainId, toChain: ChainId): Promise<boolean>;
+  getBridgeQuote(amount: any, fromChain: ChainId, toChain: ChainId): Promise<BridgeQuote>;
+  canUseFastTransfer(amount: any, fromChain: ChainId, toChain: ChainId, reservationId?: string): Promise<boolean>;
   estimateTransferTime(amount: any, fromChain: ChainId, toChain: ChainId, useFastTransfer?: boolean): Promise<number>;
+  getSignerAddress(chainId: ChainId): Promise<string>;
   initiateBridge(params: any): Promise<any>;
-  waitForCompletion(txHash: string, fromChain: ChainId, toChain: ChainId, transferObject?: any): Promise<string>;
-  getBridgeStatus(txHash: string, fromChain: ChainId, transferObject?: any): Promise<'pending' | 'attested' | 'completed' | 'failed'>;
+  simulateBridge(params: any, senderAddress?: string): Promise<any>;
+  waitForCompletion(txHash: string, fromChain: ChainId, toChain: ChainId, transferObject?: any, options?: BridgeWaitOptions): Promise<string>;
+  completeTransfer(txHash: string, fromChain: ChainId, toChain: ChainId, signer?: Signer, signal?: AbortSignal): Promise<string>;
+  reattest(txHash: string, fromChain?: ChainId, signal?: AbortSignal): Promise<BridgeAttestation>;
+  bridgeAndCall(params: BridgeAndCallParams, options?: BridgeWaitOptions): Promise<BridgeAndCallResult>;
+  getBridgeStatus(txHash: string, fromChain: ChainId, transferObject?: any): Promise<BridgeStatus>;
+  getBridgeSettlement(txHash: string): Promise<BridgeSettlement | null>;
   getOptimalRoute(amount: any, fromChains: ChainId[], toChain: ChainId): Promise<any>;
 }
 
@@ -42,22 +69,29 @@ export class CCTPServiceFactory {
     const {
       apiKey,
       useTestnet = true,
-      signers
+      signers,
+      permitRouters,
+      idempotencyStorage,
+      tracker,
+      irisApiUrl,
+      logger = new ScopedLogger()
     } = config;
 
-    console.log('🔗 Creating ProductionCCTPService with real Circle contracts');
-    
-    const service = new ProductionCCTPService(apiKey, useTestnet);
+    const service = new ProductionCCTPService(apiKey, useTestnet, idempotencyStorage, tracker, logger, irisApiUrl);
     
     // Set up signers if provided
     if (signers) {
       signers.forEach((signer, chainId) => {
         service.setSigner(chainId, signer);
       });
-      console.log(`📝 Configured signers for ${signers.size} chains`);
+      logger.debug('Configured CCTP signers', { chains: Array.from(signers.keys()) });
     } else {
-      console.warn('⚠️ No signers provided - you must call setSigner() before using the service');
+      logger.debug('No CCTP signers provided - setSigner() must be called before bridging');
     }
+
+    permitRouters?.forEach((router, chainId) => {
+      service.setPermitRouter(chainId, router);
+    });
     
     return service;
   }
@@ -74,21 +108,19 @@ export class CCTPServiceFactory {
    */
   static validateConfig(config: CCTPServiceConfig): void {
     if (!config.apiKey) {
-      throw new Error('Circle API key is required for CCTP service');
+      throw new InvalidParamsError('Circle API key is required for CCTP service');
     }
 
     if (!config.signers || config.signers.size === 0) {
-      throw new Error('At least one signer is required for CCTP service');
+      throw new SignerMissingError('At least one signer is required for CCTP service');
     }
 
     // Validate each signer
     config.signers.forEach((signer, chainId) => {
       if (!signer.provider) {
-        console.warn(`⚠️ Signer for chain ${chainId} has no provider - some operations may fail`);
+        config.logger?.warn('Signer has no provider - some operations may fail', { chainId });
       }
     });
-
-    console.log('✅ CCTP configuration is valid');
   }
 }
 
@@ -115,8 +147,6 @@ export class CCTPServiceManager {
     CCTPServiceFactory.validateConfig(config);
     
     this.currentService = CCTPServiceFactory.create(config);
-    
-    console.log(`🚀 CCTP Service initialized with Circle CCTP`);
   }
 
   /**
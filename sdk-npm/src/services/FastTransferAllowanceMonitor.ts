@@ -0,0 +1,215 @@
+import { BigNumber, ethers } from 'ethers';
+import {
+  AllowanceReservation,
+  FastTransferAllowance,
+  FastTransferAllowanceEvents
+} from '../types';
+import { ScopedLogger } from '../utils/logger';
+import { TypedEventEmitter } from '../utils/events';
+
+const DEFAULT_TTL_MS = 30000;
+const DEFAULT_REFRESH_INTERVAL_MS = 30000;
+const REQUEST_TIMEOUT_MS = 3000;
+const RESERVATION_TTL_MS = 120000; // Covers route selection through the burn
+
+/**
+ * Cached view of Circle's Fast Transfer allowance. Reads are served from the
+ * cache until it is older than the TTL, optionally refreshed in the
+ * background; when the API cannot be reached the fallback threshold is
+ * reported instead. Planned fast transfers reserve part of the allowance so
+ * concurrent plans do not all count on the same headroom.
+ */
+export class FastTransferAllowanceMonitor {
+  private current: FastTransferAllowance | null = null;
+  private inFlight: Promise<FastTransferAllowance> | null = null;
+  private reservations: Map<string, AllowanceReservation> = new Map();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextReservationId = 0;
+  private events: TypedEventEmitter<FastTransferAllowanceEvents>;
+  private logger: ScopedLogger;
+
+  constructor(
+    private baseApiUrl: string,
+    private fallbackAllowance: BigNumber,
+    private ttlMs: number = DEFAULT_TTL_MS,
+    logger: ScopedLogger = new ScopedLogger()
+  ) {
+    this.logger = logger.child({ module: 'FastTransferAllowanceMonitor' });
+    this.events = new TypedEventEmitter<FastTransferAllowanceEvents>(this.logger);
+  }
+
+  on<K extends keyof FastTransferAllowanceEvents>(event: K, listener: FastTransferAllowanceEvents[K]): void {
+    this.events.on(event, listener);
+  }
+
+  off<K extends keyof FastTransferAllowanceEvents>(event: K, listener: FastTransferAllowanceEvents[K]): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Cached allowance, refreshed first when older than the TTL
+   */
+  async get(): Promise<FastTransferAllowance> {
+    if (this.current && Date.now() - this.current.fetchedAt < this.ttlMs) {
+      return this.withReservations(this.current);
+    }
+    return this.refresh();
+  }
+
+  /**
+   * Last known allowance without a request, or null before the first read
+   */
+  peek(): FastTransferAllowance | null {
+    return this.current && this.withReservations(this.current);
+  }
+
+  /**
+   * Read the allowance from the API now. Concurrent calls share one request.
+   */
+  refresh(): Promise<FastTransferAllowance> {
+    if (!this.inFlight) {
+      this.inFlight = this.fetchAllowance().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Whether amount fits the allowance left after reservations. A transfer's
+   * own reservation counts as available to it.
+   */
+  async canTransfer(amount: BigNumber, reservationId?: string): Promise<boolean> {
+    const allowance = await this.get();
+    const own = reservationId ? this.reservations.get(reservationId)?.amount : undefined;
+    const available = own ? allowance.available.add(own) : allowance.available;
+
+    // The fallback is a threshold the amount must stay under
+    return allowance.source === 'live' ? amount.lte(available) : amount.lt(available);
+  }
+
+  /**
+   * Set aside amount for a planned fast transfer, or return null when the
+   * allowance left cannot cover it. Reservations lapse after ttlMs.
+   */
+  async reserve(amount: BigNumber, ttlMs: number = RESERVATION_TTL_MS): Promise<AllowanceReservation | null> {
+    if (!(await this.canTransfer(amount))) {
+      return null;
+    }
+
+    const reservation: AllowanceReservation = {
+      id: `fast-${Date.now()}-${++this.nextReservationId}`,
+      amount,
+      expiresAt: Date.now() + ttlMs,
+    };
+    this.reservations.set(reservation.id, reservation);
+    this.logger.debug('Reserved Fast Transfer allowance', {
+      reservationId: reservation.id,
+      amount: ethers.utils.formatUnits(amount, 6),
+    });
+    return reservation;
+  }
+
+  release(reservationId: string): void {
+    if (this.reservations.delete(reservationId)) {
+      this.logger.debug('Released Fast Transfer allowance', { reservationId });
+    }
+  }
+
+  /**
+   * Refresh in the background every intervalMs until stop()
+   */
+  start(intervalMs: number = DEFAULT_REFRESH_INTERVAL_MS): void {
+    this.stop();
+    const tick = () => {
+      this.refresh()
+        .catch(error => this.logger.warn('Background allowance refresh failed', { error }))
+        .finally(() => {
+          if (this.timer) {
+            this.timer = setTimeout(tick, intervalMs);
+          }
+        });
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async fetchAllowance(): Promise<FastTransferAllowance> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let next: FastTransferAllowance;
+
+    try {
+      const response = await fetch(`${this.baseApiUrl}/v2/fastBurn/USDC/allowance`, {
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Allowance API returned ${response.status}`);
+      }
+
+      const data = await response.json();
+      this.logger.debug('Fetched Fast Transfer allowance', { allowance: data.allowance });
+      next = {
+        allowance: this.toUSDCUnits(data.allowance),
+        available: BigNumber.from(0),
+        source: 'live',
+        fetchedAt: Date.now(),
+        lastUpdated: data.lastUpdated,
+      };
+    } catch (error) {
+      this.logger.warn('Failed to fetch Fast Transfer allowance, using threshold fallback', {
+        error: (error as any)?.name === 'AbortError' ? 'request timed out' : error,
+      });
+      next = {
+        allowance: this.fallbackAllowance,
+        available: BigNumber.from(0),
+        source: 'fallback',
+        fetchedAt: Date.now(),
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const previous = this.current;
+    this.current = next;
+    if (!previous || previous.source !== next.source || !previous.allowance.eq(next.allowance)) {
+      this.events.emit('change', this.withReservations(next), previous && this.withReservations(previous));
+    }
+    return this.withReservations(next);
+  }
+
+  /**
+   * Circle reports the allowance in USDC; very large values mean effectively unlimited
+   */
+  private toUSDCUnits(allowance: unknown): BigNumber {
+    const value = Number(allowance);
+    if (allowance === undefined || allowance === null || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Unexpected allowance value: ${allowance}`);
+    }
+    if (value > Number.MAX_SAFE_INTEGER / 1e6) {
+      return ethers.constants.MaxUint256;
+    }
+    return BigNumber.from(Math.floor(value * 1e6).toString());
+  }
+
+  private withReservations(allowance: FastTransferAllowance): FastTransferAllowance {
+    const now = Date.now();
+    let reserved = BigNumber.from(0);
+    for (const [id, reservation] of this.reservations) {
+      if (reservation.expiresAt <= now) {
+        this.reservations.delete(id);
+      } else {
+        reserved = reserved.add(reservation.amount);
+      }
+    }
+
+    const available = allowance.allowance.sub(reserved);
+    return { ...allowance, available: available.gt(0) ? available : BigNumber.from(0) };
+  }
+}
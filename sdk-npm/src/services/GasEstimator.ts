@@ -1,6 +1,8 @@
 import { ethers, BigNumber } from 'ethers';
 import { ChainId, GasEstimate, GasFlowTransaction } from '../types';
 import { getChainConfig } from '../config/chains';
+import { UnsupportedChainError, RpcUnavailableError, describeError } from '../errors';
+import { ScopedLogger } from '../utils/logger';
 
 interface GasPriceData {
   slow: BigNumber;
@@ -14,12 +16,15 @@ export class GasEstimator {
   private gasPriceCache: Map<ChainId, GasPriceData> = new Map();
   private readonly CACHE_DURATION = 10000; // 10 seconds
   private readonly USDC_USD_RATE = 1; // Assuming 1 USDC = 1 USD for now
+  private logger: ScopedLogger;
 
   constructor(
     private supportedChains: ChainId[],
     private useTestnet: boolean = true,
-    private coinGeckoApiKey?: string
+    private coinGeckoApiKey?: string,
+    logger: ScopedLogger = new ScopedLogger()
   ) {
+    this.logger = logger.child({ module: 'GasEstimator' });
     this.initializeProviders();
   }
 
@@ -54,7 +59,7 @@ export class GasEstimator {
 
     // Use real prices if CoinGecko API key is available, even in testnet mode
     if (this.useTestnet && !this.coinGeckoApiKey) {
-      console.log('🎭 [MOCK] Using testnet fallback prices (reason: no CoinGecko API key provided)');
+      this.logger.debug('Using testnet fallback token prices', { reason: 'no CoinGecko API key provided' });
       return { eth: 2000, avax: 30, matic: 0.8 };
     }
 
@@ -78,14 +83,14 @@ export class GasEstimator {
       const response = await fetch(url);
       
       if (!response.ok) {
-        throw new Error(`CoinGecko API returned ${response.status}: ${response.statusText}`);
+        throw new RpcUnavailableError(`CoinGecko API returned ${response.status}: ${response.statusText}`);
       }
       
       const data = await response.json();
       
       // Validate response structure
       if (!data.ethereum?.usd || !data['avalanche-2']?.usd || !data['matic-network']?.usd) {
-        throw new Error('Invalid response format from CoinGecko API');
+        throw new RpcUnavailableError('Invalid response format from CoinGecko API');
       }
       
       const prices = {
@@ -94,8 +99,10 @@ export class GasEstimator {
         matic: data['matic-network'].usd
       };
       
-      const apiType = this.coinGeckoApiKey ? 'Pro API' : 'Public API';
-      console.log(`✅ [REAL] All prices fetched from CoinGecko ${apiType}: ETH $${prices.eth}, AVAX $${prices.avax}, MATIC $${prices.matic}`);
+      this.logger.debug('Fetched token prices from CoinGecko', {
+        api: this.coinGeckoApiKey ? 'pro' : 'public',
+        ...prices,
+      });
       
       // Cache the prices
       const timestamp = Date.now();
@@ -105,8 +112,7 @@ export class GasEstimator {
       
       return prices;
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      console.warn(`⚠️ [FALLBACK] Using fallback prices (reason: ${errorMsg})`);
+      this.logger.warn('Using fallback token prices', { reason: describeError(error) });
       return { eth: 2000, avax: 30, matic: 0.8 };
     }
   }
@@ -158,7 +164,7 @@ export class GasEstimator {
     try {
       const provider = this.providers.get(chainId);
       if (!provider) {
-        throw new Error(`Provider not found for chain ${chainId}`);
+        throw new UnsupportedChainError(`Provider not found for chain ${chainId}`, { chainId });
       }
 
       const gasPrice = await provider.getGasPrice();
@@ -178,8 +184,7 @@ export class GasEstimator {
       this.gasPriceCache.set(chainId, gasPriceData);
       return gasPriceData;
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      console.warn(`⚠️ [FALLBACK] Using fallback gas price 20 gwei for chain ${chainId} (reason: ${errorMsg})`);
+      this.logger.warn('Using fallback gas price of 20 gwei', { chainId, reason: describeError(error) });
       
       // Fallback gas prices (in wei)
       const fallbackPrice = BigNumber.from('20000000000'); // 20 gwei
@@ -200,7 +205,7 @@ export class GasEstimator {
     try {
       const provider = this.providers.get(chainId);
       if (!provider) {
-        throw new Error(`Provider not found for chain ${chainId}`);
+        throw new UnsupportedChainError(`Provider not found for chain ${chainId}`, { chainId });
       }
 
       // Estimate gas limit
@@ -219,26 +224,14 @@ export class GasEstimator {
           });
           gasLimit = estimatedGas.mul(110).div(100); // Add 10% buffer
         } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-          console.warn(`⚠️ [FALLBACK] Using fallback gas limit 21000 (reason: ${errorMsg})`);
+          this.logger.warn('Using fallback gas limit of 21000', { chainId, reason: describeError(error) });
           gasLimit = BigNumber.from(21000); // Standard transfer
         }
       }
 
       // Get gas prices
       const gasPrices = await this.fetchGasPrices(chainId);
-      let gasPrice: BigNumber;
-      
-      switch (urgency) {
-        case 'low':
-          gasPrice = gasPrices.slow;
-          break;
-        case 'high':
-          gasPrice = gasPrices.fast;
-          break;
-        default:
-          gasPrice = gasPrices.standard;
-      }
+      const gasPrice = this.selectGasPrice(gasPrices, urgency);
 
       // Calculate gas cost in native token
       const gasCostETH = gasLimit.mul(gasPrice);
@@ -248,13 +241,13 @@ export class GasEstimator {
       const gasCostUSD = parseFloat(ethers.utils.formatEther(gasCostETH)) * tokenPrice;
       let gasCostUSDC = BigNumber.from(Math.ceil(gasCostUSD * 1e6)); // USDC has 6 decimals
       
-      console.log(`💰 Gas cost calculation for chain ${chainId}:`, {
+      this.logger.debug('Calculated gas cost', {
+        chainId,
         gasLimit: gasLimit.toString(),
-        gasPrice: ethers.utils.formatUnits(gasPrice, 'gwei') + ' gwei',
-        gasCostETH: ethers.utils.formatEther(gasCostETH),
-        tokenPrice: `$${tokenPrice}`,
-        gasCostUSD: `$${gasCostUSD.toFixed(6)}`,
-        gasCostUSDC: ethers.utils.formatUnits(gasCostUSDC, 6) + ' USDC'
+        gasPriceGwei: ethers.utils.formatUnits(gasPrice, 'gwei'),
+        gasCostNative: ethers.utils.formatEther(gasCostETH),
+        tokenPriceUSD: tokenPrice,
+        gasCostUSDC: ethers.utils.formatUnits(gasCostUSDC, 6),
       });
       
       // Enforce minimum transfer amount for CCTP compatibility
@@ -263,12 +256,14 @@ export class GasEstimator {
       const PRACTICAL_MIN_AMOUNT = BigNumber.from(100000); // 0.1 USDC (6 decimals) - Practical minimum for bridging
       
       if (gasCostUSDC.lt(MIN_BRIDGE_AMOUNT_USDC)) {
-        console.log(`⚠️ Gas cost ${ethers.utils.formatUnits(gasCostUSDC, 6)} USDC below Circle CCTP minimum, enforcing ${ethers.utils.formatUnits(PRACTICAL_MIN_AMOUNT, 6)} USDC`);
+        this.logger.debug('Gas cost below Circle CCTP minimum, enforcing practical minimum', {
+          chainId,
+          gasCostUSDC: ethers.utils.formatUnits(gasCostUSDC, 6),
+          minimumUSDC: ethers.utils.formatUnits(PRACTICAL_MIN_AMOUNT, 6),
+        });
         gasCostUSDC = PRACTICAL_MIN_AMOUNT; // Use practical minimum for better UX
-      } else if (gasCostUSDC.lt(PRACTICAL_MIN_AMOUNT)) {
-        console.log(`ℹ️ Gas cost ${ethers.utils.formatUnits(gasCostUSDC, 6)} USDC is small but above Circle minimum`);
-        // Don't enforce practical minimum if above Circle minimum - let user choose
       }
+      // Don't enforce practical minimum if above Circle minimum - let user choose
 
       // Estimate transaction time based on urgency
       let estimatedTime: number;
@@ -292,8 +287,7 @@ export class GasEstimator {
         estimatedTime,
       };
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      console.warn(`⚠️ [FALLBACK] Using complete fallback gas estimate for chain ${chainId} (reason: ${errorMsg})`);
+      this.logger.warn('Using fallback gas estimate', { chainId, reason: describeError(error) });
       
       // Return fallback estimate
       return {
@@ -307,6 +301,36 @@ export class GasEstimator {
     }
   }
 
+  /**
+   * Convert a gas amount to its USDC cost on a chain at current gas prices
+   */
+  async estimateGasCostUSDC(
+    gasLimit: BigNumber,
+    chainId: ChainId,
+    urgency: 'low' | 'medium' | 'high' = 'medium'
+  ): Promise<BigNumber> {
+    const gasPrices = await this.fetchGasPrices(chainId);
+    const gasCostNative = gasLimit.mul(this.selectGasPrice(gasPrices, urgency));
+    const tokenPrice = await this.getTokenPrice(chainId);
+    const gasCostUSD = parseFloat(ethers.utils.formatEther(gasCostNative)) * tokenPrice;
+
+    return BigNumber.from(Math.ceil(gasCostUSD * 1e6)); // USDC has 6 decimals
+  }
+
+  private selectGasPrice(
+    gasPrices: GasPriceData,
+    urgency: 'low' | 'medium' | 'high'
+  ): BigNumber {
+    switch (urgency) {
+      case 'low':
+        return gasPrices.slow;
+      case 'high':
+        return gasPrices.fast;
+      default:
+        return gasPrices.standard;
+    }
+  }
+
   async estimateMultiChain(
     transaction: GasFlowTransaction,
     chains: ChainId[],
@@ -2,6 +2,7 @@ import { BigNumber } from 'ethers';
 import { ChainId, PaymasterUserOperation, GasFlowTransaction } from '../types';
 import { getChainConfig } from '../config/chains';
 import { AlchemyBundlerClient } from './AlchemyBundlerClient';
+import { ScopedLogger } from '../utils/logger';
 
 export interface PaymasterQuote {
   paymasterAndData: string;
@@ -17,16 +18,20 @@ export interface PaymasterQuote {
 export class PaymasterService {
   private readonly PAYMASTER_FEE_PERCENTAGE = 10; // 10% markup (after July 2025)
   private bundlerClient?: AlchemyBundlerClient;
+  private logger: ScopedLogger;
   
   constructor(
     private apiKey: string,
     private useTestnet: boolean = true,
-    private alchemyApiKey?: string
+    private alchemyApiKey?: string,
+    logger: ScopedLogger = new ScopedLogger()
   ) {
+    this.logger = logger.child({ module: 'PaymasterService' });
     if (this.alchemyApiKey) {
       this.bundlerClient = new AlchemyBundlerClient({
         apiKey: this.alchemyApiKey,
-        useTestnet: this.useTestnet
+        useTestnet: this.useTestnet,
+        logger
       });
     }
   }
@@ -44,7 +49,7 @@ export class PaymasterService {
 
     try {
       // Mock implementation - in real version this would call Circle's Paymaster API
-      console.log(`🎭 [MOCK] Getting Paymaster quote for chain ${chainId}`);
+      this.logger.debug('Getting mock Paymaster quote', { chainId });
 
       // Estimate gas parameters
       const callGasLimit = transaction.gasLimit || BigNumber.from(21000);
@@ -82,7 +87,7 @@ export class PaymasterService {
         validUntil: Date.now() + 300000, // Valid for 5 minutes
       };
     } catch (error) {
-      console.error(`Failed to get Paymaster quote for chain ${chainId}:`, error);
+      this.logger.error('Failed to get Paymaster quote', { chainId, error });
       throw new Error(`Paymaster quote failed: ${error}`);
     }
   }
@@ -147,22 +152,19 @@ export class PaymasterService {
   ): Promise<string> {
     if (!this.bundlerClient) {
       // Fallback to mock for development/testing when no Alchemy key provided
-      console.warn('🎭 [MOCK] No Alchemy API key configured - using mock implementation');
-      console.log(`🎭 [MOCK] Submitting UserOperation to chain ${chainId}`);
-      console.log('UserOperation:', userOp);
+      this.logger.warn('No Alchemy API key configured - using mock UserOperation submission', { chainId });
       await new Promise(resolve => setTimeout(resolve, 1000));
       return '0x' + Math.random().toString(16).substr(2, 64);
     }
 
-    console.log(`[PAYMASTER] Submitting UserOperation to Alchemy bundler for chain ${chainId}`);
-    console.log('UserOperation:', JSON.stringify(userOp, null, 2));
+    this.logger.debug('Submitting UserOperation to Alchemy bundler', { chainId, sender: userOp.sender });
 
     try {
       const userOpHash = await this.bundlerClient.sendUserOperation(userOp, chainId);
-      console.log(`[PAYMASTER] UserOperation submitted successfully: ${userOpHash}`);
+      this.logger.info('UserOperation submitted', { chainId, userOpHash });
       return userOpHash;
     } catch (error) {
-      console.error('[PAYMASTER] Failed to submit UserOperation to Alchemy bundler:', error);
+      this.logger.error('Failed to submit UserOperation to Alchemy bundler', { chainId, error });
       throw new Error(`UserOperation submission failed: ${error}`);
     }
   }
@@ -172,8 +174,6 @@ export class PaymasterService {
     chainId: ChainId
   ): Promise<'pending' | 'included' | 'failed'> {
     // Mock implementation
-    console.log(`🎭 [MOCK] Checking operation status: ${operationHash}`);
-    
     // Simulate random status
     const statuses = ['pending', 'included'] as const;
     return statuses[Math.floor(Math.random() * statuses.length)];
@@ -213,7 +213,7 @@ export class PaymasterService {
       const data = await response.json();
       return data.ethereum.usd;
     } catch (error) {
-      console.warn('Failed to fetch ETH price, using fallback:', error);
+      this.logger.warn('Failed to fetch ETH price, using fallback', { error });
       return 2000;
     }
   }
@@ -1,16 +1,98 @@
 import { BigNumber, ethers, Signer, ContractReceipt } from 'ethers';
-import { ChainId, CCTPTransferParams, CCTPTransferResult, CCTPTransferMode } from '../types';
+import {
+  ChainId,
+  CCTPTransferParams,
+  CCTPTransferResult,
+  CCTPTransferMode,
+  BridgeAndCallParams,
+  BridgeAndCallResult,
+  BridgeSettlement,
+  BridgeStatus,
+  BridgeAttestation,
+  BridgeQuote,
+  BridgeQuoteTier,
+  QuotedTransferParams,
+  BridgeSimulation,
+  BridgeProgress,
+  BridgeProgressListener,
+  BridgeWaitOptions,
+  SimulationStep,
+  StorageAdapter
+} from '../types';
 import { getChainConfig } from '../config/chains';
 import {
   getCCTPAddresses,
   getCCTPDomain,
+  getIrisApiUrl,
+  isNonEvmChain,
+  isNonEvmDomain,
+  FINALITY_THRESHOLDS,
   TokenMessengerV2__factory,
   MessageTransmitterV2__factory,
-  USDC__factory
+  USDC__factory,
+  CCTPHookHandler__factory,
+  CCTPPermitRouter__factory
 } from '../contracts';
+import {
+  GasFlowError,
+  SignerMissingError,
+  InvalidParamsError,
+  UnsupportedChainError,
+  InsufficientBalanceError,
+  AllowanceError,
+  BurnRevertedError,
+  AttestationInvalidError,
+  AttestationExpiredError,
+  AttestationTimeoutError,
+  QuoteExpiredError,
+  MintRevertedError,
+  CancelledError,
+  describeError
+} from '../errors';
+import { ScopedLogger } from '../utils/logger';
+import { abortable, sleep, throwIfAborted } from '../utils/abort';
+import { IdempotencyStore } from '../utils/idempotency';
+import { canSignTypedData, signUSDCPermit, SignedPermit } from '../utils/permit';
+import { decodeBurnMessage, decodeCCTPMessage, matchesEmittedMessage } from '../utils/cctpMessage';
+import { encodeMintRecipient } from '../utils/recipient';
+import { MemoryStorageAdapter } from '../storage';
+import { FastTransferAllowanceMonitor } from './FastTransferAllowanceMonitor';
+import { BridgeTracker } from './BridgeTracker';
 import { createPublicClient, createWalletClient, http, encodeFunctionData, type Hex } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
-import { arbitrumSepolia, sepolia, baseSepolia, avalancheFuji, polygonAmoy, optimismSepolia } from 'viem/chains';
+import {
+  arbitrumSepolia,
+  sepolia,
+  baseSepolia,
+  avalancheFuji,
+  polygonAmoy,
+  optimismSepolia,
+  mainnet,
+  arbitrum,
+  base,
+  avalanche,
+  polygon,
+  optimism
+} from 'viem/chains';
+
+// MessageReceived lookup window for mints made outside this SDK instance
+const MINT_LOOKUP_BLOCKS = 10000;
+const MINT_LOOKUP_CHUNKS = 20;
+
+// How long a bridge quote can be executed as quoted
+const QUOTE_VALIDITY_MS = 30000;
+
+// Polling for a re-signed Fast Transfer message after POST /v2/reattest
+const REATTESTATION_POLL_MS = 2000;
+const REATTESTATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+// hookData read by CCTPHookHandler: abi.encode(target, callData, fallbackRecipient)
+const HOOK_CALL_TYPES = ['address', 'bytes', 'address'];
+
+// Bridge state recorded under an idempotency key
+type KeyedBridge =
+  | { state: 'burn_sent'; transactionHash: string; bridgeFee: BigNumber; fastTransfer: boolean }
+  | { state: 'completed'; result: CCTPTransferResult };
 
 /**
  * Production CCTP Service using real Circle contracts
@@ -18,7 +100,14 @@ import { arbitrumSepolia, sepolia, baseSepolia, avalancheFuji, polygonAmoy, opti
  */
 export class ProductionCCTPService {
   private signers: Map<ChainId, Signer> = new Map();
+  private permitRouters: Map<ChainId, string> = new Map();
   private baseApiUrl: string;
+  private logger: ScopedLogger;
+  private bridgeKeys: IdempotencyStore;
+  private mints: IdempotencyStore;
+  private settlements: IdempotencyStore;
+  readonly tracker: BridgeTracker;
+  readonly allowanceMonitor: FastTransferAllowanceMonitor;
 
   // Interface compatibility properties
   public readonly BRIDGE_FEE_USDC = BigNumber.from(100000); // $0.10 USDC (6 decimals)
@@ -27,12 +116,26 @@ export class ProductionCCTPService {
 
   constructor(
     apiKey: string = '',
-    public useTestnet: boolean = true
+    public useTestnet: boolean = true,
+    idempotencyStorage: StorageAdapter = new MemoryStorageAdapter(),
+    tracker?: BridgeTracker,
+    logger: ScopedLogger = new ScopedLogger(),
+    irisApiUrl?: string
   ) {
     this.apiKey = apiKey;
-    this.baseApiUrl = this.useTestnet
-      ? 'https://iris-api-sandbox.circle.com'
-      : 'https://iris-api.circle.com';
+    this.logger = logger.child({ module: 'ProductionCCTPService' });
+    this.bridgeKeys = new IdempotencyStore(idempotencyStorage, 'idempotency:bridge:');
+    // Mints are keyed by burn transaction hash
+    this.mints = new IdempotencyStore(idempotencyStorage, 'idempotency:mint:');
+    this.settlements = new IdempotencyStore(idempotencyStorage, 'settlement:');
+    this.baseApiUrl = irisApiUrl || getIrisApiUrl(this.useTestnet);
+    this.tracker = tracker || new BridgeTracker(useTestnet, idempotencyStorage, logger, this.baseApiUrl);
+    this.allowanceMonitor = new FastTransferAllowanceMonitor(
+      this.baseApiUrl,
+      this.FAST_TRANSFER_THRESHOLD,
+      undefined,
+      logger
+    );
   }
 
   /**
@@ -42,69 +145,53 @@ export class ProductionCCTPService {
     this.signers.set(chainId, signer);
   }
 
+  /**
+   * Set the CCTPPermitRouter used to burn with a USDC permit on a chain
+   */
+  setPermitRouter(chainId: ChainId, router: string): void {
+    if (!ethers.utils.isAddress(router)) {
+      throw new InvalidParamsError(`Invalid permit router address for chain ${chainId}`, { chainId });
+    }
+    this.permitRouters.set(chainId, router);
+  }
+
+  /**
+   * Address of the signer that burns on a chain (throws if not available)
+   */
+  async getSignerAddress(chainId: ChainId): Promise<string> {
+    return this.getSigner(chainId).getAddress();
+  }
+
   /**
    * Get signer for a chain (throws if not available)
    */
   private getSigner(chainId: ChainId): Signer {
     const signer = this.signers.get(chainId);
     if (!signer) {
-      throw new Error(`No signer available for chain ${chainId}. Call setSigner() first.`);
+      throw new SignerMissingError(`No signer available for chain ${chainId}. Call setSigner() first.`, { chainId });
     }
     return signer;
   }
 
 
+  /**
+   * Whether amount fits the Fast Transfer allowance left after other planned
+   * transfers' reservations. Pass the transfer's own reservation to count it.
+   */
   async canUseFastTransfer(
     amount: BigNumber,
     fromChain: ChainId,
-    toChain: ChainId
+    toChain: ChainId,
+    reservationId?: string
   ): Promise<boolean> {
     try {
-      // Check Fast Transfer allowance via Circle API with timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
-
-      const response = await fetch(
-        `${this.baseApiUrl}/v2/fastBurn/USDC/allowance`,
-        {
-          signal: controller.signal
-        }
-      );
-
-      clearTimeout(timeoutId);
-
-      if (response.ok) {
-        const allowanceData = await response.json();
-        console.log(`Fast Transfer allowance API response:`, allowanceData);
-        if (allowanceData.allowance !== undefined) {
-          // Convert allowance to USDC units (6 decimals) safely
-          try {
-            // Handle large numbers by converting to string first
-            const allowanceNumber = Number(allowanceData.allowance);
-            if (allowanceNumber > Number.MAX_SAFE_INTEGER / 1e6) {
-              // If allowance is too large, assume it's effectively unlimited
-              return true;
-            }
-            const remainingAllowance = BigNumber.from(Math.floor(allowanceNumber * 1e6).toString());
-            return amount.lte(remainingAllowance);
-          } catch (conversionError) {
-            console.warn(`Failed to convert allowance for ${fromChain}→${toChain}, using fallback:`, conversionError);
-            // Fallback to threshold check
-            return amount.lt(this.FAST_TRANSFER_THRESHOLD);
-          }
-        }
-      }
-
-      // Fallback: Fast transfer available for amounts under threshold
-      return amount.lt(this.FAST_TRANSFER_THRESHOLD);
-
+      return await this.allowanceMonitor.canTransfer(amount, reservationId);
     } catch (error) {
-      const err = error as any;
-      if (err?.name === 'AbortError') {
-        console.warn(`Fast transfer API timeout for ${fromChain}→${toChain}, using threshold fallback`);
-      } else {
-        console.warn(`Failed to check Fast Transfer allowance for ${fromChain}→${toChain}:`, err?.message || error);
-      }
+      this.logger.warn('Failed to check Fast Transfer allowance, using threshold fallback', {
+        fromChain,
+        toChain,
+        error,
+      });
       return amount.lt(this.FAST_TRANSFER_THRESHOLD);
     }
   }
@@ -116,11 +203,12 @@ export class ProductionCCTPService {
     amount: BigNumber,
     fromChain: ChainId,
     toChain: ChainId,
-    preferredMode?: CCTPTransferMode
+    preferredMode?: CCTPTransferMode,
+    reservationId?: string
   ): Promise<{ mode: 'fast' | 'standard'; canUseFast: boolean; reason: string }> {
     try {
-      const canUseFast = await this.canUseFastTransfer(amount, fromChain, toChain);
-      console.log(`Fast transfer eligibility for ${fromChain}→${toChain}: ${canUseFast}`);
+      const canUseFast = await this.canUseFastTransfer(amount, fromChain, toChain, reservationId);
+      this.logger.debug('Checked Fast Transfer eligibility', { fromChain, toChain, canUseFast });
 
       if (preferredMode === 'fast') {
         return {
@@ -154,7 +242,7 @@ export class ProductionCCTPService {
       };
 
     } catch (error) {
-      console.warn(`Transfer mode determination failed for ${fromChain}→${toChain}:`, error);
+      this.logger.warn('Transfer mode determination failed, defaulting to standard', { fromChain, toChain, error });
       return {
         mode: 'standard',
         canUseFast: false,
@@ -174,8 +262,9 @@ export class ProductionCCTPService {
       let shouldUseFast = useFastTransfer;
       if (shouldUseFast === undefined) {
         // Add timeout protection for the fast transfer check
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
         const timeoutPromise = new Promise<boolean>((_, reject) => {
-          setTimeout(() => reject(new Error("Fast transfer check timeout")), 3000);
+          timeoutId = setTimeout(() => reject(new Error("Fast transfer check timeout")), 3000);
         });
 
         try {
@@ -183,16 +272,16 @@ export class ProductionCCTPService {
             this.canUseFastTransfer(amount, fromChain, toChain),
             timeoutPromise
           ]);
-          console.log(`✅ Fast transfer check for ${fromChain}→${toChain}: ${shouldUseFast}`);
         } catch (error) {
           // If fast transfer check fails/times out, assume standard transfer
-          console.warn(`⚠️ Fast transfer check failed for ${fromChain}→${toChain}, using standard timing:`, error);
+          this.logger.warn('Fast Transfer check failed, using standard timing', { fromChain, toChain, error });
           shouldUseFast = false;
+        } finally {
+          clearTimeout(timeoutId);
         }
       }
 
       if (shouldUseFast) {
-        console.log(`🚀 Fast transfer estimated time for ${fromChain}→${toChain}: 30 seconds`);
         return 30; // Fast transfer: ~30 seconds
       }
 
@@ -216,26 +305,138 @@ export class ProductionCCTPService {
       const executionTime = 30;   // Destination execution
       const totalTime = fromFinality + attestationTime + executionTime;
 
-      console.log(`🕒 Standard transfer estimated time for ${fromChain}→${toChain}: ${Math.floor(totalTime/60)} minutes`);
       return totalTime;
 
     } catch (error) {
       // If any error occurs, return a safe default
-      console.warn(`⚠️ Transfer time estimation failed for ${fromChain}→${toChain}, using default:`, error);
+      this.logger.warn('Transfer time estimation failed, using default', { fromChain, toChain, error });
       return 600; // 10 minutes default
     }
   }
 
-  async initiateBridge(params: CCTPTransferParams): Promise<CCTPTransferResult> {
+  /**
+   * Burn USDC on the source chain. With an idempotencyKey, a retry returns the
+   * running or recorded burn - or waits for a burn that was sent but not yet
+   * recorded - instead of burning again.
+   */
+  async initiateBridge(params: CCTPTransferParams | QuotedTransferParams): Promise<CCTPTransferResult> {
+    try {
+      return await this.initiateKeyedBridge(this.applyQuote(params));
+    } finally {
+      // Once burned (or abandoned) the transfer no longer needs allowance held for it
+      if (params.allowanceReservationId) {
+        this.allowanceMonitor.release(params.allowanceReservationId);
+      }
+    }
+  }
+
+  private async initiateKeyedBridge(params: CCTPTransferParams): Promise<CCTPTransferResult> {
+    const key = params.idempotencyKey;
+    if (!key) {
+      return this.submitBridge(params);
+    }
+
+    return this.bridgeKeys.dedupe(key, async () => {
+      const existing = await this.bridgeKeys.get<KeyedBridge>(key);
+      if (existing?.state === 'completed') {
+        this.logger.info('Returning recorded bridge for idempotency key', {
+          fromChain: params.fromChain,
+          transactionHash: existing.result.transactionHash,
+        });
+        return existing.result;
+      }
+
+      const result = existing?.state === 'burn_sent'
+        ? await this.recoverBurn(params, existing)
+        : await this.submitBridge(params);
+
+      await this.bridgeKeys.set(key, {
+        state: 'completed',
+        result: {
+          ...result,
+          // The receipt is not needed to complete the transfer
+          transferObject: result.transferObject && {
+            messageHash: result.transferObject.messageHash,
+            message: result.transferObject.message,
+          },
+        },
+      } as KeyedBridge);
+      return result;
+    });
+  }
+
+  /**
+   * Pick up a burn that was broadcast by an earlier attempt with the same key
+   */
+  private async recoverBurn(
+    params: CCTPTransferParams,
+    burn: Extract<KeyedBridge, { state: 'burn_sent' }>
+  ): Promise<CCTPTransferResult> {
+    const { fromChain, toChain, amount } = params;
+    this.logger.info('Waiting for burn sent by an earlier attempt', {
+      fromChain,
+      transactionHash: burn.transactionHash,
+    });
+
+    const provider = this.signers.get(fromChain)?.provider || this.getReadOnlyProvider(fromChain);
+    const receipt = await provider.waitForTransaction(burn.transactionHash, 2);
+    if (receipt.status === 0) {
+      throw new BurnRevertedError(`depositForBurn ${burn.transactionHash} reverted`, {
+        chainId: fromChain,
+        transactionHash: burn.transactionHash,
+      });
+    }
+
+    const { messageHash, message } = this.extractMessageAndHashFromReceipt(
+      receipt as ContractReceipt,
+      burn.transactionHash
+    );
+    return {
+      transactionHash: burn.transactionHash,
+      attestationHash: messageHash,
+      estimatedArrivalTime: await this.estimateTransferTime(amount, fromChain, toChain, burn.fastTransfer),
+      bridgeFee: burn.bridgeFee,
+      transferObject: { messageHash, message, receipt },
+    };
+  }
+
+  /**
+   * Record a broadcast burn under the idempotency key before waiting for it,
+   * so a retry after a crash waits for this burn rather than sending another
+   */
+  private async rememberBurn(
+    params: CCTPTransferParams,
+    transactionHash: string,
+    bridgeFee: BigNumber,
+    fastTransfer: boolean
+  ): Promise<void> {
+    if (!params.idempotencyKey) {
+      return;
+    }
+    try {
+      await this.bridgeKeys.set(params.idempotencyKey, {
+        state: 'burn_sent',
+        transactionHash,
+        bridgeFee,
+        fastTransfer,
+      } as KeyedBridge);
+    } catch (error) {
+      this.logger.warn('Failed to record burn for idempotency key', { transactionHash, error });
+    }
+  }
+
+  private async submitBridge(params: CCTPTransferParams): Promise<CCTPTransferResult> {
     const {
       amount,
       fromChain,
       toChain,
       recipient,
-      transferMode,
-      useFastTransfer // Backward compatibility
+      onProgress,
+      signal
     } = params;
 
+    throwIfAborted(signal);
+
     // Validate parameters
     this.validateTransferParams(params);
 
@@ -250,56 +451,52 @@ export class ProductionCCTPService {
     try {
       // Import validation function locally to avoid circular import
       const { validateCCTPAddresses } = await import('../contracts/addresses');
-      if (!validateCCTPAddresses(fromChain, this.useTestnet)) {
+      if (!validateCCTPAddresses(fromChain, this.useTestnet, this.logger)) {
         throw new Error(`CCTP address validation failed for source chain ${fromChain}`);
       }
-      if (!validateCCTPAddresses(toChain, this.useTestnet)) {
+      if (!isNonEvmChain(toChain) && !validateCCTPAddresses(toChain, this.useTestnet, this.logger)) {
         throw new Error(`CCTP address validation failed for destination chain ${toChain}`);
       }
     } catch (validationError) {
-      console.warn('CCTP address validation error:', validationError);
+      this.logger.warn('CCTP address validation error', { fromChain, toChain, error: validationError });
     }
 
-    // Determine the actual transfer mode to use
-    const preferredMode = transferMode || (useFastTransfer ? 'fast' : 'auto');
-    const transferModeResult = await this.determineTransferMode(amount, fromChain, toChain, preferredMode);
-    const finalUseFastTransfer = transferModeResult.mode === 'fast';
+    // Determine the actual transfer mode and V2 burn parameters to use
+    const burnParams = await this.resolveBurnParameters(params);
+    const { bridgeFee, maxFee, minFinalityThreshold, destinationCaller } = burnParams;
+    const finalUseFastTransfer = burnParams.transferMode === 'fast';
 
-    console.log(`Initiating CCTP bridge:`, {
+    this.logger.info('Initiating CCTP bridge', {
       amount: amount.toString(),
       fromChain,
       toChain,
       recipient,
-      requestedMode: preferredMode,
-      finalTransferMode: transferModeResult.mode,
-      reason: transferModeResult.reason,
+      requestedMode: burnParams.requestedMode,
+      finalTransferMode: burnParams.transferMode,
+      reason: burnParams.reason,
       destinationDomain
     });
 
     try {
       // Initialize contracts
-      const tokenMessenger = TokenMessengerV2__factory.connect(
-        addresses.tokenMessenger,
-        signer
-      );
-
       const usdc = USDC__factory.connect(addresses.usdc, signer);
       const signerAddress = await signer.getAddress();
 
       // 1. Check USDC balance
       const usdcBalance = await usdc.balanceOf(signerAddress);
-      console.log(`💰 USDC balance check:`, {
-        userAddress: signerAddress,
-        balance: ethers.utils.formatUnits(usdcBalance, 6) + ' USDC',
-        required: ethers.utils.formatUnits(amount, 6) + ' USDC',
-        sufficient: usdcBalance.gte(amount)
+      this.logger.debug('Checked USDC balance', {
+        chainId: fromChain,
+        address: signerAddress,
+        balance: ethers.utils.formatUnits(usdcBalance, 6),
+        required: ethers.utils.formatUnits(amount, 6),
       });
 
       if (usdcBalance.lt(amount)) {
-        throw new Error(
+        throw new InsufficientBalanceError(
           `Insufficient USDC balance. Required: ${ethers.utils.formatUnits(amount, 6)} USDC, ` +
           `Available: ${ethers.utils.formatUnits(usdcBalance, 6)} USDC. ` +
-          `Please ensure you have sufficient USDC on ${getChainConfig(fromChain, this.useTestnet).name}.`
+          `Please ensure you have sufficient USDC on ${getChainConfig(fromChain, this.useTestnet).name}.`,
+          { chainId: fromChain }
         );
       }
 
@@ -309,182 +506,164 @@ export class ProductionCCTPService {
         addresses.tokenMessenger
       );
 
-      console.log(`🔐 USDC allowance check:`, {
-        currentAllowance: ethers.utils.formatUnits(currentAllowance, 6) + ' USDC',
-        required: ethers.utils.formatUnits(amount, 6) + ' USDC',
-        needsApproval: currentAllowance.lt(amount)
+      this.logger.debug('Checked USDC allowance', {
+        chainId: fromChain,
+        allowance: ethers.utils.formatUnits(currentAllowance, 6),
+        required: ethers.utils.formatUnits(amount, 6),
       });
 
-      if (currentAllowance.lt(amount)) {
-        console.log('Approving USDC spending...');
-        const approveTx = await usdc.approve(
-          addresses.tokenMessenger,
-          amount,
-          { gasLimit: BigNumber.from(100000) } // Reasonable gas limit for approval
-        );
+      // A permit signed for the permit router replaces the approval transaction
+      const permit = currentAllowance.lt(amount)
+        ? await this.signBurnPermit(params, signer, addresses.usdc)
+        : null;
 
-        // Wait for approval with additional confirmations to ensure it's mined
-        const approvalReceipt = await approveTx.wait(2); // Wait for 2 confirmations
-        console.log('USDC approval completed:', approveTx.hash, 'Block:', approvalReceipt.blockNumber);
+      if (currentAllowance.lt(amount) && !permit) {
+        throwIfAborted(signal);
+        this.logger.info('Approving USDC spending', { chainId: fromChain, spender: addresses.tokenMessenger });
+        let approveTx: ethers.ContractTransaction;
+        try {
+          approveTx = await usdc.approve(
+            addresses.tokenMessenger,
+            amount,
+            { gasLimit: BigNumber.from(100000) } // Reasonable gas limit for approval
+          );
+          this.reportProgress(onProgress, { step: 'approval_sent', chainId: fromChain, transactionHash: approveTx.hash });
+
+          // Wait for approval with additional confirmations to ensure it's mined
+          const approvalReceipt = await approveTx.wait(2); // Wait for 2 confirmations
+          this.logger.info('USDC approval confirmed', {
+            chainId: fromChain,
+            transactionHash: approveTx.hash,
+            blockNumber: approvalReceipt.blockNumber,
+          });
+          this.reportProgress(onProgress, { step: 'approval_confirmed', chainId: fromChain, transactionHash: approveTx.hash });
+        } catch (approveError) {
+          throw GasFlowError.from(approveError, 'ALLOWANCE_FAILED', { chainId: fromChain });
+        }
 
         // Add small delay to ensure approval is propagated
         await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second delay
 
         // Verify approval was successful
         const newAllowance = await usdc.allowance(signerAddress, addresses.tokenMessenger);
-        console.log('Verified new allowance:', ethers.utils.formatUnits(newAllowance, 6), 'USDC');
 
         if (newAllowance.lt(amount)) {
-          throw new Error(`Approval failed: expected ${ethers.utils.formatUnits(amount, 6)} USDC, got ${ethers.utils.formatUnits(newAllowance, 6)} USDC`);
+          throw new AllowanceError(
+            `Approval failed: expected ${ethers.utils.formatUnits(amount, 6)} USDC, got ${ethers.utils.formatUnits(newAllowance, 6)} USDC`,
+            { chainId: fromChain, transactionHash: approveTx.hash }
+          );
         }
       }
 
       // 3. Initiate cross-chain burn
-      console.log('Initiating depositForBurn...');
-      console.log('depositForBurn parameters:', {
-        amount: amount.toString(),
-        destinationDomain,
-        mintRecipient: this.addressToBytes32(recipient),
-        burnToken: addresses.usdc,
-        tokenMessengerAddress: addresses.tokenMessenger
-      });
-
       // Pre-flight validation checks to identify revert causes
-      console.log('🔍 Running pre-flight validation checks...');
 
       try {
         // Double-check USDC balance and allowance right before the call
         const currentBalance = await usdc.balanceOf(signerAddress);
         const currentAllowance = await usdc.allowance(signerAddress, addresses.tokenMessenger);
 
-        console.log('Final validation:', {
-          balance: ethers.utils.formatUnits(currentBalance, 6),
-          allowance: ethers.utils.formatUnits(currentAllowance, 6),
-          required: ethers.utils.formatUnits(amount, 6),
-          balanceSufficient: currentBalance.gte(amount),
-          allowanceSufficient: currentAllowance.gte(amount)
-        });
-
         if (currentBalance.lt(amount)) {
-          throw new Error(`Insufficient balance: ${ethers.utils.formatUnits(currentBalance, 6)} < ${ethers.utils.formatUnits(amount, 6)}`);
+          throw new InsufficientBalanceError(
+            `Insufficient balance: ${ethers.utils.formatUnits(currentBalance, 6)} < ${ethers.utils.formatUnits(amount, 6)}`,
+            { chainId: fromChain }
+          );
         }
 
-        if (currentAllowance.lt(amount)) {
-          throw new Error(`Insufficient allowance: ${ethers.utils.formatUnits(currentAllowance, 6)} < ${ethers.utils.formatUnits(amount, 6)}`);
+        if (!permit && currentAllowance.lt(amount)) {
+          throw new AllowanceError(
+            `Insufficient allowance: ${ethers.utils.formatUnits(currentAllowance, 6)} < ${ethers.utils.formatUnits(amount, 6)}`,
+            { chainId: fromChain }
+          );
         }
 
-        console.log('✅ Pre-flight validation passed');
-
       } catch (validationError) {
-        console.error('❌ Pre-flight validation failed:', validationError);
-        throw new Error(`Pre-flight validation failed: ${validationError instanceof Error ? validationError.message : validationError}`);
+        this.logger.error('Pre-flight validation failed', { chainId: fromChain, error: validationError });
+        throw GasFlowError.from(validationError, 'BURN_REVERTED', { chainId: fromChain });
       }
 
+      // Last point at which cancelling sends nothing
+      throwIfAborted(signal);
+
       // Try to estimate gas first to get better error information
       let burnTx: any;
       let receipt: any;
 
-      // Prepare V2 parameters (shared between main try and fallback)
-      console.log('Estimating gas for depositForBurn...');
-      const bridgeFee = await this.estimateBridgeFee(amount, fromChain, toChain, finalUseFastTransfer);
-
-      // Calculate maxFee separately - this is for destination chain gas costs, not bridge service fees
-      const maxFee = await this.calculateDestinationGasFee(toChain, amount);
-
-      // Use Fast Transfer threshold if enabled and available
-      const minFinalityThreshold = finalUseFastTransfer ? 1000 : 2000;
-
-      // For V2, use depositForBurn with hookData parameter
-      const hookData = '0x0000000000000000000000000000000000000000000000000000000000000000'; // Empty hook data
+      const burnTo = permit ? permit.spender : addresses.tokenMessenger;
+      const burnData = permit
+        ? this.encodePermitBurnCall(burnParams, amount, recipient, permit)
+        : this.encodeBurnCall(burnParams, amount, recipient, addresses.usdc);
 
       try {
-
-        const estimatedGas = await tokenMessenger.estimateGas.depositForBurn(
-          amount,
-          destinationDomain,
-          this.addressToBytes32(recipient),
-          addresses.usdc,
-          hookData,
-          maxFee,
-          minFinalityThreshold
-        );
-        console.log('✅ Gas estimation successful:', estimatedGas.toString());
+        const estimatedGas = await signer.estimateGas({ to: burnTo, data: burnData });
 
         // Use estimated gas with 50% buffer
         const gasLimit = BigNumber.from(estimatedGas).mul(150).div(100);
-        console.log('Using gas limit:', gasLimit.toString());
-
-      // Validate Fast Transfer eligibility matches threshold
-      if (finalUseFastTransfer && minFinalityThreshold > 1000) {
-        console.warn('⚠️ Fast Transfer requested but using Standard threshold');
-      }
-      if (!finalUseFastTransfer && minFinalityThreshold <= 1000) {
-        console.warn('⚠️ Standard Transfer requested but using Fast threshold');
-      }
 
-      console.log('CCTP V2 Parameters:', {
-        hookData,
-        maxFee: maxFee.toString(),
-        minFinalityThreshold,
-        transferMode: transferModeResult.mode,
-        finalUseFastTransfer
-      });
+        // Validate Fast Transfer eligibility matches threshold
+        if (finalUseFastTransfer && minFinalityThreshold > 1000) {
+          this.logger.warn('Fast Transfer requested but using Standard threshold', { minFinalityThreshold });
+        }
+        if (!finalUseFastTransfer && minFinalityThreshold <= 1000) {
+          this.logger.warn('Standard Transfer requested but using Fast threshold', { minFinalityThreshold });
+        }
 
-        burnTx = await tokenMessenger.depositForBurn(
-          amount,
+        this.logger.debug('Submitting depositForBurn', {
+          chainId: fromChain,
           destinationDomain,
-          this.addressToBytes32(recipient),
-          addresses.usdc,
-          hookData,
-          maxFee,
+          destinationCaller,
+          maxFee: maxFee.toString(),
           minFinalityThreshold,
-          { gasLimit }
-        );
-
-        // Wait for transaction confirmation with additional confirmations for reliability
-        receipt = await burnTx.wait(2); // Increased confirmations
-        console.log('Burn transaction completed:', burnTx.hash);
+          withHook: burnParams.hookData !== '0x',
+          withPermit: !!permit,
+          gasLimit: gasLimit.toString(),
+        });
 
+        burnTx = await signer.sendTransaction({ to: burnTo, data: burnData, gasLimit });
       } catch (estimationError) {
-        console.error('Gas estimation failed:', estimationError);
-        console.log('Attempting with static gas limit...');
-
-        // Fallback to static gas limit with detailed error logging
+        // Nothing was broadcast yet, so a second attempt cannot burn twice
+        this.logger.warn('depositForBurn gas estimation failed, retrying with static gas limit', {
+          chainId: fromChain,
+          error: estimationError,
+        });
 
         try {
-          burnTx = await tokenMessenger.depositForBurn(
-            amount,
-            destinationDomain,
-            this.addressToBytes32(recipient),
-            addresses.usdc,
-            hookData,
-            maxFee,
-            minFinalityThreshold,
-            { gasLimit: BigNumber.from(350000) } // Higher static gas limit
-          );
-
-          receipt = await burnTx.wait(2);
-          console.log('Burn transaction completed with static gas:', burnTx.hash);
-
+          burnTx = await signer.sendTransaction({
+            to: burnTo,
+            data: burnData,
+            gasLimit: BigNumber.from(350000), // Higher static gas limit
+          });
         } catch (staticGasError) {
-          console.error('Static gas limit also failed:', staticGasError);
-
-          // Additional debugging information
-          console.error('Debug info:', {
-            tokenMessengerAddress: addresses.tokenMessenger,
-            usdcAddress: addresses.usdc,
+          this.logger.error('depositForBurn failed with static gas limit', {
+            chainId: fromChain,
+            tokenMessenger: addresses.tokenMessenger,
+            burnToken: addresses.usdc,
             amount: amount.toString(),
             destinationDomain,
-            recipientBytes32: this.addressToBytes32(recipient),
-            signerAddress
+            sender: signerAddress,
+            error: staticGasError,
           });
-
-          throw new Error(`depositForBurn failed: ${this.parseContractError(staticGasError)}`);
+          throw this.toBurnError(staticGasError, fromChain);
         }
       }
 
-      // Add debugging information
-      console.log(`Transaction receipt - blockNumber: ${receipt.blockNumber}, logs: ${receipt.logs.length}`);
+      await this.rememberBurn(params, burnTx.hash, bridgeFee, finalUseFastTransfer);
+      this.reportProgress(onProgress, { step: 'burn_sent', chainId: fromChain, transactionHash: burnTx.hash });
+
+      // The burn is broadcast: failures from here on must not send another one.
+      // A retry with the same idempotency key waits for this burn instead.
+      try {
+        receipt = await burnTx.wait(2); // Wait for 2 confirmations
+      } catch (waitError) {
+        this.logger.error('depositForBurn was sent but not confirmed', {
+          chainId: fromChain,
+          transactionHash: burnTx.hash,
+          error: waitError,
+        });
+        throw this.toBurnError(waitError, fromChain, burnTx.hash);
+      }
+      this.logger.info('Burn transaction confirmed', { chainId: fromChain, transactionHash: burnTx.hash });
+      this.reportProgress(onProgress, { step: 'burn_confirmed', chainId: fromChain, transactionHash: burnTx.hash });
 
       // 3. Extract message hash from events
       const { messageHash, message } = this.extractMessageAndHashFromReceipt(receipt, burnTx.hash);
@@ -504,18 +683,242 @@ export class ProductionCCTPService {
       };
 
     } catch (error) {
-      console.error('CCTP bridge initiation failed:', error);
-      throw new Error(`Bridge initiation failed: ${this.parseContractError(error)}`);
+      this.logger.error('CCTP bridge initiation failed', { fromChain, toChain, error });
+      throw GasFlowError.from(error, 'BURN_REVERTED', { chainId: fromChain });
+    }
+  }
+
+  /**
+   * Dry-run a bridge: validate parameters, look up fees, check balance and
+   * allowance and eth_call depositForBurn without broadcasting anything
+   */
+  async simulateBridge(
+    transfer: CCTPTransferParams | QuotedTransferParams,
+    senderAddress?: string
+  ): Promise<BridgeSimulation> {
+    const params = this.applyQuote(transfer);
+    const { amount, fromChain, toChain, recipient } = params;
+    const steps: SimulationStep[] = [];
+    const preflightErrors: string[] = [];
+
+    try {
+      this.validateTransferParams(params);
+      this.validateBridgeAmount(amount, fromChain, toChain);
+    } catch (error) {
+      preflightErrors.push(error instanceof Error ? error.message : String(error));
+      return { steps, preflightErrors };
+    }
+
+    const addresses = getCCTPAddresses(fromChain, this.useTestnet);
+    const burnParams = await this.resolveBurnParameters(params);
+
+    const signer: Signer | undefined = params.signer || this.signers.get(fromChain);
+    const provider = signer?.provider || this.getReadOnlyProvider(fromChain);
+    const from = senderAddress || (signer ? await signer.getAddress() : undefined);
+
+    if (!from) {
+      preflightErrors.push(`No signer or sender address available for chain ${fromChain}`);
+      return { steps, preflightErrors, ...this.summarizeBurnParameters(burnParams) };
+    }
+
+    const usdc = USDC__factory.connect(addresses.usdc, provider);
+
+    let allowance = BigNumber.from(0);
+    try {
+      const balance = await usdc.balanceOf(from);
+      allowance = await usdc.allowance(from, addresses.tokenMessenger);
+
+      if (balance.lt(amount)) {
+        preflightErrors.push(
+          `Insufficient USDC balance on chain ${fromChain}. Required: ${ethers.utils.formatUnits(amount, 6)} USDC, ` +
+          `Available: ${ethers.utils.formatUnits(balance, 6)} USDC`
+        );
+      }
+    } catch (error) {
+      preflightErrors.push(`Failed to read USDC balance/allowance on chain ${fromChain}: ${this.parseContractError(error)}`);
+    }
+
+    const needsApproval = allowance.lt(amount);
+
+    if (needsApproval) {
+      const approveData = usdc.interface.encodeFunctionData('approve', [addresses.tokenMessenger, amount]);
+      const approveStep: SimulationStep = {
+        type: 'approve',
+        chainId: fromChain,
+        to: addresses.usdc,
+        data: approveData,
+        description: `Approve TokenMessenger to spend ${ethers.utils.formatUnits(amount, 6)} USDC`,
+      };
+
+      try {
+        approveStep.estimatedGas = await provider.estimateGas({ from, to: addresses.usdc, data: approveData });
+      } catch (error) {
+        approveStep.estimatedGas = BigNumber.from(100000); // Same static limit used by initiateBridge
+        approveStep.error = `Gas estimation failed: ${this.parseContractError(error)}`;
+      }
+
+      steps.push(approveStep);
+    }
+
+    const burnData = this.encodeBurnCall(burnParams, amount, recipient, addresses.usdc);
+
+    const burnStep: SimulationStep = {
+      type: 'depositForBurn',
+      chainId: fromChain,
+      to: addresses.tokenMessenger,
+      data: burnData,
+      feeUSDC: burnParams.bridgeFee,
+      description: `Burn ${ethers.utils.formatUnits(amount, 6)} USDC for ${burnParams.transferMode} transfer to chain ${toChain}` +
+        (burnParams.hookData !== '0x' ? ' with hook data' : ''),
+    };
+
+    if (needsApproval) {
+      // The call would revert on allowance until the approval is mined
+      burnStep.estimatedGas = BigNumber.from(350000); // Same static limit used by initiateBridge
+      burnStep.error = 'eth_call skipped: depositForBurn requires the approval step first';
+    } else {
+      try {
+        await provider.call({ from, to: addresses.tokenMessenger, data: burnData });
+        burnStep.estimatedGas = await provider.estimateGas({ from, to: addresses.tokenMessenger, data: burnData });
+      } catch (error) {
+        const reason = this.parseContractError(error);
+        burnStep.estimatedGas = BigNumber.from(350000);
+        burnStep.error = `depositForBurn eth_call reverted: ${reason}`;
+        preflightErrors.push(`depositForBurn would revert: ${reason}`);
+      }
+    }
+
+    steps.push(burnStep);
+
+    // The mint calldata depends on Circle's attestation, so only the target is known.
+    // Non-EVM destinations are received outside the SDK.
+    if (!isNonEvmChain(toChain)) {
+      steps.push({
+        type: 'receiveMessage',
+        chainId: toChain,
+        to: getCCTPAddresses(toChain, this.useTestnet).messageTransmitter,
+        data: '0x',
+        estimatedGas: BigNumber.from(200000),
+        description: `Mint USDC on chain ${toChain} once Circle attests the burn (calldata available after attestation)`,
+      });
     }
+
+    return {
+      steps,
+      preflightErrors,
+      ...this.summarizeBurnParameters(burnParams),
+    };
   }
 
   async waitForCompletion(
     transactionHash: string,
     fromChain: ChainId,
     toChain: ChainId,
-    transferObject?: any
+    transferObject?: any,
+    options: BridgeWaitOptions = {}
+  ): Promise<string> {
+    return this.mintOnce(transactionHash, () =>
+      this.attestAndMint(transactionHash, fromChain, toChain, transferObject, options)
+    );
+  }
+
+  /**
+   * Finish a transfer whose burn succeeded but whose mint never happened.
+   * Fetches the attestation, checks MessageTransmitterV2.usedNonces and only
+   * submits receiveMessage when the message has not been received yet. The
+   * mint is signed by the given signer, else the one set for the destination.
+   */
+  async completeTransfer(
+    transactionHash: string,
+    fromChain: ChainId,
+    toChain: ChainId,
+    signer?: Signer,
+    signal?: AbortSignal
+  ): Promise<string> {
+    return this.mintOnce(transactionHash, () =>
+      this.attestAndMint(transactionHash, fromChain, toChain, undefined, { signal }, signer)
+    );
+  }
+
+  /**
+   * Bridge USDC and call a contract with it on the destination chain. The call
+   * is encoded into hookData and the handler is both mint recipient and
+   * destinationCaller, so once attested only handler.relay() can receive the
+   * message - which mints and makes the call in the same transaction.
+   */
+  async bridgeAndCall(params: BridgeAndCallParams, options: BridgeWaitOptions = {}): Promise<BridgeAndCallResult> {
+    const { handler, target, callData, fallbackRecipient, ...transfer } = params;
+
+    if (!ethers.utils.isAddress(handler)) {
+      throw new InvalidParamsError('Invalid hook handler address');
+    }
+    if (!ethers.utils.isAddress(target)) {
+      throw new InvalidParamsError('Invalid call target address');
+    }
+    if (!ethers.utils.isAddress(fallbackRecipient)) {
+      throw new InvalidParamsError('Invalid fallback recipient address');
+    }
+    if (!ethers.utils.isBytesLike(callData)) {
+      throw new InvalidParamsError('callData must be a 0x-prefixed hex string');
+    }
+
+    throwIfAborted(options.signal);
+    const bridge = await this.initiateBridge({
+      ...transfer,
+      recipient: handler,
+      destinationCaller: handler,
+      hookData: ethers.utils.defaultAbiCoder.encode(HOOK_CALL_TYPES, [target, callData, fallbackRecipient]),
+    });
+
+    const { fromChain, toChain } = params;
+    const mintTransactionHash = await this.mintOnce(bridge.transactionHash, () =>
+      this.attestAndMint(bridge.transactionHash, fromChain, toChain, bridge.transferObject, options, undefined, handler)
+    );
+
+    return {
+      bridge,
+      mintTransactionHash,
+      call: await this.getHookExecution(mintTransactionHash, toChain, handler),
+    };
+  }
+
+  /**
+   * A burn is minted once: concurrent and repeated calls share the mint
+   */
+  private mintOnce(transactionHash: string, mint: () => Promise<string>): Promise<string> {
+    return this.mints.dedupe(transactionHash, async () => {
+      const recorded = await this.mints.get<string>(transactionHash);
+      if (recorded) {
+        return recorded;
+      }
+
+      const mintHash = await mint();
+      await this.mints.set(transactionHash, mintHash);
+      return mintHash;
+    });
+  }
+
+  private async attestAndMint(
+    transactionHash: string,
+    fromChain: ChainId,
+    toChain: ChainId,
+    transferObject: any,
+    options: BridgeWaitOptions,
+    signer?: Signer,
+    handler?: string
   ): Promise<string> {
+    const { signal, onProgress } = options;
+
+    if (isNonEvmChain(toChain)) {
+      throw new UnsupportedChainError(
+        `Chain ${toChain} is not an EVM chain - receive the message there outside the SDK, ` +
+        'with the attestation from tracker.track()',
+        { chainId: toChain, transactionHash }
+      );
+    }
+
     try {
+      throwIfAborted(signal);
       let messageHash: string;
       let message: string;
 
@@ -528,51 +931,127 @@ export class ProductionCCTPService {
         message = result.message;
       }
 
-      console.log(`Waiting for attestation: ${messageHash}`);
+      this.logger.info('Waiting for attestation', { fromChain, toChain, transactionHash, messageHash });
 
       // 1. Wait for Circle attestation
-      const sourceDomain = getCCTPDomain(fromChain);
-      const attestation = await this.pollForAttestation(messageHash, message, sourceDomain, transactionHash);
+      this.reportProgress(onProgress, { step: 'attestation_pending', chainId: fromChain, transactionHash });
+      const tracked = await this.tracker.track(transactionHash, fromChain, toChain, {
+        transferObject: { messageHash, message },
+      });
+      let attestation = await tracked.wait(signal);
+      this.reportProgress(onProgress, { step: 'attestation_received', chainId: fromChain, transactionHash });
 
-      console.log('Attestation received, completing on destination chain...');
+      this.validateAttestation(attestation, message, toChain, transactionHash);
+
+      // Last point to stop before the mint is broadcast
+      throwIfAborted(signal);
+      this.logger.info('Attestation received, completing on destination chain', { toChain, messageHash });
 
       // 2. Complete transfer on destination chain
-      return await this.completeTransferOnDestination(
-        attestation,
-        toChain,
-        messageHash
-      );
+      const mint = () => this.mintIfNeeded(attestation, toChain, messageHash, onProgress, signer, handler);
+      let mintHash: string;
+      try {
+        mintHash = await mint();
+      } catch (error) {
+        if (!(await this.isExpired(error, attestation, toChain, signer))) {
+          throw error;
+        }
+        if (options.reattest === false) {
+          throw new AttestationExpiredError(`Fast Transfer message of ${transactionHash} expired before it was received`, {
+            chainId: toChain,
+            transactionHash,
+            cause: error,
+          });
+        }
+
+        // Fast messages expire if not received in time - have Circle sign it again and retry once
+        this.reportProgress(onProgress, { step: 'attestation_pending', chainId: fromChain, transactionHash });
+        attestation = await this.reattestAndWait(transactionHash, fromChain, attestation, signal);
+        this.reportProgress(onProgress, { step: 'attestation_received', chainId: fromChain, transactionHash });
+        this.validateAttestation(attestation, message, toChain, transactionHash);
+
+        throwIfAborted(signal);
+        mintHash = await mint();
+      }
+      await this.recordSettlement(transactionHash, attestation, toChain, mintHash);
+      await this.tracker.untrack(transactionHash);
+      return mintHash;
 
     } catch (error) {
-      console.error('Failed to complete CCTP transfer:', error);
-      throw error;
+      if (!(error instanceof CancelledError)) {
+        this.logger.error('Failed to complete CCTP transfer', { fromChain, toChain, transactionHash, error });
+      }
+      throw GasFlowError.from(error, 'MINT_REVERTED', { transactionHash });
+    }
+  }
+
+  /**
+   * Have Circle re-sign the expired Fast Transfer message of a burn and wait
+   * for the new attestation. fromChain is only needed for transfers that are
+   * not currently tracked. Complete the transfer afterwards with
+   * completeTransfer().
+   */
+  async reattest(transactionHash: string, fromChain?: ChainId, signal?: AbortSignal): Promise<BridgeAttestation> {
+    const tracked = this.tracker.get(transactionHash)?.transfer;
+    const sourceChain = fromChain ?? tracked?.fromChain;
+    if (sourceChain === undefined) {
+      throw new InvalidParamsError(`fromChain is required to re-attest ${transactionHash}, which is not tracked`, {
+        transactionHash,
+      });
+    }
+
+    const current = tracked?.attestation || await this.fetchAttestation(transactionHash, sourceChain);
+    if (!current) {
+      throw new GasFlowError('MESSAGE_NOT_FOUND', `No attested message found for ${transactionHash}`, {
+        chainId: sourceChain,
+        transactionHash,
+      });
     }
+    const renewed = await this.reattestAndWait(transactionHash, sourceChain, current, signal);
+    // Let the next completeTransfer() fetch the renewed attestation
+    await this.tracker.untrack(transactionHash);
+    return renewed;
+  }
+
+  /**
+   * Minted amount and fee actually charged for a transfer this service
+   * completed, or null until the mint is confirmed
+   */
+  async getBridgeSettlement(transactionHash: string): Promise<BridgeSettlement | null> {
+    return this.settlements.get<BridgeSettlement>(transactionHash.toLowerCase());
   }
 
   async getBridgeStatus(
     transactionHash: string,
     fromChain: ChainId,
     transferObject?: any
-  ): Promise<'pending' | 'attested' | 'completed' | 'failed'> {
+  ): Promise<BridgeStatus> {
     try {
-      const messageHash = transferObject?.messageHash ||
-        (await this.getMessageAndHashFromTransaction(transactionHash, fromChain)).messageHash;
+      const settlement = await this.getBridgeSettlement(transactionHash);
+      if (settlement) {
+        return { status: 'completed', settlement, destinationCompletion: 'sdk' };
+      }
+
+      const { message } = transferObject?.messageHash && transferObject?.message
+        ? transferObject
+        : await this.getMessageAndHashFromTransaction(transactionHash, fromChain);
+      const destinationCompletion = isNonEvmDomain(decodeCCTPMessage(message).destinationDomain) ? 'external' : 'sdk';
 
       // Check attestation status
       const sourceDomain = getCCTPDomain(fromChain);
-      const attestationStatus = await this.getAttestationStatus(messageHash, sourceDomain, transactionHash);
+      const attestationStatus = await this.getAttestationStatus(message, sourceDomain, transactionHash);
 
       if (attestationStatus === 'complete') {
-        return 'attested'; // Ready for destination completion
+        return { status: 'attested', destinationCompletion }; // Ready for destination completion
       } else if (attestationStatus === 'pending') {
-        return 'pending';
+        return { status: 'pending', destinationCompletion };
       }
 
-      return 'pending';
+      return { status: 'pending', destinationCompletion };
 
     } catch (error) {
-      console.error('Failed to get bridge status:', error);
-      return 'failed';
+      this.logger.warn('Failed to get bridge status', { fromChain, transactionHash, error });
+      return { status: 'failed' };
     }
   }
 
@@ -606,7 +1085,7 @@ export class ProductionCCTPService {
             totalCost: bridgeFee,
           };
         } catch (error) {
-          console.warn(`Failed to get route for chain ${fromChain}:`, error);
+          this.logger.warn('Failed to get CCTP route', { fromChain, toChain, error });
           return null;
         }
       })
@@ -634,31 +1113,73 @@ export class ProductionCCTPService {
     const { amount, fromChain, toChain, recipient } = params;
 
     if (amount.lte(0)) {
-      throw new Error('Transfer amount must be greater than 0');
+      throw new InvalidParamsError('Transfer amount must be greater than 0');
     }
 
-    if (!ethers.utils.isAddress(recipient)) {
-      throw new Error('Invalid recipient address');
-    }
+    // Throws for recipients the destination domain cannot take
+    encodeMintRecipient(recipient, getCCTPDomain(toChain));
 
     if (fromChain === toChain) {
-      throw new Error('Source and destination chains must be different');
+      throw new InvalidParamsError('Source and destination chains must be different');
     }
 
-    try {
-      getCCTPAddresses(fromChain, this.useTestnet);
-      getCCTPAddresses(toChain, this.useTestnet);
-    } catch (error) {
-      throw new Error(`CCTP not supported on specified chains: ${error}`);
+    if (params.maxFee !== undefined) {
+      if (params.maxFee.lt(0)) {
+        throw new InvalidParamsError('maxFee cannot be negative');
+      }
+      if (params.maxFee.gte(amount)) {
+        throw new InvalidParamsError(
+          `maxFee ${ethers.utils.formatUnits(params.maxFee, 6)} USDC must be less than the transfer amount`
+        );
+      }
     }
-  }
+
+    const { minFinalityThreshold } = params;
+    if (minFinalityThreshold !== undefined &&
+        (!Number.isInteger(minFinalityThreshold) ||
+          minFinalityThreshold < 1 ||
+          minFinalityThreshold > FINALITY_THRESHOLDS.standard)) {
+      throw new InvalidParamsError(
+        `minFinalityThreshold must be an integer from 1 to ${FINALITY_THRESHOLDS.standard} ` +
+        `(${FINALITY_THRESHOLDS.fast} or less for Fast Transfer)`
+      );
+    }
+
+    const { destinationCaller } = params;
+    if (destinationCaller !== undefined &&
+        !ethers.utils.isAddress(destinationCaller) &&
+        !(ethers.utils.isHexString(destinationCaller) && ethers.utils.hexDataLength(destinationCaller) === 32)) {
+      throw new InvalidParamsError('destinationCaller must be an address or a bytes32 value');
+    }
+
+    if (params.hookData !== undefined && !ethers.utils.isBytesLike(params.hookData)) {
+      throw new InvalidParamsError('hookData must be a 0x-prefixed hex string');
+    }
+
+    if (params.approval !== undefined && !['auto', 'permit', 'approve'].includes(params.approval)) {
+      throw new InvalidParamsError(`Invalid approval method: ${params.approval}`);
+    }
+
+    if (params.quote) {
+      this.validateQuote(params, params.quote);
+    }
+
+    try {
+      getCCTPAddresses(fromChain, this.useTestnet);
+      if (!isNonEvmChain(toChain)) {
+        getCCTPAddresses(toChain, this.useTestnet);
+      }
+    } catch (error) {
+      throw new UnsupportedChainError(`CCTP not supported on specified chains: ${error}`, { cause: error });
+    }
+  }
 
   private validateBridgeAmount(amount: BigNumber, fromChain: ChainId, toChain: ChainId): void {
     // Minimum transfer amount for Circle CCTP (0.01 USDC = 10,000 with 6 decimals)
     const MIN_CCTP_AMOUNT = BigNumber.from(10000);
 
     if (amount.lt(MIN_CCTP_AMOUNT)) {
-      throw new Error(
+      throw new InvalidParamsError(
         `Transfer amount ${ethers.utils.formatUnits(amount, 6)} USDC is below Circle CCTP minimum of 0.01 USDC. ` +
         `This is likely a gas estimation issue. Please check the gas cost calculation.`
       );
@@ -667,17 +1188,282 @@ export class ProductionCCTPService {
     // Maximum reasonable transfer amount check (safety measure)
     const MAX_REASONABLE_AMOUNT = BigNumber.from('1000000000000'); // 1M USDC
     if (amount.gt(MAX_REASONABLE_AMOUNT)) {
-      console.warn(
-        `⚠️ Large transfer amount detected: ${ethers.utils.formatUnits(amount, 6)} USDC. ` +
-        `Verify this is intended.`
+      this.logger.warn('Large transfer amount detected - verify this is intended', {
+        amount: ethers.utils.formatUnits(amount, 6),
+        fromChain,
+        toChain,
+      });
+    }
+  }
+
+  /**
+   * Transfer parameters for the chosen tier of a quote: quote.recommended
+   * unless transferMode picks one
+   */
+  private applyQuote(params: CCTPTransferParams | QuotedTransferParams): CCTPTransferParams {
+    if ((params as CCTPTransferParams).amount !== undefined || !params.quote) {
+      return params as CCTPTransferParams;
+    }
+
+    const { quote, transferMode, ...rest } = params as QuotedTransferParams;
+    const tier = quote[transferMode === 'fast' || transferMode === 'standard' ? transferMode : quote.recommended];
+    return {
+      ...rest,
+      amount: quote.amount,
+      fromChain: quote.fromChain,
+      toChain: quote.toChain,
+      transferMode: tier.transferMode,
+      maxFee: tier.maxFee,
+      minFinalityThreshold: tier.minFinalityThreshold,
+      quote,
+    };
+  }
+
+  /**
+   * A quoted transfer must be unexpired and burn exactly the quoted tier
+   */
+  private validateQuote(params: CCTPTransferParams, quote: BridgeQuote): void {
+    if (Date.now() > quote.validUntil) {
+      throw new QuoteExpiredError(
+        `Bridge quote expired at ${new Date(quote.validUntil).toISOString()} - request a new quote`
+      );
+    }
+    if (!params.amount.eq(quote.amount) || params.fromChain !== quote.fromChain || params.toChain !== quote.toChain) {
+      throw new InvalidParamsError('Transfer amount and chains must match the quote');
+    }
+
+    const tier = params.minFinalityThreshold !== undefined && params.minFinalityThreshold <= FINALITY_THRESHOLDS.fast
+      ? quote.fast
+      : quote.standard;
+    if (params.minFinalityThreshold !== tier.minFinalityThreshold || !params.maxFee?.eq(tier.maxFee)) {
+      throw new InvalidParamsError(`maxFee and minFinalityThreshold must match the quoted ${tier.transferMode} tier`);
+    }
+    if (!tier.available) {
+      throw new InvalidParamsError('The quoted fast tier exceeds the Fast Transfer allowance - use the standard tier');
+    }
+  }
+
+  /**
+   * Resolve the transfer mode and CCTP V2 depositForBurn parameters for a transfer
+   */
+  private async resolveBurnParameters(params: CCTPTransferParams): Promise<{
+    destinationDomain: number;
+    requestedMode: CCTPTransferMode;
+    transferMode: 'fast' | 'standard';
+    reason: string;
+    bridgeFee: BigNumber;
+    maxFee: BigNumber;
+    minFinalityThreshold: number;
+    destinationCaller: string;
+    hookData: string;
+  }> {
+    const { amount, fromChain, toChain, transferMode, useFastTransfer } = params;
+
+    const requestedMode = transferMode || (useFastTransfer ? 'fast' : 'auto');
+
+    // An explicit finality threshold decides the transfer mode
+    const thresholdMode: 'fast' | 'standard' | undefined = params.minFinalityThreshold === undefined
+      ? undefined
+      : params.minFinalityThreshold <= FINALITY_THRESHOLDS.fast ? 'fast' : 'standard';
+    if (thresholdMode && requestedMode !== 'auto' && requestedMode !== thresholdMode) {
+      throw new InvalidParamsError(
+        `minFinalityThreshold ${params.minFinalityThreshold} conflicts with transferMode '${requestedMode}'`
       );
     }
 
-    console.log(`✅ Bridge amount validation passed: ${ethers.utils.formatUnits(amount, 6)} USDC from chain ${fromChain} to ${toChain}`);
+    const transferModeResult = thresholdMode
+      ? { mode: thresholdMode, reason: `minFinalityThreshold ${params.minFinalityThreshold} requested` }
+      : await this.determineTransferMode(amount, fromChain, toChain, requestedMode, params.allowanceReservationId);
+    const finalUseFastTransfer = transferModeResult.mode === 'fast';
+
+    const bridgeFee = params.quote
+      ? params.quote[transferModeResult.mode].fee
+      : await this.estimateBridgeFee(amount, fromChain, toChain, finalUseFastTransfer);
+
+    // Calculate maxFee separately - this is for destination chain gas costs, not bridge service fees
+    const maxFee = params.maxFee ?? await this.calculateDestinationGasFee(toChain, amount);
+    if (finalUseFastTransfer && maxFee.lt(bridgeFee)) {
+      this.logger.warn('maxFee is below the Fast Transfer fee - Circle will attest at standard finality', {
+        maxFee: ethers.utils.formatUnits(maxFee, 6),
+        fastTransferFee: ethers.utils.formatUnits(bridgeFee, 6),
+      });
+    }
+
+    const minFinalityThreshold = params.minFinalityThreshold
+      ?? (finalUseFastTransfer ? FINALITY_THRESHOLDS.fast : FINALITY_THRESHOLDS.standard);
+
+    // Zero destinationCaller lets anyone call receiveMessage on the destination chain
+    const destinationCaller = params.destinationCaller
+      ? ethers.utils.hexZeroPad(params.destinationCaller, 32)
+      : ethers.constants.HashZero;
+
+    const hookData = params.hookData ? ethers.utils.hexlify(params.hookData) : '0x';
+
+    return {
+      destinationDomain: getCCTPDomain(toChain),
+      requestedMode,
+      transferMode: transferModeResult.mode,
+      reason: transferModeResult.reason,
+      bridgeFee,
+      maxFee,
+      minFinalityThreshold,
+      destinationCaller,
+      hookData,
+    };
+  }
+
+  /**
+   * Sign a USDC permit for the source chain's permit router, or return null
+   * to fall back to approve when permits are unavailable and not required
+   */
+  private async signBurnPermit(
+    params: CCTPTransferParams,
+    signer: Signer,
+    usdcAddress: string
+  ): Promise<SignedPermit | null> {
+    const { fromChain, amount } = params;
+    const method = params.approval || 'auto';
+    if (method === 'approve') {
+      return null;
+    }
+
+    const router = this.permitRouters.get(fromChain);
+    if (!router || !canSignTypedData(signer)) {
+      const unavailable = !router
+        ? `no permit router is configured for chain ${fromChain}`
+        : 'the signer cannot sign typed data';
+      if (method === 'permit') {
+        throw new InvalidParamsError(`Permit approval unavailable: ${unavailable}`, { chainId: fromChain });
+      }
+      this.logger.debug('Using approve for USDC allowance', { chainId: fromChain, reason: unavailable });
+      return null;
+    }
+
+    try {
+      const permit = await signUSDCPermit(signer, usdcAddress, router, amount, fromChain);
+      this.logger.info('Signed USDC permit', { chainId: fromChain, spender: router, deadline: permit.deadline.toString() });
+      return permit;
+    } catch (error) {
+      const permitError = GasFlowError.from(error, 'ALLOWANCE_FAILED', { chainId: fromChain });
+      if (method === 'permit' || permitError.code === 'USER_REJECTED') {
+        throw permitError;
+      }
+      // Some wallets reject eth_signTypedData_v4 outright
+      this.logger.warn('Permit signing failed, falling back to approve', { chainId: fromChain, error });
+      return null;
+    }
+  }
+
+  /**
+   * Calldata for the burn: depositForBurnWithHook when hook data is attached
+   */
+  private encodeBurnCall(
+    burnParams: {
+      destinationDomain: number;
+      maxFee: BigNumber;
+      minFinalityThreshold: number;
+      destinationCaller: string;
+      hookData: string;
+    },
+    amount: BigNumber,
+    recipient: string,
+    burnToken: string
+  ): string {
+    const tokenMessengerInterface = TokenMessengerV2__factory.createInterface();
+    const args: [BigNumber, number, string, string, string, BigNumber, number] = [
+      amount,
+      burnParams.destinationDomain,
+      encodeMintRecipient(recipient, burnParams.destinationDomain).bytes32,
+      burnToken,
+      burnParams.destinationCaller,
+      burnParams.maxFee,
+      burnParams.minFinalityThreshold,
+    ];
+
+    if (burnParams.hookData !== '0x') {
+      return tokenMessengerInterface.encodeFunctionData('depositForBurnWithHook', [...args, burnParams.hookData]);
+    }
+    return tokenMessengerInterface.encodeFunctionData('depositForBurn', args);
+  }
+
+  /**
+   * burnWithPermit calldata for the permit router: the same burn parameters
+   * as encodeBurnCall, typed, with the burn token fixed to USDC by the router
+   */
+  private encodePermitBurnCall(
+    burnParams: {
+      destinationDomain: number;
+      maxFee: BigNumber;
+      minFinalityThreshold: number;
+      destinationCaller: string;
+      hookData: string;
+    },
+    amount: BigNumber,
+    recipient: string,
+    permit: SignedPermit
+  ): string {
+    return CCTPPermitRouter__factory.createInterface().encodeFunctionData('burnWithPermit', [
+      {
+        amount,
+        destinationDomain: burnParams.destinationDomain,
+        mintRecipient: encodeMintRecipient(recipient, burnParams.destinationDomain).bytes32,
+        destinationCaller: burnParams.destinationCaller,
+        maxFee: burnParams.maxFee,
+        minFinalityThreshold: burnParams.minFinalityThreshold,
+        hookData: burnParams.hookData,
+      },
+      { deadline: permit.deadline, v: permit.v, r: permit.r, s: permit.s },
+    ]);
+  }
+
+  private summarizeBurnParameters(burnParams: {
+    transferMode: 'fast' | 'standard';
+    bridgeFee: BigNumber;
+    maxFee: BigNumber;
+    minFinalityThreshold: number;
+  }): Pick<BridgeSimulation, 'transferMode' | 'bridgeFee' | 'maxFee' | 'minFinalityThreshold'> {
+    return {
+      transferMode: burnParams.transferMode,
+      bridgeFee: burnParams.bridgeFee,
+      maxFee: burnParams.maxFee,
+      minFinalityThreshold: burnParams.minFinalityThreshold,
+    };
+  }
+
+  private toBurnError(error: unknown, chainId: ChainId, transactionHash?: string): GasFlowError {
+    const burnError = GasFlowError.from(error, 'BURN_REVERTED', { chainId, transactionHash });
+    if (burnError.code !== 'BURN_REVERTED') {
+      return burnError;
+    }
+    return new BurnRevertedError(`depositForBurn failed: ${this.parseContractError(error)}`, {
+      chainId,
+      transactionHash,
+      cause: error,
+    });
+  }
+
+  /**
+   * Notify a progress listener without letting listener errors break the transfer
+   */
+  private reportProgress(onProgress: BridgeProgressListener | undefined, progress: BridgeProgress): void {
+    if (!onProgress) {
+      return;
+    }
+    try {
+      onProgress(progress);
+    } catch (error) {
+      this.logger.warn('Bridge progress listener threw', { step: progress.step, error });
+    }
   }
 
-  private addressToBytes32(address: string): string {
-    return ethers.utils.hexZeroPad(address, 32);
+  /**
+   * Provider for read-only calls when no signer is configured for a chain
+   */
+  private getReadOnlyProvider(chainId: ChainId): ethers.providers.Provider {
+    const config = getChainConfig(chainId, this.useTestnet);
+    return new ethers.providers.JsonRpcProvider(
+      this.useTestnet ? config.testnetRpcUrl : config.rpcUrl
+    );
   }
 
   private extractMessageAndHashFromReceipt(receipt: ContractReceipt, transactionHash: string): { messageHash: string; message: string } {
@@ -691,7 +1477,7 @@ export class ProductionCCTPService {
         const message = messageSentEvent.args.message;
         // Calculate proper message hash using keccak256 of the message
         const messageHash = ethers.utils.keccak256(message);
-        console.log('✅ MessageSent event found, calculated message hash:', messageHash);
+        this.logger.debug('Found MessageSent event', { transactionHash, messageHash });
         return { messageHash, message };
       }
 
@@ -707,11 +1493,11 @@ export class ProductionCCTPService {
               const message = parsedLog.args.message;
               // Calculate proper message hash using keccak256 of the message
               const messageHash = ethers.utils.keccak256(message);
-              console.log('✅ MessageSent event found via log parsing, calculated message hash:', messageHash);
+              this.logger.debug('Found MessageSent event via log parsing', { transactionHash, messageHash });
               return { messageHash, message };
             }
           } catch (parseError) {
-            console.warn('Failed to parse log:', parseError);
+            this.logger.debug('Failed to parse MessageSent log', { transactionHash, error: parseError });
             continue;
           }
         }
@@ -720,8 +1506,12 @@ export class ProductionCCTPService {
       throw new Error('No usable events found for message hash extraction');
 
     } catch (error) {
-      console.error('Error extracting message hash:', error);
-      throw new Error(`MessageSent event not found in transaction receipt. This may indicate a contract interaction issue. Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.logger.error('Failed to extract message hash', { transactionHash, error });
+      throw new GasFlowError(
+        'MESSAGE_NOT_FOUND',
+        `MessageSent event not found in transaction receipt. This may indicate a contract interaction issue. Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        { transactionHash, cause: error }
+      );
     }
   }
 
@@ -729,117 +1519,348 @@ export class ProductionCCTPService {
     txHash: string,
     chainId: ChainId
   ): Promise<{ messageHash: string; message: string }> {
-    const signer = this.getSigner(chainId);
-    const receipt = await signer.provider?.getTransactionReceipt(txHash);
+    const provider = this.signers.get(chainId)?.provider || this.getReadOnlyProvider(chainId);
+    const receipt = await provider.getTransactionReceipt(txHash);
 
     if (!receipt) {
-      throw new Error('Transaction receipt not found');
+      throw new GasFlowError('TRANSACTION_NOT_FOUND', 'Transaction receipt not found', {
+        chainId,
+        transactionHash: txHash,
+      });
     }
 
-    // Add debugging for transaction receipt
-    console.log('Transaction receipt logs:', receipt.logs.length);
-
     return this.extractMessageAndHashFromReceipt(receipt, txHash);
   }
 
 
-  private async pollForAttestation(
-    messageHash: string,
-    extractedMessage: string,
-    sourceDomain: number,
-    transactionHash: string,
-    timeoutMs: number = 1200000 // 20 minutes - covers Standard Transfer attestation time
-  ): Promise<{ message: string; signature: string }> {
-    const startTime = Date.now();
+  /**
+   * Iris status of the entry for the emitted message - a transaction can send several
+   */
+  private async getAttestationStatus(message: string, sourceDomain: number, transactionHash: string): Promise<string> {
+    try {
+      const response = await fetch(
+        `${this.baseApiUrl}/v2/messages/${sourceDomain}?transactionHash=${transactionHash}`
+      );
 
-    console.log(`Polling for attestation using transaction hash: ${transactionHash}`);
-    console.log(`Expected message hash: ${messageHash}`);
+      if (response.ok) {
+        const data = await response.json();
+        const messages: any[] = data.messages || [];
+        const entry = messages.length > 1
+          ? messages.find(candidate => typeof candidate.message === 'string' &&
+            matchesEmittedMessage(candidate.message.startsWith('0x') ? candidate.message : `0x${candidate.message}`, message))
+          : messages[0];
+        return entry?.status || 'pending';
+      }
 
-    while (Date.now() - startTime < timeoutMs) {
-      try {
-        // Use the exact same endpoint as the working sample project
-        const response = await fetch(
-          `${this.baseApiUrl}/v2/messages/${sourceDomain}?transactionHash=${transactionHash}`
-        );
+      return 'pending';
+    } catch (error) {
+      this.logger.warn('Failed to get attestation status', { transactionHash, error });
+      return 'pending';
+    }
+  }
 
-        if (response.ok) {
-          const data = await response.json();
-          
-          console.log('Messages API response:', {
-            totalMessages: data.messages?.length || 0,
-            messageFound: !!data.messages?.[0],
-            messageStatus: data.messages?.[0]?.status,
-            hasAttestation: !!data.messages?.[0]?.attestation
-          });
+  /**
+   * Reconcile the fee of a minted transfer: feeExecuted from the attested
+   * message, minted amount from the MintAndWithdraw event of the mint.
+   * Failures are logged - the transfer itself has completed.
+   */
+  private async recordSettlement(
+    transactionHash: string,
+    attestation: { message: string; signature: string },
+    toChain: ChainId,
+    mintTransactionHash: string
+  ): Promise<void> {
+    try {
+      const burn = decodeBurnMessage(decodeCCTPMessage(attestation.message).messageBody);
+      const provider = this.signers.get(toChain)?.provider || this.getReadOnlyProvider(toChain);
+      const receipt = await provider.getTransactionReceipt(mintTransactionHash);
+
+      const { tokenMessenger } = getCCTPAddresses(toChain, this.useTestnet);
+      const tokenMessengerInterface = TokenMessengerV2__factory.createInterface();
+      const topic = tokenMessengerInterface.getEventTopic('MintAndWithdraw');
+      const mintLog = receipt?.logs.find(
+        log => log.address.toLowerCase() === tokenMessenger.toLowerCase() && log.topics[0] === topic
+      );
 
-          // Use the exact same logic as the sample project
-          if (data.messages?.[0]?.status === 'complete') {
-            console.log('Attestation received');
-            
-            const attestationData = data.messages[0];
-            
-            // Validate the attestation data format
-            if (!attestationData.attestation) {
-              throw new Error('Invalid attestation response: missing attestation');
-            }
+      const minted = mintLog && tokenMessengerInterface.parseLog(mintLog).args;
+      const feeExecuted = minted ? BigNumber.from(minted.feeCollected) : burn.feeExecuted;
+      const mintedAmount = minted ? BigNumber.from(minted.amount) : burn.amount.sub(feeExecuted);
+      if (!minted) {
+        this.logger.warn('MintAndWithdraw event not found, settlement derived from the attested message', {
+          toChain,
+          mintTransactionHash,
+        });
+      }
 
-            // Use the message from the API response (not extracted message)
-            // This ensures we use the exact message that was attested
-            const messageFormatted = attestationData.message.startsWith('0x') ? attestationData.message : `0x${attestationData.message}`;
-            const signature = attestationData.attestation.startsWith('0x') ? attestationData.attestation : `0x${attestationData.attestation}`;
+      const settlement: BridgeSettlement = {
+        amount: burn.amount,
+        mintedAmount,
+        feeExecuted,
+        maxFee: burn.maxFee,
+        unusedMaxFee: burn.maxFee.sub(feeExecuted),
+        mintTransactionHash,
+      };
+      await this.settlements.set(transactionHash.toLowerCase(), settlement);
 
-            console.log('Formatted attestation data:', {
-              messageHex: messageFormatted.slice(0, 66) + '...',
-              signatureHex: signature.slice(0, 66) + '...',
-              messageValid: ethers.utils.isHexString(messageFormatted),
-              signatureValid: ethers.utils.isHexString(signature)
-            });
+      this.logger.info('Bridge settled', {
+        transactionHash,
+        mintedAmount: ethers.utils.formatUnits(mintedAmount, 6),
+        feeExecuted: ethers.utils.formatUnits(feeExecuted, 6),
+        maxFee: ethers.utils.formatUnits(burn.maxFee, 6),
+      });
+    } catch (error) {
+      this.logger.warn('Failed to reconcile bridge fee', { transactionHash, mintTransactionHash, error });
+    }
+  }
 
-            return { message: messageFormatted, signature };
-          }
-          console.log(`Attestation status: ${data.messages?.[0]?.status || 'unknown'}`);
-        } else if (response.status === 404) {
-          console.log('Attestation not yet available...');
-        } else {
-          console.warn(`Attestation API error: ${response.status}`);
-        }
+  /**
+   * Check the attested message is the burn that was sent, bound for toChain,
+   * before anything is submitted on the destination chain. Circle only fills
+   * in the nonce, executed finality, fee and expiration.
+   */
+  private validateAttestation(
+    attestation: { message: string; signature: string },
+    emittedMessage: string,
+    toChain: ChainId,
+    transactionHash: string
+  ): void {
+    const fail = (reason: string) => {
+      throw new AttestationInvalidError(`Attestation for ${transactionHash} is invalid: ${reason}`, {
+        chainId: toChain,
+        transactionHash,
+      });
+    };
 
-      } catch (error) {
-        console.warn('Attestation polling attempt failed:', error);
+    let attested;
+    let emitted;
+    try {
+      attested = decodeCCTPMessage(attestation.message);
+      emitted = decodeCCTPMessage(emittedMessage);
+    } catch (error) {
+      return fail(describeError(error));
+    }
+
+    const signatureLength = ethers.utils.isHexString(attestation.signature)
+      ? ethers.utils.hexDataLength(attestation.signature)
+      : -1;
+    if (signatureLength <= 0 || signatureLength % 65 !== 0) {
+      fail('signature is not a list of 65-byte signatures');
+    }
+    if (attested.destinationDomain !== getCCTPDomain(toChain)) {
+      fail(`message is for domain ${attested.destinationDomain}, not chain ${toChain}`);
+    }
+    if (attested.nonce === ethers.constants.HashZero) {
+      fail('message has no nonce');
+    }
+
+    const headerFields = [
+      'version',
+      'sourceDomain',
+      'destinationDomain',
+      'sender',
+      'recipient',
+      'destinationCaller',
+      'minFinalityThreshold',
+    ] as const;
+    for (const field of headerFields) {
+      if (attested[field] !== emitted[field]) {
+        fail(`${field} differs from the burn message`);
       }
+    }
 
-      // Wait 5 seconds before next poll (matching sample project)
-      await new Promise(resolve => setTimeout(resolve, 5000));
+    let attestedBurn;
+    let emittedBurn;
+    try {
+      attestedBurn = decodeBurnMessage(attested.messageBody);
+      emittedBurn = decodeBurnMessage(emitted.messageBody);
+    } catch (error) {
+      return fail(describeError(error));
     }
 
-    throw new Error('Attestation timeout - Circle may still be processing the message');
+    const burnFields = ['version', 'burnToken', 'mintRecipient', 'amount', 'messageSender', 'maxFee', 'hookData'] as const;
+    for (const field of burnFields) {
+      if (String(attestedBurn[field]) !== String(emittedBurn[field])) {
+        fail(`${field} differs from the burn message`);
+      }
+    }
+    if (attestedBurn.feeExecuted.gt(attestedBurn.maxFee)) {
+      fail('feeExecuted exceeds maxFee');
+    }
   }
 
-  private async getAttestationStatus(messageHash: string, sourceDomain: number, transactionHash: string): Promise<string> {
+  /**
+   * Whether a failed mint failed because its Fast Transfer message expired:
+   * by revert reason, else by the attested expirationBlock
+   */
+  private async isExpired(
+    error: unknown,
+    attestation: BridgeAttestation,
+    toChain: ChainId,
+    signer?: Signer
+  ): Promise<boolean> {
+    const cause = error instanceof GasFlowError ? error.cause : undefined;
+    if (/expired/i.test(describeError(error)) || (cause !== undefined && /expired/i.test(describeError(cause)))) {
+      return true;
+    }
+
     try {
-      const response = await fetch(
-        `${this.baseApiUrl}/v2/messages/${sourceDomain}?transactionHash=${transactionHash}`
-      );
+      const { expirationBlock } = decodeBurnMessage(decodeCCTPMessage(attestation.message).messageBody);
+      if (expirationBlock.isZero()) {
+        return false;
+      }
+      const provider = signer?.provider || this.signers.get(toChain)?.provider || this.getReadOnlyProvider(toChain);
+      // receiveMessage requires expirationBlock > block.number
+      return expirationBlock.lte(await provider.getBlockNumber());
+    } catch (checkError) {
+      this.logger.warn('Failed to check message expiration', { toChain, error: checkError });
+      return false;
+    }
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        // Use the same logic as sample project - check first message in array
-        return data.messages?.[0]?.status || 'pending';
+  /**
+   * Request re-attestation of the message in an expired attestation and poll
+   * Iris until it is signed again
+   */
+  private async reattestAndWait(
+    transactionHash: string,
+    fromChain: ChainId,
+    expired: BridgeAttestation,
+    signal?: AbortSignal
+  ): Promise<BridgeAttestation> {
+    const { nonce } = decodeCCTPMessage(expired.message);
+    this.logger.info('Requesting re-attestation of expired message', { fromChain, transactionHash, nonce });
+
+    const response = await abortable(fetch(`${this.baseApiUrl}/v2/reattest/${nonce}`, { method: 'POST' }), signal);
+    if (!response.ok) {
+      throw new AttestationExpiredError(`Re-attestation request for ${transactionHash} failed with status ${response.status}`, {
+        chainId: fromChain,
+        transactionHash,
+        retryable: response.status === 429 || response.status >= 500,
+      });
+    }
+
+    const deadline = Date.now() + REATTESTATION_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await sleep(REATTESTATION_POLL_MS, signal);
+      try {
+        const renewed = await this.fetchAttestation(transactionHash, fromChain, nonce);
+        if (renewed && renewed.signature !== expired.signature) {
+          this.logger.info('Message re-attested', { fromChain, transactionHash, nonce });
+          return renewed;
+        }
+      } catch (error) {
+        this.logger.warn('Re-attestation polling attempt failed', { transactionHash, error });
       }
+    }
 
-      return 'pending';
-    } catch (error) {
-      console.warn('Failed to get attestation status:', error);
-      return 'pending';
+    throw new AttestationTimeoutError('Re-attestation timeout - Circle may still be signing the message', {
+      chainId: fromChain,
+      transactionHash,
+    });
+  }
+
+  /**
+   * Attested message of a burn (by nonce, else the first) from Iris, or null while pending
+   */
+  private async fetchAttestation(
+    transactionHash: string,
+    fromChain: ChainId,
+    nonce?: string
+  ): Promise<BridgeAttestation | null> {
+    const response = await fetch(
+      `${this.baseApiUrl}/v2/messages/${getCCTPDomain(fromChain)}?transactionHash=${transactionHash}`
+    );
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Attestation API returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    const messages: any[] = data.messages || [];
+    const entry = nonce
+      ? messages.find(candidate => String(candidate.eventNonce).toLowerCase() === nonce.toLowerCase())
+      : messages[0];
+    if (entry?.status !== 'complete' || !entry.attestation || entry.attestation === 'PENDING') {
+      return null;
     }
+
+    return {
+      message: entry.message.startsWith('0x') ? entry.message : `0x${entry.message}`,
+      signature: entry.attestation.startsWith('0x') ? entry.attestation : `0x${entry.attestation}`,
+    };
+  }
+
+  /**
+   * Submit receiveMessage - through the hook handler when one is given - unless
+   * the message was already received on the destination chain, returning the
+   * mint transaction hash either way
+   */
+  private async mintIfNeeded(
+    attestation: { message: string; signature: string },
+    toChain: ChainId,
+    messageHash?: string,
+    onProgress?: BridgeProgressListener,
+    signer?: Signer,
+    handler?: string
+  ): Promise<string> {
+    const addresses = getCCTPAddresses(toChain, this.useTestnet);
+    const provider = signer?.provider || this.signers.get(toChain)?.provider || this.getReadOnlyProvider(toChain);
+    const messageTransmitter = MessageTransmitterV2__factory.connect(addresses.messageTransmitter, provider);
+
+    // Nonce assigned by Circle in the attested message
+    const { nonce } = decodeCCTPMessage(attestation.message);
+    const used = await messageTransmitter.usedNonces(nonce);
+    if (used.isZero()) {
+      return handler
+        ? this.relayThroughHandler(attestation, toChain, handler, messageHash, onProgress, signer)
+        : this.completeTransferOnDestination(attestation, toChain, messageHash, onProgress, signer);
+    }
+
+    this.logger.info('Message already received on destination chain', { toChain, messageHash, nonce });
+    return this.findMintTransaction(messageTransmitter, toChain, nonce);
+  }
+
+  /**
+   * Search recent MessageReceived events for the transaction that received a nonce
+   */
+  private async findMintTransaction(
+    messageTransmitter: ReturnType<typeof MessageTransmitterV2__factory.connect>,
+    toChain: ChainId,
+    nonce: string
+  ): Promise<string> {
+    const filter = messageTransmitter.filters.MessageReceived(null, null, nonce);
+    const latestBlock = await messageTransmitter.provider.getBlockNumber();
+
+    for (let chunk = 0; chunk < MINT_LOOKUP_CHUNKS; chunk++) {
+      const toBlock = latestBlock - chunk * MINT_LOOKUP_BLOCKS;
+      if (toBlock < 0) {
+        break;
+      }
+      const fromBlock = Math.max(0, toBlock - MINT_LOOKUP_BLOCKS + 1);
+      const events = await messageTransmitter.queryFilter(filter, fromBlock, toBlock);
+      if (events.length > 0) {
+        return events[events.length - 1].transactionHash;
+      }
+    }
+
+    throw new GasFlowError(
+      'TRANSACTION_NOT_FOUND',
+      `Message was already received on chain ${toChain}, but its mint transaction is older than ` +
+      `the last ${MINT_LOOKUP_CHUNKS * MINT_LOOKUP_BLOCKS} blocks`,
+      { chainId: toChain }
+    );
   }
 
   private async completeTransferOnDestination(
     attestation: { message: string; signature: string },
     toChain: ChainId,
-    originalMessageHash?: string
+    originalMessageHash?: string,
+    onProgress?: BridgeProgressListener,
+    signerOverride?: Signer
   ): Promise<string> {
-    const signer = this.getSigner(toChain);
+    const signer = signerOverride || this.getSigner(toChain);
     const addresses = getCCTPAddresses(toChain, this.useTestnet);
 
     // Use manual contract connection to match working sample project approach
@@ -862,32 +1883,31 @@ export class ProductionCCTPService {
       signer
     );
 
-    console.log('Submitting attestation to destination chain...');
+    this.logger.debug('Submitting attestation to destination chain', {
+      toChain,
+      messageHash: originalMessageHash,
+      messageTransmitter: addresses.messageTransmitter,
+    });
 
     try {
       // Use raw hex strings directly (no conversion) to match working sample
-      console.log('Using raw hex attestation data directly from Circle API');
-      
       // Validate hex format
       if (!ethers.utils.isHexString(attestation.message)) {
-        throw new Error(`Invalid message format: ${attestation.message}`);
+        throw new InvalidParamsError(`Invalid message format: ${attestation.message}`, { chainId: toChain });
       }
       if (!ethers.utils.isHexString(attestation.signature)) {
-        throw new Error(`Invalid signature format: ${attestation.signature}`);
+        throw new InvalidParamsError(`Invalid signature format: ${attestation.signature}`, { chainId: toChain });
       }
 
       // Use the exact same approach as working manual script
       try {
-        console.log('Estimating gas for receiveMessage...');
         const estimatedGas = await messageTransmitter.estimateGas.receiveMessage(
           attestation.message,    // Raw hex string (no conversion)
           attestation.signature   // Raw hex string (no conversion)
         );
-        console.log(`✅ Gas estimation successful: ${estimatedGas.toString()}`);
 
         // Use same gas buffer as manual script (20%)
         const gasLimit = estimatedGas.mul(120).div(100);
-        console.log(`Using gas limit: ${gasLimit.toString()}`);
 
         const mintTx = await messageTransmitter.receiveMessage(
           attestation.message,    // Raw hex string (no conversion)
@@ -895,35 +1915,227 @@ export class ProductionCCTPService {
           { gasLimit }
         );
 
-        console.log('🚀 Mint transaction sent:', mintTx.hash);
+        this.logger.info('Mint transaction sent', { chainId: toChain, transactionHash: mintTx.hash });
+        this.reportProgress(onProgress, { step: 'mint_sent', chainId: toChain, transactionHash: mintTx.hash });
         const receipt = await mintTx.wait();
-        console.log('✅ Mint completed! Block:', receipt.blockNumber);
+        this.logger.info('Mint transaction confirmed', {
+          chainId: toChain,
+          transactionHash: mintTx.hash,
+          blockNumber: receipt.blockNumber,
+        });
+        this.reportProgress(onProgress, { step: 'mint_confirmed', chainId: toChain, transactionHash: mintTx.hash });
         return mintTx.hash;
         
       } catch (gasEstimateError) {
-        const errorMessage = gasEstimateError instanceof Error ? gasEstimateError.message : String(gasEstimateError);
-        console.error('❌ Gas estimation failed:', errorMessage);
+        this.logger.debug('receiveMessage failed', { chainId: toChain, reason: describeError(gasEstimateError) });
         throw gasEstimateError;
       }
 
     } catch (error) {
-      console.error('Destination completion failed:', error);
-      console.error('Attestation details:', {
-        message: attestation.message,
-        signature: attestation.signature,
+      // Attestation bytes are deliberately not logged - the message hash identifies them
+      this.logger.error('Destination completion failed', {
         toChain,
-        messageTransmitterAddress: addresses.messageTransmitter
+        messageHash: originalMessageHash,
+        messageTransmitter: addresses.messageTransmitter,
+        error,
       });
-      throw error;
+      if (error instanceof GasFlowError) {
+        throw error;
+      }
+      const mintError = GasFlowError.from(error, 'MINT_REVERTED', { chainId: toChain });
+      if (mintError.code === 'MINT_REVERTED') {
+        throw new MintRevertedError(`receiveMessage failed: ${this.parseContractError(error)}`, {
+          chainId: toChain,
+          cause: error,
+        });
+      }
+      throw mintError;
     }
   }
 
+  /**
+   * Have the hook handler receive the message and execute its hook in one transaction
+   */
+  private async relayThroughHandler(
+    attestation: { message: string; signature: string },
+    toChain: ChainId,
+    handler: string,
+    messageHash?: string,
+    onProgress?: BridgeProgressListener,
+    signerOverride?: Signer
+  ): Promise<string> {
+    const signer = signerOverride || this.getSigner(toChain);
+    const hookHandler = CCTPHookHandler__factory.connect(handler, signer);
+
+    this.logger.debug('Relaying attestation through hook handler', { toChain, handler, messageHash });
+
+    try {
+      const estimatedGas = await hookHandler.estimateGas.relay(attestation.message, attestation.signature);
+      const relayTx = await hookHandler.relay(attestation.message, attestation.signature, {
+        gasLimit: estimatedGas.mul(120).div(100),
+      });
+
+      this.logger.info('Relay transaction sent', { chainId: toChain, transactionHash: relayTx.hash });
+      this.reportProgress(onProgress, { step: 'mint_sent', chainId: toChain, transactionHash: relayTx.hash });
+      const receipt = await relayTx.wait();
+      this.logger.info('Relay transaction confirmed', {
+        chainId: toChain,
+        transactionHash: relayTx.hash,
+        blockNumber: receipt.blockNumber,
+      });
+      this.reportProgress(onProgress, { step: 'mint_confirmed', chainId: toChain, transactionHash: relayTx.hash });
+      return relayTx.hash;
+
+    } catch (error) {
+      this.logger.error('Hook handler relay failed', { toChain, handler, messageHash, error });
+      const mintError = GasFlowError.from(error, 'MINT_REVERTED', { chainId: toChain });
+      if (mintError.code === 'MINT_REVERTED') {
+        throw new MintRevertedError(`relay failed: ${this.parseContractError(error)}`, {
+          chainId: toChain,
+          cause: error,
+        });
+      }
+      throw mintError;
+    }
+  }
+
+  /**
+   * Read the handler's HookExecuted event from the relay transaction
+   */
+  private async getHookExecution(
+    transactionHash: string,
+    toChain: ChainId,
+    handler: string
+  ): Promise<BridgeAndCallResult['call']> {
+    const provider = this.signers.get(toChain)?.provider || this.getReadOnlyProvider(toChain);
+    const receipt = await provider.getTransactionReceipt(transactionHash);
+    if (!receipt) {
+      throw new GasFlowError('TRANSACTION_NOT_FOUND', 'Relay transaction receipt not found', {
+        chainId: toChain,
+        transactionHash,
+      });
+    }
+
+    const handlerInterface = CCTPHookHandler__factory.createInterface();
+    const topic = handlerInterface.getEventTopic('HookExecuted');
+    const log = receipt.logs.find(
+      entry => entry.address.toLowerCase() === handler.toLowerCase() && entry.topics[0] === topic
+    );
+    if (!log) {
+      throw new GasFlowError(
+        'MESSAGE_NOT_FOUND',
+        `Transaction ${transactionHash} did not execute a hook through handler ${handler}`,
+        { chainId: toChain, transactionHash }
+      );
+    }
+
+    const { args } = handlerInterface.parseLog(log);
+    return {
+      target: args.target,
+      amount: args.amount,
+      success: args.success,
+      result: args.result,
+    };
+  }
+
   async estimateBridgeFee(
     amount: BigNumber,
     fromChain: ChainId,
     toChain: ChainId,
     useFastTransfer?: boolean
   ): Promise<BigNumber> {
+    const feeData = await this.fetchBurnFees(fromChain, toChain);
+    const feeInBasisPoints = feeData === null
+      ? null
+      : this.selectFeeBasisPoints(feeData, useFastTransfer ? FINALITY_THRESHOLDS.fast : FINALITY_THRESHOLDS.standard);
+
+    if (feeInBasisPoints === null) {
+      // Fallback to chain-specific calculation
+      this.logger.debug('Circle fees unavailable, using estimated fee', { fromChain, toChain });
+      return this.calculateEstimatedFee(fromChain, toChain);
+    }
+
+    // Convert basis points to actual fee: amount * (bps / 10000)
+    const feeAmount = amount.mul(BigNumber.from(feeInBasisPoints)).div(10000);
+    this.logger.debug('Calculated bridge fee', {
+      fee: ethers.utils.formatUnits(feeAmount, 6),
+      basisPoints: feeInBasisPoints,
+    });
+    return feeAmount;
+  }
+
+  /**
+   * Quote both transfer tiers from one read of Circle's fee schedule and Fast
+   * Transfer allowance. Pass the quote to initiateBridge({ quote }) to burn
+   * with exactly these parameters.
+   */
+  async getBridgeQuote(amount: BigNumber, fromChain: ChainId, toChain: ChainId): Promise<BridgeQuote> {
+    if (!amount || amount.lte(0)) {
+      throw new InvalidParamsError('Amount must be greater than 0');
+    }
+    getCCTPDomain(fromChain);
+    getCCTPDomain(toChain);
+
+    const [feeData, allowance, destinationGasFee] = await Promise.all([
+      this.fetchBurnFees(fromChain, toChain),
+      this.allowanceMonitor.get(),
+      this.calculateDestinationGasFee(toChain, amount),
+    ]);
+    const fastAvailable = await this.allowanceMonitor.canTransfer(amount);
+
+    const quoteTier = async (transferMode: 'fast' | 'standard'): Promise<BridgeQuoteTier> => {
+      const minFinalityThreshold = FINALITY_THRESHOLDS[transferMode];
+      const feeBps = feeData === null ? null : this.selectFeeBasisPoints(feeData, minFinalityThreshold);
+      const fee = feeBps === null
+        ? this.calculateEstimatedFee(fromChain, toChain)
+        : amount.mul(feeBps).div(10000);
+
+      // A fast burn whose maxFee is below the fee is attested at standard finality
+      const maxFee = transferMode === 'fast' && fee.gt(destinationGasFee) ? fee : destinationGasFee;
+      return {
+        transferMode,
+        available: transferMode === 'standard' || fastAvailable,
+        feeBps,
+        fee,
+        maxFee,
+        minFinalityThreshold,
+        estimatedTime: await this.estimateTransferTime(amount, fromChain, toChain, transferMode === 'fast'),
+      };
+    };
+
+    const [fast, standard] = await Promise.all([quoteTier('fast'), quoteTier('standard')]);
+    const quotedAt = Date.now();
+    const quote: BridgeQuote = {
+      amount,
+      fromChain,
+      toChain,
+      fast,
+      standard,
+      // Same rule as transferMode 'auto'
+      recommended: fast.available && amount.lt(this.FAST_TRANSFER_THRESHOLD) ? 'fast' : 'standard',
+      feeSource: feeData === null ? 'fallback' : 'live',
+      allowanceSource: allowance.source,
+      quotedAt,
+      validUntil: quotedAt + QUOTE_VALIDITY_MS,
+    };
+
+    this.logger.debug('Quoted bridge', {
+      fromChain,
+      toChain,
+      amount: ethers.utils.formatUnits(amount, 6),
+      recommended: quote.recommended,
+      fastFee: ethers.utils.formatUnits(fast.fee, 6),
+      standardFee: ethers.utils.formatUnits(standard.fee, 6),
+      feeSource: quote.feeSource,
+      allowanceSource: quote.allowanceSource,
+    });
+    return quote;
+  }
+
+  /**
+   * Circle's burn fee schedule for a route, or null when it cannot be fetched
+   */
+  private async fetchBurnFees(fromChain: ChainId, toChain: ChainId): Promise<any | null> {
     try {
       // Use Circle's official burn fees API
       const sourceDomain = getCCTPDomain(fromChain);
@@ -947,69 +2159,64 @@ export class ProductionCCTPService {
 
       if (response.ok) {
         const feeData = await response.json();
-        console.log(`Circle fees API response for ${sourceDomain}→${destDomain}:`, feeData);
-
-        // Handle array format: [{finalityThreshold: 1000, minimumFee: 1}, {finalityThreshold: 2000, minimumFee: 0}]
-        if (Array.isArray(feeData) && feeData.length > 0) {
-          console.log(`🔍 Processing Circle API array response with ${feeData.length} tiers:`, feeData);
-
-          // Select the appropriate tier based on transfer type
-          const targetThreshold = useFastTransfer ? 1000 : 2000;
-          let selectedTier = feeData.find(tier => tier.finalityThreshold === targetThreshold);
-
-          // Fallback to lowest fee if exact threshold not found
-          if (!selectedTier) {
-            console.warn(`⚠️ Exact threshold ${targetThreshold} not found, using lowest fee tier`);
-            selectedTier = feeData.reduce((min, tier) => {
-              if (typeof tier.minimumFee !== 'number' || typeof min.minimumFee !== 'number') {
-                return min;
-              }
-              return tier.minimumFee < min.minimumFee ? tier : min;
-            });
-          }
-
-          console.log(`🎯 Selected fee tier for ${useFastTransfer ? 'Fast' : 'Standard'} transfer (${targetThreshold}):`, selectedTier);
-
-          if (typeof selectedTier.minimumFee === 'number') {
-            const feeInBasisPoints = selectedTier.minimumFee;
-            // Convert basis points to actual fee: amount * (bps / 10000)
-            const feeAmount = amount.mul(BigNumber.from(feeInBasisPoints)).div(10000);
-
-            console.log(`✅ Circle API fee: ${ethers.utils.formatUnits(feeAmount, 6)} USDC (${feeInBasisPoints} basis points)`);
-            return feeAmount;
-          } else {
-            console.warn('Invalid minimumFee in selected tier:', selectedTier);
-          }
-        } else {
-          console.log(`⚠️ Unexpected Circle API response format:`, typeof feeData, Array.isArray(feeData) ? 'array' : 'object');
-        }
-
-        // Legacy data wrapper format fallback
-        if (feeData.data && feeData.data.minimumFee !== undefined) {
-          // Legacy data wrapper format fallback
-          const feeInBasisPoints = feeData.data.minimumFee;
-          const feeAmount = amount.mul(BigNumber.from(feeInBasisPoints)).div(10000);
-
-          console.log(`✅ Circle API fee: ${ethers.utils.formatUnits(feeAmount, 6)} USDC (${feeInBasisPoints} basis points)`);
-          return feeAmount;
-        }
-      } else {
-        console.warn(`Circle fees API returned ${response.status}: ${await response.text()}`);
+        this.logger.debug('Fetched Circle burn fees', { sourceDomain, destDomain, fees: feeData });
+        return feeData;
       }
 
-      // Fallback to chain-specific calculation
-      console.log(`⚠️ Circle API unavailable, using estimated fee for ${fromChain}→${toChain}`);
-      return this.calculateEstimatedFee(fromChain, toChain);
+      this.logger.warn('Circle fees API request failed', {
+        status: response.status,
+        body: await response.text(),
+      });
+      return null;
 
     } catch (error) {
       const err = error as any;
       if (err?.name === 'AbortError') {
-        console.warn(`Circle API timeout for ${fromChain}→${toChain}, using estimation`);
+        this.logger.warn('Circle fees API timed out, using estimated fee', { fromChain, toChain });
       } else {
-        console.warn(`Failed to fetch Circle API fees for ${fromChain}→${toChain}:`, err?.message || error);
+        this.logger.warn('Failed to fetch Circle fees, using estimated fee', { fromChain, toChain, error });
       }
-      return this.calculateEstimatedFee(fromChain, toChain);
+      return null;
+    }
+  }
+
+  /**
+   * Minimum fee in basis points for a finality threshold, or null if the
+   * schedule has no usable tier
+   */
+  private selectFeeBasisPoints(feeData: any, targetThreshold: number): number | null {
+    // Handle array format: [{finalityThreshold: 1000, minimumFee: 1}, {finalityThreshold: 2000, minimumFee: 0}]
+    if (Array.isArray(feeData) && feeData.length > 0) {
+      let selectedTier = feeData.find(tier => tier.finalityThreshold === targetThreshold);
+
+      // Fallback to lowest fee if exact threshold not found
+      if (!selectedTier) {
+        this.logger.warn('Fee tier for finality threshold not found, using lowest fee tier', {
+          finalityThreshold: targetThreshold,
+        });
+        selectedTier = feeData.reduce((min, tier) => {
+          if (typeof tier.minimumFee !== 'number' || typeof min.minimumFee !== 'number') {
+            return min;
+          }
+          return tier.minimumFee < min.minimumFee ? tier : min;
+        });
+      }
+
+      if (typeof selectedTier.minimumFee === 'number') {
+        return selectedTier.minimumFee;
+      }
+      this.logger.warn('Invalid minimumFee in selected fee tier', { tier: selectedTier });
+    } else {
+      this.logger.debug('Unexpected Circle fees API response format', {
+        type: Array.isArray(feeData) ? 'array' : typeof feeData,
+      });
+    }
+
+    // Legacy data wrapper format fallback
+    if (feeData?.data && feeData.data.minimumFee !== undefined) {
+      return Number(feeData.data.minimumFee);
     }
+    return null;
   }
 
   private async calculateDestinationGasFee(destinationChain: ChainId, transferAmount: BigNumber): Promise<BigNumber> {
@@ -1041,12 +2248,12 @@ export class ProductionCCTPService {
     const maxAllowedFee = transferAmount.sub(1); // amount - 1 to ensure strict less than
     const finalMaxFee = maxFeeWithBuffer.gt(maxAllowedFee) ? maxAllowedFee : maxFeeWithBuffer;
 
-    console.log(`Destination gas fee calculation for chain ${destinationChain}:`, {
-      idealFee: ethers.utils.formatUnits(maxFeeWithBuffer, 6) + ' USDC',
-      transferAmount: ethers.utils.formatUnits(transferAmount, 6) + ' USDC',
-      maxAllowedFee: ethers.utils.formatUnits(maxAllowedFee, 6) + ' USDC',
-      finalMaxFee: ethers.utils.formatUnits(finalMaxFee, 6) + ' USDC',
-      wasCapped: maxFeeWithBuffer.gt(maxAllowedFee)
+    this.logger.debug('Calculated destination gas fee', {
+      chainId: destinationChain,
+      idealFee: ethers.utils.formatUnits(maxFeeWithBuffer, 6),
+      transferAmount: ethers.utils.formatUnits(transferAmount, 6),
+      maxFee: ethers.utils.formatUnits(finalMaxFee, 6),
+      capped: maxFeeWithBuffer.gt(maxAllowedFee),
     });
 
     return finalMaxFee;
@@ -1075,18 +2282,25 @@ export class ProductionCCTPService {
   }
 
   private getViemChain(chainId: ChainId) {
-    const chainMap: Record<ChainId, any> = {
+    const chainMap: Record<ChainId, any> = this.useTestnet ? {
       11155111: sepolia,
       421614: arbitrumSepolia,
       84532: baseSepolia,
       43113: avalancheFuji,
       80002: polygonAmoy,
       11155420: optimismSepolia
+    } : {
+      1: mainnet,
+      42161: arbitrum,
+      8453: base,
+      43114: avalanche,
+      137: polygon,
+      10: optimism
     };
     
     const chain = chainMap[chainId];
     if (!chain) {
-      throw new Error(`Unsupported chain for viem: ${chainId}`);
+      throw new UnsupportedChainError(`Unsupported chain for viem: ${chainId}`, { chainId });
     }
     return chain;
   }
@@ -9,7 +9,38 @@ import { toCircleSmartAccount } from '@circle-fin/modular-wallets-core';
 import { createBundlerClient } from 'viem/account-abstraction';
 import { BigNumber } from 'ethers';
 import { ChainId, GasFlowTransaction } from '../types';
-import { getChainConfig } from '../config/chains';
+import { getChainConfig, getMainnetChains, getTestnetChains } from '../config/chains';
+import {
+  GasFlowError,
+  UnsupportedChainError,
+  PaymasterRejectedError,
+  BundlerError,
+  GasEstimationError,
+  describeError
+} from '../errors';
+import { ScopedLogger } from '../utils/logger';
+import { PERMIT_TYPES, PERMIT_VALIDITY_SECONDS, USDC_PERMIT_VERSION } from '../utils/permit';
+
+/**
+ * Classify a bundler/paymaster failure. EntryPoint AA3x codes and paymaster
+ * reverts mean the paymaster refused the operation; everything else is
+ * treated as a (retryable) bundler error.
+ */
+function toPaymasterError(error: unknown, prefix: string, chainId: ChainId): GasFlowError {
+  if (error instanceof GasFlowError) {
+    return error;
+  }
+
+  const message = `${prefix}: ${describeError(error)}`;
+  if (/AA3\d|paymaster/i.test(describeError(error))) {
+    return new PaymasterRejectedError(message, { chainId, cause: error });
+  }
+
+  const normalized = GasFlowError.from(error, 'BUNDLER_ERROR', { chainId });
+  return normalized.code === 'BUNDLER_ERROR'
+    ? new BundlerError(message, { chainId, cause: error })
+    : normalized;
+}
 
 async function signPermit({
   tokenAddress,
@@ -39,25 +70,15 @@ async function signPermit({
     args: [account.address],
   });
 
-  const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_VALIDITY_SECONDS);
 
   const domain = {
     name: 'USD Coin',
-    version: '2',
+    version: USDC_PERMIT_VERSION,
     chainId: BigInt(client.chain.id),
     verifyingContract: tokenAddress,
   };
 
-  const types = {
-    Permit: [
-      { name: 'owner', type: 'address' },
-      { name: 'spender', type: 'address' },
-      { name: 'value', type: 'uint256' },
-      { name: 'nonce', type: 'uint256' },
-      { name: 'deadline', type: 'uint256' },
-    ],
-  };
-
   const message = {
     owner: account.address,
     spender: spenderAddress,
@@ -68,7 +89,7 @@ async function signPermit({
 
   const signature = await account.signTypedData({
     domain,
-    types,
+    types: PERMIT_TYPES,
     primaryType: 'Permit',
     message,
   });
@@ -76,13 +97,27 @@ async function signPermit({
   return signature;
 }
 
+function toUserOperationCalls(
+  transaction: GasFlowTransaction | GasFlowTransaction[]
+): Array<{ to: Address; value: bigint; data: `0x${string}` }> {
+  const transactions = Array.isArray(transaction) ? transaction : [transaction];
+  return transactions.map(tx => ({
+    to: tx.to as Address,
+    value: BigInt(tx.value?.toString() || '0'),
+    data: tx.data as `0x${string}`,
+  }));
+}
+
 export class RealPaymasterService {
   private clients: Map<ChainId, any> = new Map();
+  private logger: ScopedLogger;
   
   constructor(
     private useTestnet: boolean = true,
-    private alchemyApiKey?: string
+    private alchemyApiKey?: string,
+    logger: ScopedLogger = new ScopedLogger()
   ) {
+    this.logger = logger.child({ module: 'RealPaymasterService' });
     this.initializeClients();
   }
 
@@ -91,6 +126,7 @@ export class RealPaymasterService {
     
     for (const chainId of supportedChains) {
       const config = getChainConfig(chainId, this.useTestnet);
+      const rpcUrl = this.useTestnet ? config.testnetRpcUrl : config.rpcUrl;
       
       const viemChain = {
         id: chainId,
@@ -103,10 +139,10 @@ export class RealPaymasterService {
         },
         rpcUrls: {
           default: {
-            http: [config.testnetRpcUrl || config.rpcUrl],
+            http: [rpcUrl],
           },
           public: {
-            http: [config.testnetRpcUrl || config.rpcUrl],
+            http: [rpcUrl],
           },
         },
         blockExplorers: {
@@ -132,7 +168,7 @@ export class RealPaymasterService {
   ): Promise<bigint> {
     const client = this.clients.get(chainId)?.publicClient;
     if (!client) {
-      throw new Error(`Client not available for chain ${chainId}`);
+      throw new UnsupportedChainError(`Client not available for chain ${chainId}`, { chainId });
     }
 
     const config = getChainConfig(chainId, this.useTestnet);
@@ -155,7 +191,7 @@ export class RealPaymasterService {
 
       return balance as bigint;
     } catch (error) {
-      console.error(`Failed to check USDC balance on chain ${chainId}:`, error);
+      this.logger.warn('Failed to check USDC balance', { chainId, error });
       return 0n;
     }
   }
@@ -168,7 +204,7 @@ export class RealPaymasterService {
     const clientData = this.clients.get(chainId);
     
     if (!clientData || !config.paymasterAddress) {
-      throw new Error(`Circle Smart Account not supported on chain ${chainId}`);
+      throw new UnsupportedChainError(`Circle Smart Account not supported on chain ${chainId}`, { chainId });
     }
 
     try {
@@ -178,11 +214,11 @@ export class RealPaymasterService {
         owner 
       });
       
-      console.log(`[CIRCLE] Created Smart Account: ${account.address}`);
+      this.logger.debug('Created Circle Smart Account', { chainId, account: account.address });
       return account;
     } catch (error) {
-      console.error(`Failed to create Circle Smart Account on chain ${chainId}:`, error);
-      throw new Error(`Smart account creation failed: ${error}`);
+      this.logger.error('Failed to create Circle Smart Account', { chainId, error });
+      throw toPaymasterError(error, 'Smart account creation failed', chainId);
     }
   }
 
@@ -200,7 +236,7 @@ export class RealPaymasterService {
   }> {
     const client = this.clients.get(chainId)?.publicClient;
     if (!client) {
-      throw new Error(`Client not available for chain ${chainId}`);
+      throw new UnsupportedChainError(`Client not available for chain ${chainId}`, { chainId });
     }
 
     try {
@@ -239,78 +275,138 @@ export class RealPaymasterService {
         usdcCost,
       };
     } catch (error) {
-      console.error(`Gas estimation failed for chain ${chainId}:`, error);
-      throw new Error(`Gas estimation failed: ${error}`);
+      this.logger.warn('Paymaster gas estimation failed', { chainId, error });
+      throw new GasEstimationError(`Gas estimation failed: ${describeError(error)}`, { chainId, cause: error });
     }
   }
 
+  /**
+   * Submit one UserOperation paying gas in USDC. Passing several transactions
+   * executes them atomically as calls of the same UserOperation.
+   */
   async executeWithPaymaster(
-    transaction: GasFlowTransaction,
+    transaction: GasFlowTransaction | GasFlowTransaction[],
     privateKey: string,
     chainId: ChainId
   ): Promise<string> {
     const config = getChainConfig(chainId, this.useTestnet);
     if (!config.paymasterAddress) {
-      throw new Error(`Paymaster not available on chain ${chainId}`);
+      throw new UnsupportedChainError(`Paymaster not available on chain ${chainId}`, { chainId });
     }
 
-    console.log(`[CIRCLE] Executing transaction with Circle Paymaster v0.8 on chain ${chainId}`);
+    const calls = toUserOperationCalls(transaction);
+    this.logger.info('Executing transaction with Circle Paymaster', { chainId, calls: calls.length });
 
     try {
       const account = await this.createSmartAccount(privateKey, chainId);
-      const clientData = this.clients.get(chainId);
-      console.log(`[CIRCLE] Using Smart Account: ${account.address}`);
-
-      const paymaster = {
-        async getPaymasterData(parameters: any) {
-          const permitAmount = 10000000n;
-          
-          const permitSignature = await signPermit({
-            tokenAddress: config.usdcAddress as Address,
-            account,
-            client: clientData.publicClient,
-            spenderAddress: config.paymasterAddress as Address,
-            permitAmount,
-          });
-
-          const paymasterData = encodePacked(
-            ["uint8", "address", "uint256", "bytes"],
-            [0, config.usdcAddress as Address, permitAmount, permitSignature as `0x${string}`]
-          );
-
-          return {
-            paymaster: config.paymasterAddress as Address,
-            paymasterData,
-            paymasterVerificationGasLimit: 200000n,
-            paymasterPostOpGasLimit: 15000n,
-            isFinal: true,
-          };
-        },
-      };
+      this.logger.debug('Using Circle Smart Account', { chainId, account: account.address });
 
-      const bundlerClient = createBundlerClient({
-        account,
-        client: clientData.publicClient,
-        paymaster,
-        transport: http(config.bundlerUrl ? `${config.bundlerUrl}/${this.alchemyApiKey}` : undefined),
-      });
+      const bundlerClient = this.createPaymasterBundlerClient(account, chainId);
 
       const hash = await bundlerClient.sendUserOperation({
         account,
-        calls: [
-          {
-            to: transaction.to as Address,
-            value: BigInt(transaction.value?.toString() || '0'),
-            data: transaction.data as `0x${string}`,
-          },
-        ],
+        calls,
       });
 
-      console.log(`[CIRCLE] UserOperation submitted with hash: ${hash}`);
+      this.logger.info('UserOperation submitted', { chainId, userOpHash: hash });
       return hash;
     } catch (error) {
-      console.error(`[CIRCLE] Failed to execute with paymaster on chain ${chainId}:`, error);
-      throw new Error(`Paymaster execution failed: ${error}`);
+      this.logger.error('Failed to execute with paymaster', { chainId, error });
+      throw toPaymasterError(error, 'Paymaster execution failed', chainId);
+    }
+  }
+
+  /**
+   * Bundler client whose paymaster pays gas in USDC via a signed permit
+   */
+  private createPaymasterBundlerClient(account: any, chainId: ChainId): any {
+    const config = getChainConfig(chainId, this.useTestnet);
+    const clientData = this.clients.get(chainId);
+
+    const paymaster = {
+      async getPaymasterData(parameters: any) {
+        const permitAmount = 10000000n;
+        
+        const permitSignature = await signPermit({
+          tokenAddress: config.usdcAddress as Address,
+          account,
+          client: clientData.publicClient,
+          spenderAddress: config.paymasterAddress as Address,
+          permitAmount,
+        });
+
+        const paymasterData = encodePacked(
+          ["uint8", "address", "uint256", "bytes"],
+          [0, config.usdcAddress as Address, permitAmount, permitSignature as `0x${string}`]
+        );
+
+        return {
+          paymaster: config.paymasterAddress as Address,
+          paymasterData,
+          paymasterVerificationGasLimit: 200000n,
+          paymasterPostOpGasLimit: 15000n,
+          isFinal: true,
+        };
+      },
+    };
+
+    return createBundlerClient({
+      account,
+      client: clientData.publicClient,
+      paymaster,
+      transport: http(config.bundlerUrl ? `${config.bundlerUrl}/${this.alchemyApiKey}` : undefined),
+    });
+  }
+
+  /**
+   * Prepare (but do not sign or send) the UserOperation that executeWithPaymaster
+   * would submit, including paymaster data and bundler gas estimates
+   */
+  async buildUserOperation(
+    transaction: GasFlowTransaction | GasFlowTransaction[],
+    privateKey: string,
+    chainId: ChainId
+  ): Promise<{
+    userOperation: Record<string, string>;
+    totalGas: bigint;
+    usdcCost: bigint;
+  }> {
+    const config = getChainConfig(chainId, this.useTestnet);
+    if (!config.paymasterAddress) {
+      throw new UnsupportedChainError(`Paymaster not available on chain ${chainId}`, { chainId });
+    }
+
+    try {
+      const account = await this.createSmartAccount(privateKey, chainId);
+      const bundlerClient = this.createPaymasterBundlerClient(account, chainId);
+
+      const userOperation = await bundlerClient.prepareUserOperation({
+        account,
+        calls: toUserOperationCalls(transaction),
+      });
+
+      const totalGas =
+        BigInt(userOperation.callGasLimit ?? 0n) +
+        BigInt(userOperation.verificationGasLimit ?? 0n) +
+        BigInt(userOperation.preVerificationGas ?? 0n) +
+        BigInt(userOperation.paymasterVerificationGasLimit ?? 0n) +
+        BigInt(userOperation.paymasterPostOpGasLimit ?? 0n);
+      const totalCostWei = totalGas * BigInt(userOperation.maxFeePerGas ?? 0n);
+
+      const ethPriceUSD = this.useTestnet ? 2000 : await this.getETHPrice();
+      const usdcCost = BigInt(Math.ceil(Number(totalCostWei) / 1e18 * ethPriceUSD * 1e6));
+
+      // Stringify bigint fields so the operation is JSON-safe
+      const serialized: Record<string, string> = {};
+      for (const [key, value] of Object.entries(userOperation)) {
+        if (key === 'account' || value === undefined) continue;
+        serialized[key] = typeof value === 'bigint' ? value.toString() : String(value);
+      }
+
+      return { userOperation: serialized, totalGas, usdcCost };
+    } catch (error) {
+      this.logger.error('Failed to build UserOperation', { chainId, error });
+      throw toPaymasterError(error, 'UserOperation preparation failed', chainId);
     }
   }
 
@@ -325,10 +421,10 @@ export class RealPaymasterService {
   }> {
     const clientData = this.clients.get(chainId);
     if (!clientData) {
-      throw new Error(`Client not available for chain ${chainId}`);
+      throw new UnsupportedChainError(`Client not available for chain ${chainId}`, { chainId });
     }
 
-    console.log(`[CIRCLE] Getting transaction receipt: ${userOpHash}`);
+    this.logger.debug('Fetching UserOperation receipt', { chainId, userOpHash });
     
     try {
       const bundlerClient = createBundlerClient({
@@ -353,8 +449,8 @@ export class RealPaymasterService {
         actualGasCost: receipt.actualGasCost ? BigInt(receipt.actualGasCost) : undefined,
       };
     } catch (error) {
-      console.error('[CIRCLE] Failed to get transaction receipt:', error);
-      throw new Error(`Receipt retrieval failed: ${error}`);
+      this.logger.debug('Failed to fetch UserOperation receipt', { chainId, userOpHash, error });
+      throw new BundlerError(`Receipt retrieval failed: ${describeError(error)}`, { chainId, cause: error });
     }
   }
 
@@ -366,7 +462,7 @@ export class RealPaymasterService {
       const data = await response.json();
       return data.ethereum.usd;
     } catch (error) {
-      console.warn('Failed to fetch ETH price, using fallback:', error);
+      this.logger.warn('Failed to fetch ETH price, using fallback', { error });
       return 2000;
     }
   }
@@ -377,30 +473,8 @@ export class RealPaymasterService {
   }
 
   getSupportedChains(): ChainId[] {
-    const supportedChains: ChainId[] = [];
-    
-    if (this.useTestnet) {
-        if (getChainConfig(11155111, true).paymasterAddress) {
-        supportedChains.push(11155111);
-      }
-      if (getChainConfig(421614, true).paymasterAddress) {
-        supportedChains.push(421614);
-      }
-      if (getChainConfig(84532, true).paymasterAddress) {
-        supportedChains.push(84532);
-      }
-      if (getChainConfig(43113, true).paymasterAddress) {
-        supportedChains.push(43113);
-      }
-      if (getChainConfig(80002, true).paymasterAddress) {
-        supportedChains.push(80002);
-      }
-    } else {
-      supportedChains.push(42161);
-      supportedChains.push(8453);
-    }
-    
-    return supportedChains;
+    const chains = this.useTestnet ? getTestnetChains() : getMainnetChains();
+    return chains.filter(chainId => !!getChainConfig(chainId, this.useTestnet).paymasterAddress);
   }
 
   async validatePaymasterAvailability(chainId: ChainId): Promise<boolean> {
@@ -422,7 +496,7 @@ export class RealPaymasterService {
       
       return !!code && code !== '0x';
     } catch (error) {
-      console.warn(`Failed to validate paymaster on chain ${chainId}:`, error);
+      this.logger.warn('Failed to validate paymaster', { chainId, error });
       return false;
     }
   }
@@ -1,12 +1,51 @@
-import { BigNumber } from 'ethers';
-import { ChainId, RouteOption, GasFlowTransaction, BalanceInfo } from '../types';
+import { BigNumber, ethers } from 'ethers';
+import {
+  ChainId,
+  RouteOption,
+  RouteSource,
+  RouteWeights,
+  GasFlowTransaction,
+  BalanceInfo,
+  BridgeQuote,
+  BridgeQuoteTier
+} from '../types';
 import { BalanceManager } from './BalanceManager';
 import { GasEstimator } from './GasEstimator';
 import { CCTPService } from './CCTPServiceFactory';
+import { InvalidParamsError, NoRouteError } from '../errors';
+import { ScopedLogger } from '../utils/logger';
+import { abortable, throwIfAborted } from '../utils/abort';
+
+type Urgency = 'low' | 'medium' | 'high';
+
+// Default route weights: urgency trades cost for time, reliability always counts
+export const DEFAULT_ROUTE_WEIGHTS: Record<Urgency, RouteWeights> = {
+  low: { cost: 0.7, time: 0.1, reliability: 0.2 },
+  medium: { cost: 0.5, time: 0.3, reliability: 0.2 },
+  high: { cost: 0.3, time: 0.5, reliability: 0.2 },
+};
+
+// Route reliability factors - paying on the execution chain is 1
+const BRIDGE_RELIABILITY = 0.9; // Attestation and mint can still stall or fail
+const FALLBACK_DATA_PENALTY = 0.85; // Fee or allowance estimated without Circle's API
+const LOW_ALLOWANCE_PENALTY = 0.9; // Fast transfer needing over half the allowance left
+
+const MIN_BRIDGE_AMOUNT = BigNumber.from(10000); // Circle CCTP minimum: 0.01 USDC
+const MAX_GROSS_UP_QUOTES = 3; // Re-quotes while grossing a split leg up by its fee
+
+interface BridgeEstimate {
+  bridgeFee: BigNumber;
+  bridgeTime: number;
+  transferMode: 'fast' | 'standard';
+  reliability: number;
+  quote: BridgeQuote;
+}
 
 export interface RouteAnalysis {
   bestRoute: RouteOption;
-  allRoutes: RouteOption[];
+  allRoutes: RouteOption[]; // Pareto-optimal routes first, each group by descending score
+  paretoRoutes: RouteOption[]; // Routes no other route beats on cost, time and reliability at once
+  weights: RouteWeights; // Normalized weights the routes were scored with
   recommendedExecution: {
     chainId: ChainId;
     reason: string;
@@ -15,42 +54,414 @@ export interface RouteAnalysis {
 }
 
 export class RouteOptimizer {
+  private logger: ScopedLogger;
+
   constructor(
     private balanceManager: BalanceManager,
     private gasEstimator: GasEstimator,
     private cctpService: CCTPService,
-    private supportedChains: ChainId[]
-  ) {}
+    private supportedChains: ChainId[],
+    logger: ScopedLogger = new ScopedLogger()
+  ) {
+    this.logger = logger.child({ module: 'RouteOptimizer' });
+  }
 
+  /**
+   * Find every way to pay for transaction and rank them by a weighted score
+   * of cost, ETA and reliability. The best route is the top scorer among the
+   * Pareto-optimal ones.
+   */
   async analyzeOptimalRoute(
     transaction: GasFlowTransaction,
     userAddress: string,
-    urgency: 'low' | 'medium' | 'high' = 'medium'
+    urgency: Urgency = 'medium',
+    signal?: AbortSignal,
+    reserveFastAllowance: boolean = false // Hold allowance for a fast best route so concurrent plans don't count on it
   ): Promise<RouteAnalysis> {
+    throwIfAborted(signal);
+    const weights = this.resolveWeights(urgency, transaction.routeWeights);
+
     const targetChain = transaction.executeOn === 'optimal' 
-      ? await this.findOptimalExecutionChain(transaction, urgency)
+      ? await abortable(this.findOptimalExecutionChain(transaction, urgency), signal)
       : (transaction.executeOn as ChainId);
 
     const allRoutes = await this.calculateAllRoutes(
       transaction,
       userAddress,
       targetChain,
-      urgency
+      urgency,
+      signal
     );
 
-    // Sort routes by total cost
-    allRoutes.sort((a, b) => a.totalCost.sub(b.totalCost).toNumber());
-    
-    const bestRoute = allRoutes[0];
-    const recommendedExecution = this.generateRecommendation(allRoutes, targetChain);
+    let { ranked, pareto } = this.rankRoutes(allRoutes, weights);
+
+    if (reserveFastAllowance) {
+      // A route downgraded to standard costs and takes what its standard tier
+      // does, so rank again - until the best route is one already reserved for
+      const reserved: RouteOption[] = [];
+      while (ranked[0] && !reserved.includes(ranked[0])) {
+        reserved.push(ranked[0]);
+        if (!(await this.reserveAllowance(ranked[0]))) break;
+        ({ ranked, pareto } = this.rankRoutes(allRoutes, weights));
+      }
+      reserved.filter(route => route !== ranked[0]).forEach(route => this.releaseAllowance(route));
+    }
+
+    const bestRoute = ranked[0];
+    const recommendedExecution = this.generateRecommendation(ranked, pareto, targetChain, weights);
 
     return {
       bestRoute,
-      allRoutes,
+      allRoutes: ranked,
+      paretoRoutes: pareto,
+      weights,
       recommendedExecution,
     };
   }
 
+  /**
+   * Give back the allowance held for a route whose burns will not be sent
+   */
+  releaseAllowance(route: RouteOption): void {
+    for (const holder of [route, ...(route.sources || [])]) {
+      if (holder.allowanceReservationId) {
+        this.cctpService.allowanceMonitor.release(holder.allowanceReservationId);
+        holder.allowanceReservationId = undefined;
+      }
+    }
+  }
+
+  /**
+   * Urgency defaults overridden by the given weights, normalized to sum to 1
+   */
+  private resolveWeights(urgency: Urgency, overrides?: Partial<RouteWeights>): RouteWeights {
+    const weights = { ...(DEFAULT_ROUTE_WEIGHTS[urgency] || DEFAULT_ROUTE_WEIGHTS.medium), ...overrides };
+
+    for (const [name, weight] of Object.entries(weights)) {
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        throw new InvalidParamsError(`Route weight ${name} must be a non-negative number`);
+      }
+    }
+    const total = weights.cost + weights.time + weights.reliability;
+    if (total === 0) {
+      throw new InvalidParamsError('At least one route weight must be greater than 0');
+    }
+
+    return {
+      cost: weights.cost / total,
+      time: weights.time / total,
+      reliability: weights.reliability / total,
+    };
+  }
+
+  /**
+   * Score each route relative to the best value of each objective - the
+   * cheapest route scores 1 on cost, one twice as expensive 0.5 - and rank
+   * the Pareto-optimal routes ahead of the dominated ones
+   */
+  private rankRoutes(
+    routes: RouteOption[],
+    weights: RouteWeights
+  ): { ranked: RouteOption[]; pareto: RouteOption[] } {
+    if (routes.length === 0) {
+      return { ranked: [], pareto: [] };
+    }
+
+    const minCost = routes.reduce((min, route) => (route.totalCost.lt(min) ? route.totalCost : min), routes[0].totalCost);
+    const minTime = Math.min(...routes.map(route => route.estimatedTime));
+
+    for (const route of routes) {
+      const costScore = this.ratio(minCost, route.totalCost);
+      const timeScore = Math.max(minTime, 1) / Math.max(route.estimatedTime, 1);
+      route.score = weights.cost * costScore + weights.time * timeScore + weights.reliability * this.reliabilityOf(route);
+    }
+
+    const pareto = new Set(routes.filter(route => !routes.some(other => this.dominates(other, route))));
+    const ranked = [...routes].sort((a, b) =>
+      Number(pareto.has(b)) - Number(pareto.has(a))
+      || b.score! - a.score!
+      || (a.totalCost.lt(b.totalCost) ? -1 : a.totalCost.gt(b.totalCost) ? 1 : 0)
+      || a.estimatedTime - b.estimatedTime
+    );
+
+    return { ranked, pareto: ranked.filter(route => pareto.has(route)) };
+  }
+
+  /**
+   * Whether a is at least as good as b on cost, time and reliability and
+   * better on one of them
+   */
+  private dominates(a: RouteOption, b: RouteOption): boolean {
+    const reliabilityA = this.reliabilityOf(a);
+    const reliabilityB = this.reliabilityOf(b);
+    return a.totalCost.lte(b.totalCost) && a.estimatedTime <= b.estimatedTime && reliabilityA >= reliabilityB
+      && (a.totalCost.lt(b.totalCost) || a.estimatedTime < b.estimatedTime || reliabilityA > reliabilityB);
+  }
+
+  private reliabilityOf(route: RouteOption): number {
+    return route.reliability ?? 1;
+  }
+
+  /**
+   * best / value for USDC amounts, 1 when value is at best
+   */
+  private ratio(best: BigNumber, value: BigNumber): number {
+    const floor = BigNumber.from(1);
+    const denominator = value.gt(floor) ? value : floor;
+    return Number((best.gt(floor) ? best : floor).mul(1000000).div(denominator).toString()) / 1000000;
+  }
+
+  /**
+   * Reserve Fast Transfer allowance for a route's fast bridges. Returns
+   * whether any of them was downgraded to standard.
+   */
+  private async reserveAllowance(route: RouteOption): Promise<boolean> {
+    if (route.sources) {
+      return this.reserveSplitFastAllowance(route);
+    }
+    if (route.transferMode === 'fast') {
+      return this.reserveFastAllowance(route);
+    }
+    return false;
+  }
+
+  /**
+   * Reserve the bridged amount of the Fast Transfer allowance for a route,
+   * falling back to a standard transfer - at its quoted standard fee and
+   * time - when another plan already holds it
+   */
+  private async reserveFastAllowance(route: RouteOption): Promise<boolean> {
+    const reservation = await this.cctpService.allowanceMonitor.reserve(route.gasCost);
+    if (reservation) {
+      route.allowanceReservationId = reservation.id;
+      return false;
+    }
+
+    this.logger.info('Fast Transfer allowance reserved by other transfers, planning standard transfer', {
+      payFromChain: route.payFromChain,
+      executeOnChain: route.executeOnChain,
+    });
+    const bridgeFee = route.quote ? route.quote.standard.fee : route.bridgeCost || BigNumber.from(0);
+    const bridgeTime = route.quote
+      ? route.quote.standard.estimatedTime
+      : await this.cctpService.estimateTransferTime(route.gasCost, route.payFromChain, route.executeOnChain, false);
+
+    route.totalCost = route.totalCost.sub(route.bridgeCost || 0).add(bridgeFee);
+    route.bridgeCost = bridgeFee;
+    route.estimatedTime += bridgeTime - (route.bridgeTime || 0);
+    route.bridgeTime = bridgeTime;
+    route.transferMode = 'standard';
+    if (route.quote) {
+      route.reliability = this.bridgeReliability(route.quote, route.quote.standard);
+    }
+    return true;
+  }
+
+  /**
+   * Reserve allowance for each fast leg of a split-source route, downgrading
+   * legs that cannot get it to standard at their quoted standard fee and time
+   */
+  private async reserveSplitFastAllowance(route: RouteOption): Promise<boolean> {
+    let downgraded = false;
+    for (const source of route.sources!) {
+      if (source.transferMode !== 'fast') continue;
+
+      const reservation = await this.cctpService.allowanceMonitor.reserve(source.amount);
+      if (reservation) {
+        source.allowanceReservationId = reservation.id;
+        continue;
+      }
+
+      this.logger.info('Fast Transfer allowance reserved by other transfers, planning standard transfer', {
+        payFromChain: source.chainId,
+        executeOnChain: route.executeOnChain,
+      });
+      downgraded = true;
+      source.transferMode = 'standard';
+      if (source.quote) {
+        source.bridgeCost = source.quote.standard.fee;
+        source.bridgeTime = source.quote.standard.estimatedTime;
+      } else {
+        source.bridgeTime = await this.cctpService.estimateTransferTime(
+          source.amount,
+          source.chainId,
+          route.executeOnChain,
+          false
+        );
+      }
+    }
+    if (!downgraded) {
+      return false;
+    }
+
+    // Legs run in parallel: the slowest one decides
+    const bridgeTime = Math.max(...route.sources!.map(source => source.bridgeTime));
+    const bridgeCost = route.sources!.reduce((sum, source) => sum.add(source.bridgeCost), BigNumber.from(0));
+    route.estimatedTime += bridgeTime - (route.bridgeTime || 0);
+    route.bridgeTime = bridgeTime;
+    route.totalCost = route.gasCost.add(bridgeCost);
+    route.bridgeCost = bridgeCost;
+    route.transferMode = route.sources!.every(source => source.transferMode === 'fast') ? 'fast' : 'standard';
+    if (route.sources!.every(source => source.quote)) {
+      route.reliability = route.sources!.reduce(
+        (reliability, source) => reliability * this.bridgeReliability(source.quote!, source.quote![source.transferMode]),
+        1
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Pay from several chains at once when none holds enough USDC alone: burn
+   * the largest balances first, in parallel, and join them on the destination.
+   * Each leg is grossed up by its quoted fee so the mints add up to gasCost.
+   * Returns null - so nothing is burned - if the other chains together cannot
+   * cover it.
+   */
+  private async calculateSplitRoute(
+    transaction: GasFlowTransaction,
+    balances: BalanceInfo[],
+    executeOnChain: ChainId,
+    gasCost: BigNumber,
+    gasTime: number
+  ): Promise<RouteOption | null> {
+    const candidates = balances
+      .filter(balance => balance.chainId !== executeOnChain && balance.balance.gte(MIN_BRIDGE_AMOUNT))
+      .sort((a, b) => (b.balance.gt(a.balance) ? 1 : b.balance.lt(a.balance) ? -1 : 0));
+
+    const total = candidates.reduce((sum, balance) => sum.add(balance.balance), BigNumber.from(0));
+    if (candidates.length < 2 || total.lt(gasCost)) {
+      return null;
+    }
+
+    const sources: RouteSource[] = [];
+    let remaining = gasCost;
+    let reliability = 1; // Every leg has to arrive
+    for (const balanceInfo of candidates) {
+      if (remaining.lte(0)) break;
+
+      const leg = await this.grossUpLeg(transaction, remaining, balanceInfo, executeOnChain);
+      if (!leg) continue;
+
+      sources.push({
+        chainId: balanceInfo.chainId,
+        amount: leg.amount,
+        bridgeCost: leg.bridgeFee,
+        bridgeTime: leg.bridgeTime,
+        transferMode: leg.transferMode,
+        quote: leg.quote,
+      });
+      reliability *= leg.reliability;
+      remaining = remaining.sub(leg.amount.sub(leg.bridgeFee)); // Minted, net of the fee
+    }
+
+    if (remaining.gt(0)) {
+      this.logger.debug('Split route cannot cover the gas cost net of bridge fees', {
+        executeOnChain,
+        shortfall: remaining.toString(),
+      });
+      return null;
+    }
+
+    const bridgeCost = sources.reduce((sum, source) => sum.add(source.bridgeCost), BigNumber.from(0));
+    const bridgeTime = Math.max(...sources.map(source => source.bridgeTime));
+
+    return {
+      executeOnChain,
+      payFromChain: sources[0].chainId,
+      totalCost: gasCost.add(bridgeCost),
+      bridgeCost,
+      gasCost,
+      estimatedTime: gasTime + bridgeTime,
+      bridgeTime,
+      transferMode: sources.every(source => source.transferMode === 'fast') ? 'fast' : 'standard',
+      sources,
+      reliability,
+    };
+  }
+
+  /**
+   * Amount to burn on one chain so that, net of its quoted fee, it mints
+   * needed - or as much as the balance allows. The fee grows with the amount,
+   * so the quote is repeated until the amount settles. Returns null when the
+   * chain cannot make a valid burn: maxFee must stay below the amount.
+   */
+  private async grossUpLeg(
+    transaction: GasFlowTransaction,
+    needed: BigNumber,
+    balanceInfo: BalanceInfo,
+    toChain: ChainId
+  ): Promise<(BridgeEstimate & { amount: BigNumber }) | null> {
+    // Never below the CCTP minimum - a short leg burns a little more instead
+    const clamp = (amount: BigNumber): BigNumber => {
+      const atLeastMin = amount.lt(MIN_BRIDGE_AMOUNT) ? MIN_BRIDGE_AMOUNT : amount;
+      return atLeastMin.gt(balanceInfo.balance) ? balanceInfo.balance : atLeastMin;
+    };
+
+    let amount = clamp(needed);
+    let leg = await this.estimateBridge(transaction, amount, balanceInfo.chainId, toChain);
+    for (let attempt = 0; attempt < MAX_GROSS_UP_QUOTES; attempt++) {
+      const grossed = clamp(needed.add(leg.bridgeFee));
+      if (grossed.eq(amount)) break;
+
+      amount = grossed;
+      leg = await this.estimateBridge(transaction, amount, balanceInfo.chainId, toChain);
+    }
+
+    if (leg.quote[leg.transferMode].maxFee.gte(amount)) {
+      this.logger.debug('Skipping split leg whose maxFee is not below its amount', {
+        payFromChain: balanceInfo.chainId,
+        amount: amount.toString(),
+      });
+      return null;
+    }
+    return { ...leg, amount };
+  }
+
+  /**
+   * Bridge fee, time, mode and reliability for a cross-chain route, from a
+   * quote of the tier the bridge would use
+   */
+  private async estimateBridge(
+    transaction: GasFlowTransaction,
+    amount: BigNumber,
+    fromChain: ChainId,
+    toChain: ChainId
+  ): Promise<BridgeEstimate> {
+    const quote = await this.cctpService.getBridgeQuote(amount, fromChain, toChain);
+    const tier = transaction.transferMode !== 'standard' && quote.fast.available ? quote.fast : quote.standard;
+
+    return {
+      bridgeFee: tier.fee,
+      bridgeTime: tier.estimatedTime,
+      transferMode: tier.transferMode,
+      reliability: this.bridgeReliability(quote, tier),
+      quote,
+    };
+  }
+
+  /**
+   * Fallback fee data may misprice a bridge, and a fast transfer planned on
+   * the fallback allowance or most of what is left may end up attested at
+   * standard finality
+   */
+  private bridgeReliability(quote: BridgeQuote, tier: BridgeQuoteTier): number {
+    let reliability = BRIDGE_RELIABILITY;
+    if (quote.feeSource === 'fallback') {
+      reliability *= FALLBACK_DATA_PENALTY;
+    }
+
+    if (tier.transferMode === 'fast') {
+      const allowance = this.cctpService.allowanceMonitor.peek();
+      if (quote.allowanceSource === 'fallback') {
+        reliability *= FALLBACK_DATA_PENALTY;
+      } else if (allowance && quote.amount.mul(2).gt(allowance.available)) {
+        reliability *= LOW_ALLOWANCE_PENALTY;
+      }
+    }
+    return reliability;
+  }
+
   private async findOptimalExecutionChain(
     transaction: GasFlowTransaction,
     urgency: 'low' | 'medium' | 'high'
@@ -70,18 +481,18 @@ export class RouteOptimizer {
     transaction: GasFlowTransaction,
     userAddress: string,
     targetChain: ChainId,
-    urgency: 'low' | 'medium' | 'high'
+    urgency: 'low' | 'medium' | 'high',
+    signal?: AbortSignal
   ): Promise<RouteOption[]> {
     const routes: RouteOption[] = [];
 
     // Get user balances across all chains
-    const unifiedBalance = await this.balanceManager.getUnifiedBalance(userAddress);
+    const unifiedBalance = await this.balanceManager.getUnifiedBalance(userAddress, signal);
     
     // Get gas estimate for target chain
-    const gasEstimate = await this.gasEstimator.estimateGas(
-      transaction,
-      targetChain,
-      urgency
+    const gasEstimate = await abortable(
+      this.gasEstimator.estimateGas(transaction, targetChain, urgency),
+      signal
     );
 
     // Calculate direct execution (if user has balance on target chain)
@@ -96,6 +507,7 @@ export class RouteOptimizer {
         totalCost: gasEstimate.gasCostUSDC,
         gasCost: gasEstimate.gasCostUSDC,
         estimatedTime: gasEstimate.estimatedTime,
+        reliability: 1,
       });
     }
 
@@ -107,15 +519,12 @@ export class RouteOptimizer {
       const requiredAmount = gasEstimate.gasCostUSDC;
       if (balanceInfo.balance.lt(requiredAmount)) continue; // Insufficient balance
 
+      throwIfAborted(signal);
+
       try {
         // Get bridge fee and time
-        const bridgeFee = await this.cctpService.estimateBridgeFee(
-          requiredAmount,
-          balanceInfo.chainId,
-          targetChain
-        );
-
-        const bridgeTime = await this.cctpService.estimateTransferTime(
+        const { bridgeFee, bridgeTime, transferMode, reliability, quote } = await this.estimateBridge(
+          transaction,
           requiredAmount,
           balanceInfo.chainId,
           targetChain
@@ -131,9 +540,31 @@ export class RouteOptimizer {
           bridgeCost: bridgeFee,
           gasCost: gasEstimate.gasCostUSDC,
           estimatedTime: totalTime,
+          bridgeTime,
+          transferMode,
+          quote,
+          reliability,
         });
       } catch (error) {
-        console.warn(`Failed to calculate route from chain ${balanceInfo.chainId}:`, error);
+        this.logger.warn('Failed to calculate route', { payFromChain: balanceInfo.chainId, error });
+      }
+    }
+
+    // No single chain can pay - try combining several
+    if (routes.length === 0) {
+      try {
+        const splitRoute = await this.calculateSplitRoute(
+          transaction,
+          unifiedBalance.balancesByChain,
+          targetChain,
+          gasEstimate.gasCostUSDC,
+          gasEstimate.estimatedTime
+        );
+        if (splitRoute) {
+          routes.push(splitRoute);
+        }
+      } catch (error) {
+        this.logger.warn('Failed to calculate split-source route', { executeOnChain: targetChain, error });
       }
     }
 
@@ -141,6 +572,7 @@ export class RouteOptimizer {
     if (transaction.executeOn === 'optimal') {
       for (const chainId of this.supportedChains) {
         if (chainId === targetChain) continue; // Already handled
+        throwIfAborted(signal);
 
         try {
           const altGasEstimate = await this.gasEstimator.estimateGas(
@@ -161,21 +593,18 @@ export class RouteOptimizer {
               totalCost: altGasEstimate.gasCostUSDC,
               gasCost: altGasEstimate.gasCostUSDC,
               estimatedTime: altGasEstimate.estimatedTime,
+              reliability: 1,
             });
           }
 
           // Cross-chain payment for alternative chain execution
+          const routeCount = routes.length;
           for (const balanceInfo of unifiedBalance.balancesByChain) {
             if (balanceInfo.chainId === chainId) continue;
             if (balanceInfo.balance.lt(altGasEstimate.gasCostUSDC)) continue;
 
-            const bridgeFee = await this.cctpService.estimateBridgeFee(
-              altGasEstimate.gasCostUSDC,
-              balanceInfo.chainId,
-              chainId
-            );
-
-            const bridgeTime = await this.cctpService.estimateTransferTime(
+            const { bridgeFee, bridgeTime, transferMode, reliability, quote } = await this.estimateBridge(
+              transaction,
               altGasEstimate.gasCostUSDC,
               balanceInfo.chainId,
               chainId
@@ -191,10 +620,29 @@ export class RouteOptimizer {
               bridgeCost: bridgeFee,
               gasCost: altGasEstimate.gasCostUSDC,
               estimatedTime: totalTime,
+              bridgeTime,
+              transferMode,
+              quote,
+              reliability,
             });
           }
+
+          const payable = routes.length > routeCount ||
+            (chainBalance !== undefined && chainBalance.balance.gte(altGasEstimate.gasCostUSDC));
+          if (!payable) {
+            const splitRoute = await this.calculateSplitRoute(
+              transaction,
+              unifiedBalance.balancesByChain,
+              chainId,
+              altGasEstimate.gasCostUSDC,
+              altGasEstimate.estimatedTime
+            );
+            if (splitRoute) {
+              routes.push(splitRoute);
+            }
+          }
         } catch (error) {
-          console.warn(`Failed to calculate alternative execution on chain ${chainId}:`, error);
+          this.logger.warn('Failed to calculate alternative execution', { chainId, error });
         }
       }
     }
@@ -202,12 +650,18 @@ export class RouteOptimizer {
     return routes;
   }
 
+  /**
+   * Recommend the best route and explain the trade-off that picked it over
+   * the cheapest, fastest and most reliable Pareto-optimal routes
+   */
   private generateRecommendation(
     routes: RouteOption[],
-    preferredChain: ChainId
+    paretoRoutes: RouteOption[],
+    preferredChain: ChainId,
+    weights: RouteWeights
   ): { chainId: ChainId; reason: string; estimatedSavings?: BigNumber } {
     if (routes.length === 0) {
-      throw new Error(
+      throw new NoRouteError(
         'No viable routes found. This may be due to insufficient balances, ' +
         'network connectivity issues, or CCTP service unavailability. ' +
         'Please check your USDC balances and try again.'
@@ -216,39 +670,70 @@ export class RouteOptimizer {
 
     const bestRoute = routes[0];
     const preferredChainRoute = routes.find(r => r.executeOnChain === preferredChain);
+    const estimatedSavings = bestRoute.executeOnChain !== preferredChain && preferredChainRoute
+      ? preferredChainRoute.totalCost.sub(bestRoute.totalCost)
+      : undefined;
+
+    const cheapest = paretoRoutes.reduce((min, route) => (route.totalCost.lt(min.totalCost) ? route : min));
+    const fastest = paretoRoutes.reduce((min, route) => (route.estimatedTime < min.estimatedTime ? route : min));
+    const mostReliable = paretoRoutes.reduce(
+      (max, route) => (this.reliabilityOf(route) > this.reliabilityOf(max) ? route : max)
+    );
 
-    // If best route is on preferred chain, recommend it
-    if (bestRoute.executeOnChain === preferredChain) {
+    const extraCost = bestRoute.totalCost.sub(cheapest.totalCost);
+    const extraTime = bestRoute.estimatedTime - fastest.estimatedTime;
+    const reliabilityGap = this.reliabilityOf(mostReliable) - this.reliabilityOf(bestRoute);
+
+    const strengths: string[] = [];
+    if (extraCost.lte(0)) strengths.push('cheapest');
+    if (extraTime <= 0) strengths.push('fastest');
+    if (reliabilityGap <= 0) strengths.push('most reliable');
+
+    const route = this.describeRoute(bestRoute);
+    if (strengths.length === 3) {
       return {
-        chainId: preferredChain,
-        reason: `Optimal execution on preferred chain ${preferredChain}`,
+        chainId: bestRoute.executeOnChain,
+        reason: `${route}: the cheapest, fastest and most reliable route`,
+        estimatedSavings,
       };
     }
 
-    // If executing on different chain saves significant money
-    if (preferredChainRoute) {
-      const savings = preferredChainRoute.totalCost.sub(bestRoute.totalCost);
-      const savingsPercentage = savings.mul(100).div(preferredChainRoute.totalCost).toNumber();
-
-      if (savingsPercentage > 20) { // More than 20% savings
-        return {
-          chainId: bestRoute.executeOnChain,
-          reason: `Significant cost savings (${savingsPercentage.toFixed(1)}%) by executing on chain ${bestRoute.executeOnChain}`,
-          estimatedSavings: savings,
-        };
-      }
+    const tradeoffs: string[] = [];
+    if (extraCost.gt(0)) {
+      tradeoffs.push(`${ethers.utils.formatUnits(extraCost, 6)} USDC more than the cheapest`);
     }
+    if (extraTime > 0) {
+      tradeoffs.push(`${extraTime}s slower than the fastest`);
+    }
+    if (reliabilityGap > 0) {
+      tradeoffs.push(
+        `reliability ${this.reliabilityOf(bestRoute).toFixed(2)} vs ${this.reliabilityOf(mostReliable).toFixed(2)} for the most reliable`
+      );
+    }
+
+    const choice = strengths.length > 0
+      ? `${strengths.join(' and ')} of ${paretoRoutes.length} Pareto-optimal routes`
+      : `best balance of ${paretoRoutes.length} Pareto-optimal routes`;
+    const weighting = `cost ${weights.cost.toFixed(2)}, time ${weights.time.toFixed(2)}, ` +
+      `reliability ${weights.reliability.toFixed(2)}`;
 
-    // Default to best route
     return {
       chainId: bestRoute.executeOnChain,
-      reason: `Most cost-effective execution on chain ${bestRoute.executeOnChain}`,
-      estimatedSavings: preferredChainRoute 
-        ? preferredChainRoute.totalCost.sub(bestRoute.totalCost)
-        : undefined,
+      reason: `${route}: ${choice}, accepting ${tradeoffs.join(' and ')} (weights: ${weighting})`,
+      estimatedSavings,
     };
   }
 
+  private describeRoute(route: RouteOption): string {
+    if (route.sources) {
+      return `Execute on chain ${route.executeOnChain} paying from ${route.sources.length} chains`;
+    }
+    if (route.payFromChain !== route.executeOnChain) {
+      return `Execute on chain ${route.executeOnChain} paying from chain ${route.payFromChain}`;
+    }
+    return `Execute on chain ${route.executeOnChain}`;
+  }
+
   async getQuickEstimate(
     transaction: GasFlowTransaction,
     userAddress: string
@@ -269,7 +754,7 @@ export class RouteOptimizer {
         requiresBridge: analysis.bestRoute.payFromChain !== analysis.bestRoute.executeOnChain,
       };
     } catch (error) {
-      console.error('Quick estimate failed:', error);
+      this.logger.error('Quick estimate failed', { error });
       return {
         canExecute: false,
         estimatedCost: BigNumber.from(0),
@@ -0,0 +1,78 @@
+import { StorageAdapter } from '../types';
+
+/**
+ * JSON file-backed storage for Node.js. Survives process restarts.
+ * All entries live in a single file; writes are serialized.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  private entries: Promise<Record<string, string>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Read the file once. Concurrent callers share the in-flight read, so they
+   * all get the same entries object and no write is lost to a second read.
+   */
+  private load(): Promise<Record<string, string>> {
+    if (!this.entries) {
+      this.entries = this.read().catch(error => {
+        // Let the next call try again
+        this.entries = null;
+        throw error;
+      });
+    }
+    return this.entries;
+  }
+
+  private async read(): Promise<Record<string, string>> {
+    // Imported lazily so browser bundles don't pull in fs
+    const fs = await import('fs/promises');
+    try {
+      const contents = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(contents);
+    } catch (error) {
+      if ((error as any)?.code !== 'ENOENT') {
+        throw new Error(`Failed to read storage file ${this.filePath}: ${error}`);
+      }
+      return {};
+    }
+  }
+
+  private async persist(entries: Record<string, string>): Promise<void> {
+    const snapshot = JSON.stringify(entries, null, 2);
+
+    const write = this.writeQueue.then(async () => {
+      const fs = await import('fs/promises');
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+
+    // Keep the queue usable after a failed write
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entries = await this.load();
+    return key in entries ? entries[key] : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    const entries = await this.load();
+    entries[key] = value;
+    await this.persist(entries);
+  }
+
+  async delete(key: string): Promise<void> {
+    const entries = await this.load();
+    delete entries[key];
+    await this.persist(entries);
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    const entries = await this.load();
+    return Object.keys(entries).filter(key => key.startsWith(prefix));
+  }
+}
@@ -0,0 +1,42 @@
+import { StorageAdapter } from '../types';
+
+/**
+ * Browser localStorage-backed storage. Survives page reloads.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  constructor(private namespace: string = 'gasflow:') {}
+
+  private get storage(): Storage {
+    const storage = (globalThis as any).localStorage as Storage | undefined;
+    if (!storage) {
+      throw new Error('localStorage is not available in this environment');
+    }
+    return storage;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.storage.getItem(this.namespace + key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.storage.setItem(this.namespace + key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.storage.removeItem(this.namespace + key);
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    const storage = this.storage;
+    const keys: string[] = [];
+
+    for (let i = 0; i < storage.length; i++) {
+      const fullKey = storage.key(i);
+      if (fullKey && fullKey.startsWith(this.namespace + prefix)) {
+        keys.push(fullKey.slice(this.namespace.length));
+      }
+    }
+
+    return keys;
+  }
+}
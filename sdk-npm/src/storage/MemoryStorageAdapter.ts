@@ -0,0 +1,24 @@
+import { StorageAdapter } from '../types';
+
+/**
+ * In-memory storage (default). Data is lost when the process exits.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private entries: Map<string, string> = new Map();
+
+  async get(key: string): Promise<string | null> {
+    return this.entries.has(key) ? this.entries.get(key)! : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    return Array.from(this.entries.keys()).filter(key => key.startsWith(prefix));
+  }
+}
@@ -0,0 +1,3 @@
+export { MemoryStorageAdapter } from './MemoryStorageAdapter';
+export { LocalStorageAdapter } from './LocalStorageAdapter';
+export { FileStorageAdapter } from './FileStorageAdapter';
@@ -0,0 +1,254 @@
+import { ethers, providers } from 'ethers';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { FINALITY_THRESHOLDS, MessageTransmitterV2__factory } from '../contracts';
+import {
+  decodeBurnMessage,
+  decodeCCTPMessage,
+  encodeBurnMessage,
+  encodeCCTPMessage
+} from '../utils/cctpMessage';
+
+const DEFAULT_FEES = [
+  { finalityThreshold: FINALITY_THRESHOLDS.fast, minimumFee: 1 },
+  { finalityThreshold: FINALITY_THRESHOLDS.standard, minimumFee: 0 },
+];
+
+export interface MockIrisServerOptions {
+  attesterPrivateKeys?: string[]; // Default: one random key - enable its address on the local MessageTransmitterV2
+  providers?: Record<number, providers.Provider>; // Source chain RPC by CCTP domain, read burn transactions from
+  attestationDelayMs?: number; // Default: 0 - messages report pending_confirmations until the delay passes
+  fees?: Array<{ finalityThreshold: number; minimumFee: number }>; // minimumFee in basis points
+  fastTransferAllowance?: number; // USDC, default: 1,000,000
+  fastExpirationBlock?: number; // expirationBlock written into fast messages (default: 0, never expires)
+}
+
+export interface MockIrisResponse {
+  status: number;
+  body: unknown;
+}
+
+interface MockMessage {
+  sourceDomain: number;
+  transactionHash: string;
+  nonce: string;
+  message: string;
+  attestation: string;
+  attestedAt: number;
+}
+
+/**
+ * In-process stand-in for Circle's Iris attestation API. Burn messages are
+ * read from local source chain providers (or registered with addMessage),
+ * completed with a nonce and finality like Circle does, and signed by local
+ * attester keys so a local MessageTransmitterV2 accepts them. Point the SDK
+ * at it with the irisApiUrl config option.
+ */
+export class MockIrisServer {
+  private attesters: ethers.utils.SigningKey[];
+  private messages: Map<string, MockMessage[]> = new Map();
+  private server: Server | null = null;
+  private fastTransferAllowance: number;
+
+  constructor(private options: MockIrisServerOptions = {}) {
+    const keys = options.attesterPrivateKeys || [ethers.Wallet.createRandom().privateKey];
+    // MessageTransmitterV2 requires signatures ordered by attester address
+    this.attesters = keys
+      .map(key => new ethers.utils.SigningKey(key))
+      .sort((a, b) => this.attesterAddress(a).toLowerCase().localeCompare(this.attesterAddress(b).toLowerCase()));
+    this.fastTransferAllowance = options.fastTransferAllowance ?? 1000000;
+  }
+
+  /**
+   * Addresses to enable as attesters on the local MessageTransmitterV2
+   */
+  get attesterAddresses(): string[] {
+    return this.attesters.map(key => this.attesterAddress(key));
+  }
+
+  setFastTransferAllowance(allowance: number): void {
+    this.fastTransferAllowance = allowance;
+  }
+
+  /**
+   * Register a USDC burn message as emitted by MessageSent, for tests without a source chain
+   */
+  addMessage(sourceDomain: number, transactionHash: string, message: string): string {
+    const key = this.messageKey(sourceDomain, transactionHash);
+    const existing = this.messages.get(key) || [];
+    const attested = this.attest(sourceDomain, transactionHash, message, existing.length);
+    this.messages.set(key, [...existing, attested]);
+    return attested.nonce;
+  }
+
+  /**
+   * Start listening on localhost, resolving with the base URL to pass as irisApiUrl
+   */
+  async listen(port: number = 0): Promise<string> {
+    const http = await import('http');
+    const server = http.createServer((request, response) => this.handleRequest(request, response));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+
+    const address = server.address();
+    return `http://127.0.0.1:${typeof address === 'object' && address ? address.port : port}`;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  }
+
+  /**
+   * Node request listener, for mounting the mock in an existing server
+   */
+  handleRequest(request: IncomingMessage, response: ServerResponse): void {
+    this.handle(request.method || 'GET', request.url || '/')
+      .catch(error => ({ status: 500, body: { error: error instanceof Error ? error.message : String(error) } }))
+      .then(({ status, body }) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+      });
+  }
+
+  /**
+   * Answer one API request
+   */
+  async handle(method: string, url: string): Promise<MockIrisResponse> {
+    const { pathname, searchParams } = new URL(url, 'http://localhost');
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && (match = pathname.match(/^\/v2\/messages\/(\d+)$/))) {
+      return this.getMessages(Number(match[1]), searchParams.get('transactionHash'));
+    }
+    if (method === 'GET' && (match = pathname.match(/^\/v2\/burn\/USDC\/fees\/(\d+)\/(\d+)$/))) {
+      return { status: 200, body: this.options.fees || DEFAULT_FEES };
+    }
+    if (method === 'GET' && pathname === '/v2/fastBurn/USDC/allowance') {
+      return {
+        status: 200,
+        body: { allowance: this.fastTransferAllowance, lastUpdated: new Date().toISOString() },
+      };
+    }
+    if (method === 'POST' && (match = pathname.match(/^\/v2\/reattest\/(0x[0-9a-fA-F]{64})$/))) {
+      return this.reattest(match[1]);
+    }
+
+    return { status: 404, body: { error: `No route for ${method} ${pathname}` } };
+  }
+
+  private async getMessages(sourceDomain: number, transactionHash: string | null): Promise<MockIrisResponse> {
+    if (!transactionHash) {
+      return { status: 400, body: { error: 'transactionHash is required' } };
+    }
+
+    const key = this.messageKey(sourceDomain, transactionHash);
+    if (!this.messages.has(key)) {
+      await this.loadMessages(sourceDomain, transactionHash);
+    }
+
+    const messages = this.messages.get(key);
+    if (!messages || messages.length === 0) {
+      return { status: 404, body: { error: 'Transaction hash not found' } };
+    }
+
+    const now = Date.now();
+    return {
+      status: 200,
+      body: {
+        messages: messages.map(entry => {
+          const complete = now - entry.attestedAt >= (this.options.attestationDelayMs || 0);
+          return {
+            message: entry.message,
+            eventNonce: entry.nonce,
+            attestation: complete ? entry.attestation : 'PENDING',
+            status: complete ? 'complete' : 'pending_confirmations',
+            cctpVersion: 2,
+          };
+        }),
+      },
+    };
+  }
+
+  /**
+   * Re-sign a message with a fresh expiration, as Circle does for expired fast messages
+   */
+  private reattest(nonce: string): MockIrisResponse {
+    for (const messages of this.messages.values()) {
+      const index = messages.findIndex(entry => entry.nonce.toLowerCase() === nonce.toLowerCase());
+      if (index > -1) {
+        const entry = messages[index];
+        const message = this.withExpiration(entry.message, 0);
+        messages[index] = { ...entry, message, attestation: this.sign(message), attestedAt: Date.now() };
+        return { status: 200, body: { message: 'Re-attestation successfully requested for nonce.', nonce } };
+      }
+    }
+    return { status: 404, body: { error: 'Nonce not found' } };
+  }
+
+  private async loadMessages(sourceDomain: number, transactionHash: string): Promise<void> {
+    const provider = this.options.providers?.[sourceDomain];
+    const receipt = provider && await provider.getTransactionReceipt(transactionHash);
+    if (!receipt) {
+      return;
+    }
+
+    const messageTransmitter = MessageTransmitterV2__factory.createInterface();
+    const topic = messageTransmitter.getEventTopic('MessageSent');
+    const messages = receipt.logs
+      .filter(log => log.topics[0] === topic)
+      .map((log, index) =>
+        this.attest(sourceDomain, transactionHash, messageTransmitter.parseLog(log).args.message, index)
+      );
+    this.messages.set(this.messageKey(sourceDomain, transactionHash), messages);
+  }
+
+  /**
+   * Fill in the nonce and executed finality of an emitted message and sign it
+   */
+  private attest(sourceDomain: number, transactionHash: string, emitted: string, index: number): MockMessage {
+    const nonce = ethers.utils.solidityKeccak256(['uint32', 'bytes32', 'uint256'], [sourceDomain, transactionHash, index]);
+    const decoded = decodeCCTPMessage(emitted);
+    const fast = decoded.minFinalityThreshold <= FINALITY_THRESHOLDS.fast;
+
+    let message = encodeCCTPMessage({
+      ...decoded,
+      nonce,
+      finalityThresholdExecuted: fast ? FINALITY_THRESHOLDS.fast : FINALITY_THRESHOLDS.standard,
+    });
+    if (fast) {
+      message = this.withExpiration(message, this.options.fastExpirationBlock || 0);
+    }
+
+    return { sourceDomain, transactionHash, nonce, message, attestation: this.sign(message), attestedAt: Date.now() };
+  }
+
+  private sign(message: string): string {
+    const digest = ethers.utils.keccak256(message);
+    return ethers.utils.hexConcat(
+      this.attesters.map(key => ethers.utils.joinSignature(key.signDigest(digest)))
+    );
+  }
+
+  private withExpiration(message: string, expirationBlock: number): string {
+    const decoded = decodeCCTPMessage(message);
+    const burnMessage = decodeBurnMessage(decoded.messageBody);
+    return encodeCCTPMessage({
+      ...decoded,
+      messageBody: encodeBurnMessage({ ...burnMessage, expirationBlock: ethers.BigNumber.from(expirationBlock) }),
+    });
+  }
+
+  private attesterAddress(key: ethers.utils.SigningKey): string {
+    return ethers.utils.computeAddress(key.publicKey);
+  }
+
+  private messageKey(sourceDomain: number, transactionHash: string): string {
+    return `${sourceDomain}:${transactionHash.toLowerCase()}`;
+  }
+}
@@ -0,0 +1,3 @@
+// Test helpers - not part of the main entry point, import from 'gasflow-sdk/dist/testing'
+export { MockIrisServer } from './MockIrisServer';
+export type { MockIrisServerOptions, MockIrisResponse } from './MockIrisServer';
@@ -4,9 +4,12 @@ export type ChainId = number;
 
 export type ExecutionMode = 'paymaster' | 'traditional' | 'auto';
 
+export type GasFlowEnvironment = 'mainnet' | 'testnet';
+
 export interface GasFlowConfig {
   apiKey: string;
   supportedChains: ChainId[];
+  environment?: GasFlowEnvironment; // Default: 'testnet'
   
   preferredChains?: ChainId[];
   maxBridgeAmount?: BigNumber;
@@ -23,6 +26,9 @@ export interface GasFlowConfig {
   
   // CCTP Configuration
   signers?: Map<ChainId, any>; // ethers.Signer instances
+  permitRouters?: Map<ChainId, string>; // CCTPPermitRouter per source chain - lets bridges approve USDC with a permit
+  irisApiUrl?: string; // Circle attestation API base URL (default: Circle's for the environment)
+  fastAllowanceRefreshMs?: number; // Refresh the Fast Transfer allowance in the background at this interval (default: off)
   
   // Alchemy Bundler Configuration
   alchemyApiKey?: string;
@@ -30,6 +36,18 @@ export interface GasFlowConfig {
   
   // CoinGecko API Configuration
   coinGeckoApiKey?: string;
+
+  // Execution journal storage (default: in-memory)
+  executionStorage?: StorageAdapter;
+
+  // Idempotency key storage (default: executionStorage)
+  idempotencyStorage?: StorageAdapter;
+
+  // Transaction history storage (default: history disabled)
+  historyStorage?: StorageAdapter;
+
+  // Structured logger (default: silent)
+  logger?: Logger;
 }
 
 export interface GasFlowTransaction {
@@ -41,8 +59,15 @@ export interface GasFlowTransaction {
   payFromChain?: ChainId | 'auto';
   maxGasCost?: BigNumber;
   urgency?: 'low' | 'medium' | 'high';
+  routeWeights?: Partial<RouteWeights>; // Route ranking - unset weights keep the default for urgency
   executeOn?: ChainId | 'optimal';
   transferMode?: CCTPTransferMode; // New: transfer mode for cross-chain bridges
+  idempotencyKey?: string; // Retries with the same key return the existing execution's result
+}
+
+export interface ExecuteOptions {
+  // Cancels route analysis, attestation polling and receipt waits
+  signal?: AbortSignal;
 }
 
 export interface GasFlowResult {
@@ -52,7 +77,19 @@ export interface GasFlowResult {
   gasPaymentChain: ChainId;
   totalCostUSDC: BigNumber;
   bridgeTransactionHash?: string;
+  bridgeTransactionHashes?: string[]; // Split-source routes: the burn on every source chain
   estimatedSavings?: BigNumber;
+  executionId?: string;
+  calls?: BatchCallResult[]; // Per-call results for executeBatch
+  bridgeSettlement?: BridgeSettlement; // What the bridge actually minted and charged
+}
+
+export interface BatchCallResult {
+  index: number;
+  to: string;
+  transactionHash: string; // Shared by all calls when executed as one UserOperation
+  status: 'pending' | 'success' | 'reverted';
+  gasUsed?: BigNumber;
 }
 
 export interface ChainConfig {
@@ -102,15 +139,49 @@ export interface RouteOption {
   gasCost: BigNumber;
   estimatedTime: number;
   savings?: BigNumber;
+  bridgeTime?: number; // Seconds of estimatedTime spent bridging - cross-chain routes only
+  transferMode?: 'fast' | 'standard'; // Cross-chain routes only
+  quote?: BridgeQuote; // Bridge quote the route was planned on - cross-chain routes only
+  allowanceReservationId?: string; // Fast Transfer allowance held for this route
+  sources?: RouteSource[]; // Split-source routes: one burn per chain, all minted on executeOnChain
+  reliability?: number; // 0-1: 1 pays on the execution chain, lower for bridges planned on fallback data
+  score?: number; // Weighted cost, time and reliability score the routes were ranked by
+}
+
+/**
+ * Relative importance of cost, ETA and reliability when ranking routes.
+ * Weights are normalized, so only their ratios matter.
+ */
+export interface RouteWeights {
+  cost: number;
+  time: number;
+  reliability: number;
+}
+
+/**
+ * One leg of a split-source route
+ */
+export interface RouteSource {
+  chainId: ChainId;
+  amount: BigNumber; // USDC burned on this chain
+  bridgeCost: BigNumber;
+  bridgeTime: number; // Seconds
+  transferMode: 'fast' | 'standard';
+  quote?: BridgeQuote;
+  allowanceReservationId?: string;
 }
 
 export type CCTPTransferMode = 'auto' | 'fast' | 'standard';
 
+// How the burn gets its USDC allowance: 'auto' signs a permit when the chain has a
+// permit router and the signer can sign typed data, else sends approve
+export type CCTPApprovalMethod = 'auto' | 'permit' | 'approve';
+
 export interface CCTPTransferParams {
   amount: BigNumber;
   fromChain: ChainId;
   toChain: ChainId;
-  recipient: string;
+  recipient: string; // EVM address, bytes32, or a base58 USDC token account when toChain is Solana
   transferMode?: CCTPTransferMode; // New: explicit transfer mode selection
   useFastTransfer?: boolean; // Deprecated: kept for backward compatibility
   signer?: any; // Ethers signer for transaction signing
@@ -120,6 +191,71 @@ export interface CCTPTransferParams {
   maxFee?: BigNumber;           // Default: calculated from bridge fee with buffer
   minFinalityThreshold?: number; // Default: determined by transferMode or useFastTransfer
   hookData?: string;            // Default: '0x' (empty bytes)
+  approval?: CCTPApprovalMethod; // Default: 'auto'
+  allowanceReservationId?: string; // Fast Transfer allowance reserved while planning - released once the burn is sent
+  quote?: BridgeQuote; // Burn with the fee, maxFee and finality of this quote's tier - fails once it expires
+
+  idempotencyKey?: string; // Retries with the same key return the existing burn instead of burning again
+  onProgress?: BridgeProgressListener; // Called as approval and burn transactions are sent and confirmed
+  signal?: AbortSignal; // Stops the transfer before its approval or burn is sent
+}
+
+/**
+ * Bridge a quote exactly as quoted: the tier is quote.recommended unless
+ * transferMode picks 'fast' or 'standard'
+ */
+export type QuotedTransferParams = Omit<
+  CCTPTransferParams,
+  'amount' | 'fromChain' | 'toChain' | 'maxFee' | 'minFinalityThreshold' | 'useFastTransfer' | 'quote'
+> & {
+  quote: BridgeQuote;
+};
+
+export interface BridgeQuoteTier {
+  transferMode: 'fast' | 'standard';
+  available: boolean; // Fast: the amount fits the Fast Transfer allowance
+  feeBps: number | null; // Circle's minimum fee, null when the fee schedule was unavailable
+  fee: BigNumber; // USDC units (6 decimals)
+  maxFee: BigNumber;
+  minFinalityThreshold: number;
+  estimatedTime: number; // Seconds
+}
+
+export interface BridgeQuote {
+  amount: BigNumber;
+  fromChain: ChainId;
+  toChain: ChainId;
+  fast: BridgeQuoteTier;
+  standard: BridgeQuoteTier;
+  recommended: 'fast' | 'standard';
+  feeSource: 'live' | 'fallback'; // Circle's fee schedule, or the per-chain estimate
+  allowanceSource: 'live' | 'fallback'; // Circle's Fast Transfer allowance, or the $1000 threshold
+  quotedAt: number; // Unix timestamp (ms)
+  validUntil: number; // Unix timestamp (ms)
+}
+
+export type BridgeProgressStep =
+  | 'approval_sent'
+  | 'approval_confirmed'
+  | 'burn_sent'
+  | 'burn_confirmed'
+  | 'attestation_pending'
+  | 'attestation_received'
+  | 'mint_sent'
+  | 'mint_confirmed';
+
+export interface BridgeProgress {
+  step: BridgeProgressStep;
+  chainId: ChainId;
+  transactionHash: string; // Burn transaction for attestation steps
+}
+
+export type BridgeProgressListener = (progress: BridgeProgress) => void;
+
+export interface BridgeWaitOptions {
+  signal?: AbortSignal;
+  onProgress?: BridgeProgressListener; // Called for attestation and mint steps
+  reattest?: boolean; // Default: true - re-attest an expired Fast Transfer message and retry the mint
 }
 
 export interface CCTPTransferResult {
@@ -130,6 +266,53 @@ export interface CCTPTransferResult {
   transferObject?: any; // Transfer object for tracking
 }
 
+export interface BridgeResult {
+  bridge: CCTPTransferResult;
+  destinationCompletion: 'sdk' | 'external';
+  mintTransactionHash?: string; // Missing when destinationCompletion is 'external'
+  settlement?: BridgeSettlement;
+  attestation?: BridgeAttestation; // 'external' only: receive it on the destination chain
+}
+
+/**
+ * Fee actually charged for a completed transfer, reconciled from the attested
+ * message's feeExecuted and the destination MintAndWithdraw event
+ */
+export interface BridgeSettlement {
+  amount: BigNumber; // Burned on the source chain
+  mintedAmount: BigNumber; // Received by the mint recipient
+  feeExecuted: BigNumber; // Fee Circle charged
+  maxFee: BigNumber; // Fee limit set on the burn
+  unusedMaxFee: BigNumber; // maxFee - feeExecuted
+  mintTransactionHash: string;
+}
+
+export type BridgeStatusValue = 'pending' | 'attested' | 'completed' | 'failed';
+
+export interface BridgeStatus {
+  status: BridgeStatusValue;
+  settlement?: BridgeSettlement; // Recorded once this SDK confirmed the mint
+  destinationCompletion?: 'sdk' | 'external'; // 'external': 'attested' is final, the message is received outside the SDK
+}
+
+export interface BridgeAndCallParams extends Omit<CCTPTransferParams, 'recipient' | 'destinationCaller' | 'hookData'> {
+  handler: string; // CCTPHookHandler on the destination chain - receives the mint and makes the call
+  target: string; // Contract called with the minted USDC
+  callData: string; // Calldata for target; the handler approves target for the minted amount first
+  fallbackRecipient: string; // Receives the USDC if the call reverts or leaves any unspent
+}
+
+export interface BridgeAndCallResult {
+  bridge: CCTPTransferResult;
+  mintTransactionHash: string; // relay() transaction - mint and call happen in the same transaction
+  call: {
+    target: string;
+    amount: BigNumber; // USDC minted to the handler, after the Circle fee
+    success: boolean;
+    result: string; // Return data, or revert data when the call failed
+  };
+}
+
 export interface PaymasterUserOperation {
   sender: string;
   nonce: BigNumber;
@@ -144,8 +327,33 @@ export interface PaymasterUserOperation {
   signature: string;
 }
 
+export type GasFlowErrorCode =
+  | 'INVALID_PARAMS'
+  | 'UNSUPPORTED_CHAIN'
+  | 'SIGNER_MISSING'
+  | 'USER_REJECTED'
+  | 'NO_ROUTE'
+  | 'INSUFFICIENT_BALANCE'
+  | 'ALLOWANCE_FAILED'
+  | 'BURN_REVERTED'
+  | 'MESSAGE_NOT_FOUND'
+  | 'TRANSACTION_NOT_FOUND'
+  | 'ATTESTATION_TIMEOUT'
+  | 'ATTESTATION_INVALID'
+  | 'ATTESTATION_EXPIRED'
+  | 'QUOTE_EXPIRED'
+  | 'MINT_REVERTED'
+  | 'PAYMASTER_REJECTED'
+  | 'BUNDLER_ERROR'
+  | 'GAS_ESTIMATION_FAILED'
+  | 'RPC_UNAVAILABLE'
+  | 'EXECUTION_REVERTED'
+  | 'EXECUTION_NOT_FOUND'
+  | 'EXECUTION_FAILED'
+  | 'CANCELLED';
+
 export interface GasFlowError {
-  code: string;
+  code: GasFlowErrorCode;
   message: string;
   chainId?: ChainId;
   transactionHash?: string;
@@ -157,10 +365,12 @@ export enum TransactionStatus {
   BRIDGING = 'bridging',
   EXECUTING = 'executing',
   COMPLETED = 'completed',
-  FAILED = 'failed'
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
 }
 
 export interface TransactionUpdate {
+  executionId?: string;
   status: TransactionStatus;
   transactionHash?: string;
   bridgeTransactionHash?: string;
@@ -171,8 +381,353 @@ export interface TransactionUpdate {
 
 export type EventListener = (update: TransactionUpdate) => void;
 
-export interface GasFlowEvents {
+/**
+ * Step-specific fields of each execution lifecycle event
+ */
+export interface ExecutionEventPayloads {
+  route_selected: { route: RouteOption };
+  approval_sent: { chainId: ChainId; transactionHash: string };
+  approval_confirmed: { chainId: ChainId; transactionHash: string };
+  burn_sent: { chainId: ChainId; transactionHash: string };
+  burn_confirmed: { chainId: ChainId; transactionHash: string };
+  attestation_pending: { chainId: ChainId; transactionHash: string };
+  attestation_received: { chainId: ChainId; transactionHash: string };
+  mint_sent: { chainId: ChainId; transactionHash: string };
+  mint_confirmed: { chainId: ChainId; transactionHash: string };
+  userop_submitted: { chainId: ChainId; userOpHash: string };
+  userop_included: { chainId: ChainId; userOpHash: string; transactionHash: string };
+  transaction_sent: { chainId: ChainId; transactionHash: string; callIndex?: number };
+  transaction_confirmed: { chainId: ChainId; transactionHash: string; callIndex?: number };
+  completed: { result: GasFlowResult };
+  failed: { step: ExecutionStep; error: GasFlowError };
+  cancelled: { step: ExecutionStep; error: GasFlowError };
+}
+
+export type ExecutionEventType = keyof ExecutionEventPayloads;
+
+export type ExecutionEvent<T extends ExecutionEventType = ExecutionEventType> = {
+  [K in T]: {
+    type: K;
+    executionId: string;
+    timestamp: Date;
+    elapsedMs: number;   // Since execute()/resume() was called
+    durationMs?: number; // For confirmations: time since the matching *_sent/*_submitted/*_pending event
+  } & ExecutionEventPayloads[K];
+}[T];
+
+export type ExecutionEventListeners = {
+  [K in ExecutionEventType]: (event: ExecutionEvent<K>) => void;
+};
+
+export interface GasFlowEvents extends ExecutionEventListeners {
   onTransactionUpdate: EventListener;
+  onExecutionEvent: (event: ExecutionEvent) => void; // Every lifecycle event
   onBalanceUpdate: (balance: UnifiedBalance) => void;
   onError: (error: GasFlowError) => void;
-}
\ No newline at end of file
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogContext = Record<string, unknown>;
+
+/**
+ * Leveled, structured logger. Any logger taking a message followed by a
+ * context object (e.g. winston) can be passed as-is.
+ */
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+/**
+ * Key-value storage used for persisted SDK state
+ */
+export interface StorageAdapter {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(prefix?: string): Promise<string[]>;
+}
+
+// Last completed step of an execution, in order
+export type ExecutionStep =
+  | 'created'
+  | 'route_selected'
+  | 'bridge_initiated'
+  | 'bridge_completed'
+  | 'execution_submitted'
+  | 'completed';
+
+export type ExecutionRecordStatus = 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface PersistedTransferObject {
+  messageHash: string;
+  message: string;
+  receipt?: {
+    transactionHash: string;
+    blockHash: string;
+    blockNumber: number;
+    status?: number;
+    logs: any[];
+  };
+}
+
+export interface ExecutionBridge {
+  fromChain?: ChainId; // Set on split-source legs
+  transactionHash: string;
+  transferObject?: PersistedTransferObject;
+  destinationTransactionHash?: string;
+  settlement?: BridgeSettlement;
+}
+
+export interface ExecutionRecord {
+  id: string;
+  status: ExecutionRecordStatus;
+  step: ExecutionStep;
+  transaction: GasFlowTransaction; // Combined transaction for batches
+  batch?: GasFlowTransaction[]; // Individual calls of an executeBatch execution
+  requestHash?: string; // hashCalls of every call - compared when an idempotency key is reused
+  userAddress: string;
+  route?: RouteOption;
+  bridge?: ExecutionBridge;
+  bridgeLegs?: ExecutionBridge[]; // Split-source routes: one per route source, in route order
+  execution?: {
+    mode: 'paymaster' | 'signer';
+    hash: string; // UserOperation hash (paymaster) or transaction hash (signer)
+    calls?: BatchCallResult[]; // Signer batches: one entry per submitted call
+  };
+  result?: GasFlowResult;
+  error?: GasFlowError;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type TrackedTransferStatus = 'pending' | 'attested' | 'failed';
+
+export interface BridgeAttestation {
+  message: string;
+  signature: string;
+}
+
+/**
+ * CCTP V2 message header. Addresses are bytes32 so non-EVM domains fit;
+ * nonce and finalityThresholdExecuted are zero until Circle attests.
+ */
+export interface CCTPMessage {
+  version: number;
+  sourceDomain: number;
+  destinationDomain: number;
+  nonce: string; // bytes32
+  sender: string; // bytes32
+  recipient: string; // bytes32
+  destinationCaller: string; // bytes32, zero when anyone may receive the message
+  minFinalityThreshold: number;
+  finalityThresholdExecuted: number;
+  messageBody: string;
+}
+
+/**
+ * CCTP V2 BurnMessage - the messageBody of a USDC transfer
+ */
+export interface BurnMessage {
+  version: number;
+  burnToken: string; // bytes32
+  mintRecipient: string; // bytes32
+  amount: BigNumber;
+  messageSender: string; // bytes32
+  maxFee: BigNumber;
+  feeExecuted: BigNumber;
+  expirationBlock: BigNumber; // Zero when the attestation does not expire
+  hookData: string;
+}
+
+/**
+ * A mint recipient encoded for depositForBurn
+ */
+export interface MintRecipient {
+  format: 'evm' | 'solana' | 'bytes32'; // How the recipient was given
+  bytes32: string;
+}
+
+/**
+ * A CCTP transfer watched by BridgeTracker, persisted so tracking survives restarts
+ */
+export interface TrackedTransfer {
+  transactionHash: string; // Burn transaction on the source chain
+  fromChain: ChainId;
+  toChain: ChainId;
+  transferMode: Exclude<CCTPTransferMode, 'auto'>; // Selects the polling backoff
+  destinationCompletion?: 'sdk' | 'external'; // 'external': non-EVM destination, the SDK stops at the attestation
+  status: TrackedTransferStatus;
+  transferObject?: PersistedTransferObject;
+  attestation?: BridgeAttestation;
+  irisStatus?: string; // Last status reported by the attestation API
+  error?: GasFlowError;
+  attempts: number;
+  nextPollAt: number;
+  timeoutMs: number;
+  trackedAt: number;
+  updatedAt: number;
+}
+
+export interface TrackOptions {
+  transferObject?: PersistedTransferObject;
+  transferMode?: CCTPTransferMode; // Default: read from the burn message, else standard
+  timeoutMs?: number; // Default: 20 minutes
+}
+
+export interface BridgeTransferEvents {
+  status: (transfer: TrackedTransfer) => void;
+  attested: (transfer: TrackedTransfer) => void;
+  failed: (transfer: TrackedTransfer) => void;
+}
+
+export interface FastTransferAllowance {
+  allowance: BigNumber; // USDC units (6 decimals), as reported by Circle or the fallback threshold
+  available: BigNumber; // allowance minus outstanding reservations
+  source: 'live' | 'fallback';
+  fetchedAt: number; // Unix timestamp (ms)
+  lastUpdated?: string; // Circle's own timestamp, live values only
+}
+
+export interface AllowanceReservation {
+  id: string;
+  amount: BigNumber;
+  expiresAt: number; // Unix timestamp (ms)
+}
+
+export interface FastTransferAllowanceEvents {
+  change: (current: FastTransferAllowance, previous: FastTransferAllowance | null) => void;
+}
+
+export interface RebalanceTarget {
+  min: BigNumber; // Rebalance the chain when its balance is below this
+  target: BigNumber; // Balance to top up to, and the most a source chain keeps
+}
+
+export interface RebalanceParams {
+  address: string; // Holder of the balances - the configured signers must control it
+  targets: Partial<Record<ChainId, RebalanceTarget>>; // Only these chains send or receive USDC
+  dryRun?: boolean; // Plan and report without bridging
+  maxFastFee?: BigNumber; // Use Fast Transfer when its fee is at most this (default: 0.01 USDC)
+}
+
+export type RebalanceTransferStatus = 'planned' | 'bridging' | 'completed' | 'failed' | 'cancelled';
+
+export interface RebalanceTransfer {
+  fromChain: ChainId;
+  toChain: ChainId;
+  amount: BigNumber;
+  transferMode: 'fast' | 'standard';
+  bridgeFee: BigNumber; // Quoted
+  estimatedTime: number; // Seconds
+  status: RebalanceTransferStatus;
+  transactionHash?: string; // Burn
+  mintTransactionHash?: string;
+  settlement?: BridgeSettlement;
+  error?: GasFlowError;
+}
+
+export type RebalanceJobStatus = 'planned' | 'running' | 'completed' | 'partial' | 'failed' | 'cancelled';
+
+export interface RebalanceJob {
+  id: string;
+  address: string;
+  dryRun: boolean;
+  status: RebalanceJobStatus;
+  transfers: RebalanceTransfer[];
+  balancesBefore: Partial<Record<ChainId, BigNumber>>;
+  projectedBalances: Partial<Record<ChainId, BigNumber>>; // After the planned transfers, net of quoted fees
+  balancesAfter?: Partial<Record<ChainId, BigNumber>>; // Read once every transfer has finished
+  unmet: ChainId[]; // Chains still below min after the plan - not enough surplus elsewhere
+  totalFees: BigNumber; // Quoted fees, or settled fees once transfers complete
+  createdAt: number;
+  finishedAt?: number;
+}
+
+export type HistoryEntryStatus = Exclude<ExecutionRecordStatus, 'in_progress'>;
+
+/**
+ * A bridge made on its own rather than to pay for an execution: bridge(),
+ * bridgeAndCall(), completeTransfer() and rebalance transfers
+ */
+export interface BridgeHistoryRecord {
+  status: HistoryEntryStatus;
+  userAddress: string;
+  fromChain: ChainId;
+  toChain: ChainId;
+  transactionHash?: string; // Burn - missing if it was never sent
+  mintTransactionHash?: string;
+  bridgeFee?: BigNumber; // Quoted fee, superseded by settlement.feeExecuted
+  settlement?: BridgeSettlement;
+  error?: GasFlowError;
+  createdAt: number;
+}
+
+export interface HistoryEntry {
+  id: string; // Execution ID, or the burn transaction hash of a bridge
+  kind: 'execution' | 'bridge';
+  status: HistoryEntryStatus;
+  userAddress: string;
+  executedOnChain?: ChainId;
+  gasPaymentChain?: ChainId;
+  route?: RouteOption;
+  totalCostUSDC?: BigNumber;
+  bridgeCostUSDC?: BigNumber;
+  gasUsed?: BigNumber;
+  transactionHash?: string; // Destination transaction
+  bridgeTransactionHash?: string; // Burn on the payment chain
+  bridgeDestinationTransactionHash?: string; // Mint on the execution chain
+  error?: GasFlowError;
+  createdAt: number;
+  finishedAt: number;
+}
+
+export interface HistoryQuery {
+  address?: string;
+  chainId?: ChainId; // Matches the execution or the gas payment chain
+  status?: HistoryEntryStatus | HistoryEntryStatus[];
+  from?: Date | number; // Inclusive, on createdAt
+  to?: Date | number; // Inclusive, on createdAt
+  limit?: number;
+}
+
+export type SimulationStepType =
+  | 'approve'
+  | 'depositForBurn'
+  | 'receiveMessage'
+  | 'userOperation'
+  | 'transaction';
+
+export interface SimulationStep {
+  type: SimulationStepType;
+  chainId: ChainId;
+  to: string;
+  data: string;
+  value?: BigNumber;
+  description: string;
+  estimatedGas?: BigNumber;
+  feeUSDC?: BigNumber; // Protocol fee charged by the step (e.g. CCTP bridge fee)
+  estimatedCostUSDC?: BigNumber; // Gas cost in USDC plus feeUSDC
+  userOperation?: Record<string, string>; // Prepared (unsigned) UserOperation
+  error?: string;
+}
+
+export interface BridgeSimulation {
+  steps: SimulationStep[];
+  preflightErrors: string[];
+  transferMode?: 'fast' | 'standard';
+  bridgeFee?: BigNumber;
+  maxFee?: BigNumber;
+  minFinalityThreshold?: number;
+}
+
+export interface SimulationResult {
+  route?: RouteOption;
+  steps: SimulationStep[];
+  totalEstimatedCostUSDC: BigNumber;
+  preflightErrors: string[];
+  canExecute: boolean;
+}
@@ -0,0 +1,73 @@
+import { CancelledError } from '../errors';
+
+function toCancelledError(signal: AbortSignal): CancelledError {
+  const reason = (signal as any).reason;
+  if (reason instanceof CancelledError) {
+    return reason;
+  }
+  const message = reason instanceof Error ? reason.message : 'Operation cancelled';
+  return new CancelledError(message, { cause: reason });
+}
+
+/**
+ * Throw a CancelledError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw toCancelledError(signal);
+  }
+}
+
+/**
+ * Wait for the given time. Rejects with a CancelledError and clears the
+ * timer as soon as the signal aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(toCancelledError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toCancelledError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Settle with the promise, or reject with a CancelledError as soon as the
+ * signal aborts. The underlying work is not interrupted - use this for calls
+ * that don't accept a signal themselves.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(toCancelledError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(toCancelledError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
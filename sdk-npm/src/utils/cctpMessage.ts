@@ -0,0 +1,163 @@
+import { BigNumber, BytesLike, ethers } from 'ethers';
+import { BurnMessage, CCTPMessage } from '../types';
+import { InvalidParamsError } from '../errors';
+
+// Fixed-size parts of the CCTP V2 message and BurnMessage layouts, in bytes
+const MESSAGE_HEADER_LENGTH = 148;
+const BURN_MESSAGE_HEADER_LENGTH = 228;
+
+export const MESSAGE_OFFSETS = {
+  version: 0,
+  sourceDomain: 4,
+  destinationDomain: 8,
+  nonce: 12,
+  sender: 44,
+  recipient: 76,
+  destinationCaller: 108,
+  minFinalityThreshold: 140,
+  finalityThresholdExecuted: 144,
+  messageBody: MESSAGE_HEADER_LENGTH,
+};
+
+export const BURN_MESSAGE_OFFSETS = {
+  version: 0,
+  burnToken: 4,
+  mintRecipient: 36,
+  amount: 68,
+  messageSender: 100,
+  maxFee: 132,
+  feeExecuted: 164,
+  expirationBlock: 196,
+  hookData: BURN_MESSAGE_HEADER_LENGTH,
+};
+
+/**
+ * Decode a CCTP V2 message, as emitted by MessageSent or returned by Iris
+ */
+export function decodeCCTPMessage(message: BytesLike): CCTPMessage {
+  const data = ethers.utils.hexlify(message);
+  assertLength(data, MESSAGE_HEADER_LENGTH, 'CCTP message');
+
+  return {
+    version: readUint(data, MESSAGE_OFFSETS.version, 4).toNumber(),
+    sourceDomain: readUint(data, MESSAGE_OFFSETS.sourceDomain, 4).toNumber(),
+    destinationDomain: readUint(data, MESSAGE_OFFSETS.destinationDomain, 4).toNumber(),
+    nonce: readBytes32(data, MESSAGE_OFFSETS.nonce),
+    sender: readBytes32(data, MESSAGE_OFFSETS.sender),
+    recipient: readBytes32(data, MESSAGE_OFFSETS.recipient),
+    destinationCaller: readBytes32(data, MESSAGE_OFFSETS.destinationCaller),
+    minFinalityThreshold: readUint(data, MESSAGE_OFFSETS.minFinalityThreshold, 4).toNumber(),
+    finalityThresholdExecuted: readUint(data, MESSAGE_OFFSETS.finalityThresholdExecuted, 4).toNumber(),
+    messageBody: ethers.utils.hexDataSlice(data, MESSAGE_OFFSETS.messageBody),
+  };
+}
+
+export function encodeCCTPMessage(message: CCTPMessage): string {
+  return ethers.utils.solidityPack(
+    ['uint32', 'uint32', 'uint32', 'bytes32', 'bytes32', 'bytes32', 'bytes32', 'uint32', 'uint32', 'bytes'],
+    [
+      message.version,
+      message.sourceDomain,
+      message.destinationDomain,
+      message.nonce,
+      message.sender,
+      message.recipient,
+      message.destinationCaller,
+      message.minFinalityThreshold,
+      message.finalityThresholdExecuted,
+      message.messageBody,
+    ]
+  );
+}
+
+/**
+ * Decode the BurnMessage carried in the body of a USDC transfer message
+ */
+export function decodeBurnMessage(messageBody: BytesLike): BurnMessage {
+  const data = ethers.utils.hexlify(messageBody);
+  assertLength(data, BURN_MESSAGE_HEADER_LENGTH, 'BurnMessage');
+
+  return {
+    version: readUint(data, BURN_MESSAGE_OFFSETS.version, 4).toNumber(),
+    burnToken: readBytes32(data, BURN_MESSAGE_OFFSETS.burnToken),
+    mintRecipient: readBytes32(data, BURN_MESSAGE_OFFSETS.mintRecipient),
+    amount: readUint(data, BURN_MESSAGE_OFFSETS.amount, 32),
+    messageSender: readBytes32(data, BURN_MESSAGE_OFFSETS.messageSender),
+    maxFee: readUint(data, BURN_MESSAGE_OFFSETS.maxFee, 32),
+    feeExecuted: readUint(data, BURN_MESSAGE_OFFSETS.feeExecuted, 32),
+    expirationBlock: readUint(data, BURN_MESSAGE_OFFSETS.expirationBlock, 32),
+    hookData: ethers.utils.hexDataSlice(data, BURN_MESSAGE_OFFSETS.hookData),
+  };
+}
+
+export function encodeBurnMessage(burnMessage: BurnMessage): string {
+  return ethers.utils.solidityPack(
+    ['uint32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'uint256', 'uint256', 'uint256', 'bytes'],
+    [
+      burnMessage.version,
+      burnMessage.burnToken,
+      burnMessage.mintRecipient,
+      burnMessage.amount,
+      burnMessage.messageSender,
+      burnMessage.maxFee,
+      burnMessage.feeExecuted,
+      burnMessage.expirationBlock,
+      burnMessage.hookData,
+    ]
+  );
+}
+
+/**
+ * Whether attested is the emitted message as Circle attests it: equal but for
+ * the nonce, executed finality, fee and expiration Circle fills in. Lets the
+ * one message of a burn be picked out of a transaction that sent several.
+ */
+export function matchesEmittedMessage(attested: BytesLike, emitted: BytesLike): boolean {
+  try {
+    return withoutAttestedFields(attested) === withoutAttestedFields(emitted);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * EVM address held in a bytes32 message field
+ */
+export function bytes32ToAddress(value: string): string {
+  return ethers.utils.getAddress(ethers.utils.hexDataSlice(value, 12));
+}
+
+function withoutAttestedFields(message: BytesLike): string {
+  const decoded = decodeCCTPMessage(message);
+  let messageBody = decoded.messageBody;
+  if (ethers.utils.hexDataLength(messageBody) >= BURN_MESSAGE_HEADER_LENGTH) {
+    messageBody = encodeBurnMessage({
+      ...decodeBurnMessage(messageBody),
+      feeExecuted: BigNumber.from(0),
+      expirationBlock: BigNumber.from(0),
+    });
+  }
+
+  return encodeCCTPMessage({
+    ...decoded,
+    nonce: ethers.constants.HashZero,
+    finalityThresholdExecuted: 0,
+    messageBody,
+  }).toLowerCase();
+}
+
+function readUint(data: string, offset: number, length: number): BigNumber {
+  return BigNumber.from(ethers.utils.hexDataSlice(data, offset, offset + length));
+}
+
+function readBytes32(data: string, offset: number): string {
+  return ethers.utils.hexDataSlice(data, offset, offset + 32);
+}
+
+function assertLength(data: string, minimum: number, name: string): void {
+  if (ethers.utils.hexDataLength(data) < minimum) {
+    throw new InvalidParamsError(
+      `${name} is ${ethers.utils.hexDataLength(data)} bytes, expected at least ${minimum}`
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { ScopedLogger } from './logger';
+
+type ListenerMap<Events> = { [K in keyof Events]: (...args: any[]) => void };
+
+/**
+ * Minimal typed event emitter. Listener errors are logged and never
+ * propagate into the operation that emitted the event.
+ */
+export class TypedEventEmitter<Events extends ListenerMap<Events>> {
+  private listeners: Map<keyof Events, Array<Events[keyof Events]>> = new Map();
+
+  constructor(private logger: ScopedLogger = new ScopedLogger()) {}
+
+  on<K extends keyof Events>(event: K, listener: Events[K]): void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, []);
+    }
+    this.listeners.get(event)!.push(listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  emit<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+
+    // Copy so listeners may unsubscribe while being called
+    for (const listener of [...listeners]) {
+      try {
+        listener(...args);
+      } catch (error) {
+        this.logger.warn('Event listener threw', { event: String(event), error });
+      }
+    }
+  }
+
+  listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.length || 0;
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,59 @@
+import { BigNumber, utils } from 'ethers';
+import { GasFlowTransaction, StorageAdapter } from '../types';
+import { MemoryStorageAdapter } from '../storage';
+import { serialize, deserialize } from './serialization';
+
+/**
+ * Remembers keyed operations so a retried call can return the in-flight or
+ * recorded result instead of submitting again. Values are persisted through
+ * the storage adapter; in-flight promises are shared within this process.
+ */
+export class IdempotencyStore {
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private storage: StorageAdapter = new MemoryStorageAdapter(),
+    private prefix: string = 'idempotency:'
+  ) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    const json = await this.storage.get(this.prefix + key);
+    return json ? deserialize<T>(json) : null;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await this.storage.set(this.prefix + key, serialize(value));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.storage.delete(this.prefix + key);
+  }
+
+  /**
+   * Run the operation unless one with the same key is already running, in
+   * which case its promise is returned
+   */
+  dedupe<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    const running = this.inFlight.get(key);
+    if (running) {
+      return running as Promise<T>;
+    }
+
+    const promise = operation().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+}
+
+/**
+ * Fingerprint of the calls an execution makes - every call's to, data and
+ * value, in order - so a reused idempotency key can be told apart from a
+ * retry of the same request
+ */
+export function hashCalls(calls: GasFlowTransaction[]): string {
+  return utils.id(JSON.stringify(calls.map(call => [
+    call.to.toLowerCase(),
+    (call.data || '0x').toLowerCase(),
+    BigNumber.from(call.value || 0).toString(),
+  ])));
+}
@@ -0,0 +1,155 @@
+import { LogContext, LogLevel, Logger } from '../types';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const REDACTED = '[REDACTED]';
+
+// Context keys whose values are never logged
+const SENSITIVE_KEY = /private.?key|api.?key|secret|password|mnemonic|authorization/i;
+
+// Alchemy embeds the API key in the URL path, other providers in the query string
+const URL_SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/(alchemy\.com\/v2\/)[^/?#\s"']+/gi, `$1${REDACTED}`],
+  [/([?&](?:[\w-]*api[_-]?key|key|token)=)[^&#\s"']+/gi, `$1${REDACTED}`],
+];
+
+const MAX_DEPTH = 5;
+
+/**
+ * Logger that discards everything. Used when no logger is configured.
+ */
+export const silentLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+};
+
+/**
+ * Console-backed logger for local development
+ */
+export function createConsoleLogger(minLevel: LogLevel = 'info'): Logger {
+  const write = (level: LogLevel) => (message: string, context?: LogContext) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) {
+      return;
+    }
+    const line = `[gasflow] ${message}`;
+    if (context && Object.keys(context).length > 0) {
+      console[level](line, context);
+    } else {
+      console[level](line);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Logger used inside the SDK. Adds bound context (e.g. the module name) to
+ * every entry and scrubs secrets before handing it to the configured logger.
+ */
+export class ScopedLogger implements Logger {
+  constructor(
+    private target: Logger = silentLogger,
+    private bindings: LogContext = {},
+    private secrets: string[] = []
+  ) {}
+
+  /**
+   * Logger for a sub-module, inheriting this logger's bindings
+   */
+  child(bindings: LogContext): ScopedLogger {
+    return new ScopedLogger(this.target, { ...this.bindings, ...bindings }, this.secrets);
+  }
+
+  debug(message: string, context?: LogContext): void {
+    this.write('debug', message, context);
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.write('info', message, context);
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.write('warn', message, context);
+  }
+
+  error(message: string, context?: LogContext): void {
+    this.write('error', message, context);
+  }
+
+  private write(level: LogLevel, message: string, context?: LogContext): void {
+    try {
+      this.target[level](
+        this.redactString(message),
+        this.redactValue({ ...this.bindings, ...context }, 0) as LogContext
+      );
+    } catch {
+      // A failing logger must never break an SDK operation
+    }
+  }
+
+  private redactString(value: string): string {
+    let result = value;
+    for (const [pattern, replacement] of URL_SECRET_PATTERNS) {
+      result = result.replace(pattern, replacement);
+    }
+    for (const secret of this.secrets) {
+      result = result.split(secret).join(REDACTED);
+    }
+    return result;
+  }
+
+  private redactValue(value: unknown, depth: number): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+
+    if (value instanceof Error) {
+      return {
+        name: value.name,
+        message: this.redactString(value.message),
+        ...((value as any).code !== undefined && { code: (value as any).code }),
+      };
+    }
+
+    if (depth >= MAX_DEPTH || value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, depth + 1));
+    }
+
+    // Class instances (BigNumber, providers, ...) are passed through untouched
+    if (Object.getPrototypeOf(value) !== Object.prototype) {
+      return value;
+    }
+
+    const result: LogContext = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = SENSITIVE_KEY.test(key) ? REDACTED : this.redactValue(item, depth + 1);
+    }
+    return result;
+  }
+}
+
+/**
+ * Wrap a user supplied logger. Secret values (API keys) are redacted from
+ * every message and context string.
+ */
+export function createLogger(logger?: Logger, secrets: Array<string | undefined> = []): ScopedLogger {
+  // Very short values would redact unrelated text
+  const redactable = secrets.filter((secret): secret is string => !!secret && secret.length >= 8);
+  return new ScopedLogger(logger ?? silentLogger, {}, redactable);
+}
@@ -0,0 +1,64 @@
+import { BigNumber, Signer, ethers } from 'ethers';
+import type { TypedDataSigner } from '@ethersproject/abstract-signer';
+import { USDC__factory } from '../contracts';
+
+/**
+ * EIP-2612 Permit struct
+ */
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+// Native USDC (FiatToken v2+) EIP-712 domain version
+export const USDC_PERMIT_VERSION = '2';
+
+export const PERMIT_VALIDITY_SECONDS = 3600;
+
+export interface SignedPermit {
+  owner: string;
+  spender: string;
+  value: BigNumber;
+  deadline: BigNumber;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Whether the signer can produce EIP-712 signatures
+ */
+export function canSignTypedData(signer: Signer): signer is Signer & TypedDataSigner {
+  return typeof (signer as Partial<TypedDataSigner>)._signTypedData === 'function';
+}
+
+/**
+ * Sign a USDC permit letting spender pull value from the signer. The domain
+ * name is read from the token since it differs between deployments.
+ */
+export async function signUSDCPermit(
+  signer: Signer & TypedDataSigner,
+  token: string,
+  spender: string,
+  value: BigNumber,
+  chainId: number
+): Promise<SignedPermit> {
+  const usdc = USDC__factory.connect(token, signer);
+  const owner = await signer.getAddress();
+  const [name, nonce] = await Promise.all([usdc.name(), usdc.nonces(owner)]);
+  const deadline = BigNumber.from(Math.floor(Date.now() / 1000) + PERMIT_VALIDITY_SECONDS);
+
+  const signature = await signer._signTypedData(
+    { name, version: USDC_PERMIT_VERSION, chainId, verifyingContract: token },
+    PERMIT_TYPES,
+    { owner, spender, value, nonce, deadline }
+  );
+  const { v, r, s } = ethers.utils.splitSignature(signature);
+
+  return { owner, spender, value, deadline, v, r, s };
+}
@@ -0,0 +1,133 @@
+import { ethers } from 'ethers';
+import { MintRecipient } from '../types';
+import { InvalidParamsError } from '../errors';
+import { SOLANA_CCTP_DOMAIN, SOLANA_USDC_MINTS, isNonEvmDomain } from '../contracts/addresses';
+
+// SPL Token and Associated Token Account programs
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+
+const PDA_MARKER = ethers.utils.toUtf8Bytes('ProgramDerivedAddress');
+
+// Curve25519 field prime and the ed25519 curve constant d
+const P = 2n ** 255n - 19n;
+const D = mod(-121665n * modPow(121666n, P - 2n));
+
+/**
+ * Encode a mint recipient for depositForBurn on the destination domain: a
+ * 0x-prefixed bytes32 value is used as is, EVM domains take a 20-byte
+ * address and Solana takes a base58 account - the USDC token account that
+ * receives the mint, see getSolanaUSDCTokenAccount.
+ */
+export function encodeMintRecipient(recipient: string, destinationDomain: number): MintRecipient {
+  if (ethers.utils.isHexString(recipient, 32)) {
+    if (/^0x0{64}$/.test(recipient)) {
+      throw new InvalidParamsError('Mint recipient cannot be zero');
+    }
+    return { format: 'bytes32', bytes32: recipient.toLowerCase() };
+  }
+
+  if (destinationDomain === SOLANA_CCTP_DOMAIN) {
+    return { format: 'solana', bytes32: solanaAddressToBytes32(recipient) };
+  }
+
+  if (isNonEvmDomain(destinationDomain)) {
+    throw new InvalidParamsError(`Recipients on CCTP domain ${destinationDomain} must be given as bytes32`);
+  }
+  if (!ethers.utils.isAddress(recipient)) {
+    throw new InvalidParamsError('Invalid recipient address');
+  }
+  return { format: 'evm', bytes32: ethers.utils.hexZeroPad(ethers.utils.getAddress(recipient), 32) };
+}
+
+/**
+ * 32-byte Solana account from its base58 address
+ */
+export function solanaAddressToBytes32(address: string): string {
+  let bytes: Uint8Array;
+  try {
+    bytes = ethers.utils.base58.decode(address);
+  } catch (error) {
+    throw new InvalidParamsError(`Invalid Solana address: ${address}`, { cause: error });
+  }
+  if (bytes.length !== 32) {
+    throw new InvalidParamsError(`Solana address ${address} is ${bytes.length} bytes, expected 32`);
+  }
+  return ethers.utils.hexlify(bytes);
+}
+
+export function bytes32ToSolanaAddress(value: string): string {
+  if (!ethers.utils.isHexString(value, 32)) {
+    throw new InvalidParamsError(`Expected a bytes32 value, got ${value}`);
+  }
+  return ethers.utils.base58.encode(value);
+}
+
+/**
+ * Associated USDC token account of a Solana wallet - the account CCTP mints
+ * to. The account must exist before the message is received on Solana.
+ */
+export function getSolanaUSDCTokenAccount(owner: string, isTestnet: boolean = true): string {
+  const mint = isTestnet ? SOLANA_USDC_MINTS.devnet : SOLANA_USDC_MINTS.mainnet;
+  return findProgramAddress(
+    [solanaAddressToBytes32(owner), solanaAddressToBytes32(TOKEN_PROGRAM_ID), solanaAddressToBytes32(mint)],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+}
+
+/**
+ * Solana's findProgramAddress: the first bump seed, counting down from 255,
+ * whose hash is not an ed25519 public key
+ */
+function findProgramAddress(seeds: string[], programId: string): string {
+  const program = solanaAddressToBytes32(programId);
+  for (let bump = 255; bump >= 0; bump--) {
+    const hash = ethers.utils.sha256(ethers.utils.concat([...seeds, [bump], program, PDA_MARKER]));
+    if (!isOnCurve(ethers.utils.arrayify(hash))) {
+      return ethers.utils.base58.encode(hash);
+    }
+  }
+  throw new InvalidParamsError(`No program address found for program ${programId}`);
+}
+
+/**
+ * Whether 32 bytes decode to an ed25519 point: y is stored little-endian
+ * with the sign of x in the top bit, and x^2 = (y^2 - 1) / (d * y^2 + 1)
+ * must have a square root
+ */
+function isOnCurve(bytes: Uint8Array): boolean {
+  const xOdd = (bytes[31] & 0x80) !== 0;
+  let y = 0n;
+  for (let i = 31; i >= 0; i--) {
+    y = (y << 8n) | BigInt(i === 31 ? bytes[i] & 0x7f : bytes[i]);
+  }
+  if (y >= P) {
+    return false;
+  }
+
+  const y2 = mod(y * y);
+  const x2 = mod((y2 - 1n) * modPow(mod(D * y2 + 1n), P - 2n));
+  if (x2 === 0n) {
+    return !xOdd;
+  }
+  return modPow(x2, (P - 1n) / 2n) === 1n;
+}
+
+function mod(value: bigint): bigint {
+  const result = value % P;
+  return result >= 0n ? result : result + P;
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = mod(result * b);
+    }
+    b = mod(b * b);
+    e >>= 1n;
+  }
+  return result;
+}
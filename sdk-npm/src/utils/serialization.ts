@@ -0,0 +1,39 @@
+import { BigNumber } from 'ethers';
+
+interface SerializedBigNumber {
+  type: 'BigNumber';
+  hex: string;
+}
+
+function isSerializedBigNumber(value: any): value is SerializedBigNumber {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    value.type === 'BigNumber' &&
+    typeof value.hex === 'string'
+  );
+}
+
+/**
+ * Serialize SDK objects to JSON, preserving BigNumber and bigint values
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (typeof val === 'bigint') {
+      return { type: 'BigNumber', hex: BigNumber.from(val.toString()).toHexString() };
+    }
+    return val;
+  });
+}
+
+/**
+ * Parse JSON produced by serialize(), reviving BigNumber values
+ */
+export function deserialize<T>(json: string): T {
+  return JSON.parse(json, (_key, val) => {
+    if (isSerializedBigNumber(val)) {
+      return BigNumber.from(val.hex);
+    }
+    return val;
+  });
+}
@@ -0,0 +1,34 @@
+import { BigNumber, ethers } from 'ethers';
+import { MockIrisServer } from '../src/testing';
+import { BridgeTracker } from '../src/services/BridgeTracker';
+import { decodeBurnMessage, decodeCCTPMessage } from '../src/utils/cctpMessage';
+import { BASE_SEPOLIA, SEPOLIA, emittedBurnMessage, randomHash } from './helpers';
+
+describe('BridgeTracker', () => {
+  let mock: MockIrisServer;
+  let tracker: BridgeTracker;
+
+  beforeEach(async () => {
+    mock = new MockIrisServer();
+    tracker = new BridgeTracker(true, undefined, undefined, await mock.listen());
+  });
+
+  afterEach(async () => {
+    tracker.stop();
+    await mock.close();
+  });
+
+  it('picks the attestation of the tracked message from a transaction that sent several', async () => {
+    const transactionHash = randomHash();
+    const emitted = emittedBurnMessage({ amount: BigNumber.from(2000000) });
+    mock.addMessage(0, transactionHash, emittedBurnMessage({ amount: BigNumber.from(1000000) }));
+    mock.addMessage(0, transactionHash, emitted);
+
+    const transfer = await tracker.track(transactionHash, SEPOLIA, BASE_SEPOLIA, {
+      transferObject: { messageHash: ethers.utils.keccak256(emitted), message: emitted },
+    });
+    const attestation = await transfer.wait();
+
+    expect(decodeBurnMessage(decodeCCTPMessage(attestation.message).messageBody).amount.toNumber()).toBe(2000000);
+  });
+});
@@ -0,0 +1,505 @@
+import { BigNumber, ethers } from 'ethers';
+import { getCCTPAddresses, getCCTPDomain } from '../src/contracts';
+import { MessageTransmitterV2__factory, TokenMessengerV2__factory, USDC__factory } from '../src/contracts/types';
+
+interface Log {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+interface State {
+  balances: Map<string, bigint>;
+  allowances: Map<string, bigint>;
+  usedNonces: Set<string>;
+}
+
+interface Receipt {
+  transactionHash: string;
+  blockNumber: number;
+  from: string;
+  to: string | null;
+  status: number;
+  logs: Log[];
+}
+
+interface Call {
+  from: string;
+  to: string;
+  data: string;
+}
+
+class Revert extends Error {}
+
+const usdcInterface = USDC__factory.createInterface();
+const tokenMessengerInterface = TokenMessengerV2__factory.createInterface();
+const messageTransmitterInterface = MessageTransmitterV2__factory.createInterface();
+
+const GAS_PRICE = ethers.utils.parseUnits('1', 'gwei');
+
+/**
+ * In-memory EVM chain answering JSON-RPC for the CCTP contracts the SDK talks
+ * to: USDC, TokenMessengerV2 and MessageTransmitterV2 at the chain's testnet
+ * addresses. Every transaction is mined into its own block right away;
+ * transactions to other addresses succeed without effect. Connect wallets to
+ * it and hand them to the SDK as signers.
+ */
+export class FakeChain extends ethers.providers.JsonRpcProvider {
+  readonly domain: number;
+  readonly addresses: ReturnType<typeof getCCTPAddresses>;
+  readonly transactions: Array<ethers.Transaction & { from: string }> = [];
+
+  private state: State = { balances: new Map(), allowances: new Map(), usedNonces: new Set() };
+  private receipts: Map<string, Receipt> = new Map();
+  private nonces: Map<string, number> = new Map();
+  private attesters: Set<string> = new Set();
+  private reverts: Map<string, string> = new Map();
+  private head = 100;
+
+  constructor(readonly chainId: number) {
+    super(`http://fake-chain.invalid/${chainId}`, { chainId, name: `fake-${chainId}` });
+    this.domain = getCCTPDomain(chainId);
+    this.addresses = getCCTPAddresses(chainId, true);
+    this.pollingInterval = 10;
+  }
+
+  /**
+   * Attesters whose signatures receiveMessage accepts - all of them must sign
+   */
+  enableAttesters(addresses: string[]): void {
+    addresses.forEach(address => this.attesters.add(address.toLowerCase()));
+  }
+
+  mintUSDC(owner: string, amount: BigNumber): void {
+    this.credit(this.state, owner, amount.toBigInt());
+  }
+
+  approveUSDC(owner: string, spender: string, amount: BigNumber): void {
+    this.state.allowances.set(this.allowanceKey(owner, spender), amount.toBigInt());
+  }
+
+  usdcBalance(owner: string): BigNumber {
+    return BigNumber.from(this.state.balances.get(owner.toLowerCase()) || 0n);
+  }
+
+  /**
+   * Make every transaction to an address revert with reason
+   */
+  revertCallsTo(address: string, reason: string): void {
+    this.reverts.set(address.toLowerCase(), reason);
+  }
+
+  get burns(): Array<ethers.Transaction & { from: string }> {
+    return this.transactions.filter(tx =>
+      tx.to?.toLowerCase() === this.addresses.tokenMessenger.toLowerCase() &&
+      this.receipts.get(tx.hash!)?.status === 1
+    );
+  }
+
+  async detectNetwork(): Promise<ethers.providers.Network> {
+    return { chainId: this.chainId, name: `fake-${this.chainId}` };
+  }
+
+  async send(method: string, params: any[]): Promise<any> {
+    switch (method) {
+      case 'eth_chainId':
+        return ethers.utils.hexValue(this.chainId);
+      case 'net_version':
+        return String(this.chainId);
+      case 'eth_blockNumber':
+        return ethers.utils.hexValue(this.head);
+      case 'eth_gasPrice':
+        return GAS_PRICE.toHexString();
+      case 'eth_getBalance':
+        return ethers.utils.parseEther('100').toHexString();
+      case 'eth_getCode':
+        return this.isContract(params[0]) ? '0x01' : '0x';
+      case 'eth_getBlockByNumber':
+        return this.block(params[0] === 'latest' || params[0] === 'pending' ? this.head : Number(params[0]));
+      case 'eth_getTransactionCount':
+        return ethers.utils.hexValue(this.nonces.get(params[0].toLowerCase()) || 0);
+      case 'eth_call':
+        return this.simulate(this.toCall(params[0]));
+      case 'eth_estimateGas':
+        await this.simulate(this.toCall(params[0]));
+        return ethers.utils.hexValue(200000);
+      case 'eth_sendRawTransaction':
+        return this.mine(params[0]);
+      case 'eth_getTransactionReceipt':
+        return this.formatReceipt(params[0]);
+      case 'eth_getTransactionByHash':
+        return this.formatTransaction(params[0]);
+      case 'eth_getLogs':
+        return this.findLogs(params[0]);
+      default:
+        throw new Error(`FakeChain does not support ${method}`);
+    }
+  }
+
+  private toCall(request: any): Call {
+    return {
+      from: request.from || ethers.constants.AddressZero,
+      to: request.to,
+      data: request.data || request.input || '0x',
+    };
+  }
+
+  private async simulate(call: Call): Promise<string> {
+    const state = this.cloneState();
+    try {
+      return this.execute(state, call, this.head + 1, []);
+    } catch (error) {
+      if (error instanceof Revert) {
+        throw Object.assign(new Error(`execution reverted: ${error.message}`), {
+          code: -32000,
+          data: ethers.utils.hexConcat(['0x08c379a0', ethers.utils.defaultAbiCoder.encode(['string'], [error.message])]),
+        });
+      }
+      throw error;
+    }
+  }
+
+  private mine(raw: string): string {
+    const tx = ethers.utils.parseTransaction(raw) as ethers.Transaction & { from: string };
+    const from = tx.from.toLowerCase();
+    this.nonces.set(from, (this.nonces.get(from) || 0) + 1);
+
+    const blockNumber = ++this.head;
+    const state = this.cloneState();
+    const logs: Log[] = [];
+    let status = 1;
+    try {
+      this.execute(state, { from: tx.from, to: tx.to!, data: tx.data }, blockNumber, logs);
+      this.state = state;
+    } catch (error) {
+      if (!(error instanceof Revert)) {
+        throw error;
+      }
+      status = 0;
+      logs.length = 0;
+    }
+
+    this.transactions.push(tx);
+    this.receipts.set(tx.hash!, { transactionHash: tx.hash!, blockNumber, from: tx.from, to: tx.to || null, status, logs });
+    // One more block so the transaction has two confirmations
+    this.head++;
+    return tx.hash!;
+  }
+
+  private execute(state: State, call: Call, blockNumber: number, logs: Log[]): string {
+    const to = call.to.toLowerCase();
+    const revert = this.reverts.get(to);
+    if (revert) {
+      throw new Revert(revert);
+    }
+
+    if (to === this.addresses.usdc.toLowerCase()) {
+      return this.callUSDC(state, call, logs);
+    }
+    if (to === this.addresses.tokenMessenger.toLowerCase()) {
+      return this.callTokenMessenger(state, call, logs);
+    }
+    if (to === this.addresses.messageTransmitter.toLowerCase()) {
+      return this.callMessageTransmitter(state, call, blockNumber, logs);
+    }
+    return '0x';
+  }
+
+  private callUSDC(state: State, call: Call, logs: Log[]): string {
+    const { name, args } = usdcInterface.parseTransaction({ data: call.data });
+    const encode = (value: unknown) => usdcInterface.encodeFunctionResult(name, [value]);
+
+    switch (name) {
+      case 'name':
+        return encode('USDC');
+      case 'decimals':
+        return encode(6);
+      case 'balanceOf':
+        return encode(state.balances.get(args[0].toLowerCase()) || 0n);
+      case 'allowance':
+        return encode(state.allowances.get(this.allowanceKey(args[0], args[1])) || 0n);
+      case 'nonces':
+        return encode(0);
+      case 'approve':
+        state.allowances.set(this.allowanceKey(call.from, args[0]), args[1].toBigInt());
+        logs.push(this.log(this.addresses.usdc, usdcInterface, 'Approval', [call.from, args[0], args[1]]));
+        return encode(true);
+      case 'transfer':
+        this.transfer(state, call.from, args[0], args[1].toBigInt(), logs);
+        return encode(true);
+      default:
+        throw new Revert(`USDC.${name} is not supported`);
+    }
+  }
+
+  private callTokenMessenger(state: State, call: Call, logs: Log[]): string {
+    const { name, args } = tokenMessengerInterface.parseTransaction({ data: call.data });
+    if (name !== 'depositForBurn' && name !== 'depositForBurnWithHook') {
+      throw new Revert(`TokenMessengerV2.${name} is not supported`);
+    }
+
+    const amount: bigint = args.amount.toBigInt();
+    const maxFee: bigint = args.maxFee.toBigInt();
+    if (args.burnToken.toLowerCase() !== this.addresses.usdc.toLowerCase()) {
+      throw new Revert('Burn token not supported');
+    }
+    if (amount === 0n) {
+      throw new Revert('Amount must be nonzero');
+    }
+    if (maxFee >= amount) {
+      throw new Revert('Max fee must be less than amount');
+    }
+    if (args.mintRecipient === ethers.constants.HashZero) {
+      throw new Revert('Mint recipient must be nonzero');
+    }
+    const hookData = name === 'depositForBurnWithHook' ? args.hookData : '0x';
+    if (name === 'depositForBurnWithHook' && hookData === '0x') {
+      throw new Revert('Hook data is empty');
+    }
+
+    const allowanceKey = this.allowanceKey(call.from, this.addresses.tokenMessenger);
+    const allowance = state.allowances.get(allowanceKey) || 0n;
+    if (allowance < amount) {
+      throw new Revert('ERC20: transfer amount exceeds allowance');
+    }
+    state.allowances.set(allowanceKey, allowance - amount);
+    this.debit(state, call.from, amount);
+
+    const toBytes32 = (address: string) => ethers.utils.hexZeroPad(address, 32);
+    const messageBody = ethers.utils.solidityPack(
+      ['uint32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'uint256', 'uint256', 'uint256', 'bytes'],
+      [1, toBytes32(args.burnToken), args.mintRecipient, amount, toBytes32(call.from), maxFee, 0, 0, hookData]
+    );
+    const message = ethers.utils.solidityPack(
+      ['uint32', 'uint32', 'uint32', 'bytes32', 'bytes32', 'bytes32', 'bytes32', 'uint32', 'uint32', 'bytes'],
+      [
+        1,
+        this.domain,
+        args.destinationDomain,
+        ethers.constants.HashZero,
+        toBytes32(this.addresses.tokenMessenger),
+        toBytes32(this.addresses.tokenMessenger),
+        args.destinationCaller,
+        args.minFinalityThreshold,
+        0,
+        messageBody,
+      ]
+    );
+
+    logs.push(this.log(this.addresses.messageTransmitter, messageTransmitterInterface, 'MessageSent', [message]));
+    return '0x';
+  }
+
+  private callMessageTransmitter(state: State, call: Call, blockNumber: number, logs: Log[]): string {
+    const { name, args } = messageTransmitterInterface.parseTransaction({ data: call.data });
+
+    if (name === 'usedNonces') {
+      return messageTransmitterInterface.encodeFunctionResult(name, [state.usedNonces.has(args[0].toLowerCase()) ? 1 : 0]);
+    }
+    if (name !== 'receiveMessage') {
+      throw new Revert(`MessageTransmitterV2.${name} is not supported`);
+    }
+
+    const message: string = args.message;
+    const field = (offset: number, length: number) => ethers.utils.hexDataSlice(message, offset, offset + length);
+    const uint = (offset: number, length: number) => BigNumber.from(field(offset, length)).toBigInt();
+
+    this.verifyAttestation(message, args.attestation);
+    if (Number(uint(8, 4)) !== this.domain) {
+      throw new Revert('Invalid destination domain');
+    }
+    const destinationCaller = field(108, 32);
+    if (destinationCaller !== ethers.constants.HashZero && destinationCaller !== ethers.utils.hexZeroPad(call.from, 32).toLowerCase()) {
+      throw new Revert('Invalid caller for message');
+    }
+    const nonce = field(12, 32);
+    if (state.usedNonces.has(nonce)) {
+      throw new Revert('Nonce already used');
+    }
+    state.usedNonces.add(nonce);
+
+    const body = 148;
+    const mintRecipient = ethers.utils.getAddress(ethers.utils.hexDataSlice(message, body + 48, body + 68));
+    const amount = uint(body + 68, 32);
+    const feeExecuted = uint(body + 164, 32);
+    const expirationBlock = uint(body + 196, 32);
+    if (expirationBlock !== 0n && expirationBlock <= BigInt(blockNumber)) {
+      throw new Revert('Message expired and must be re-signed');
+    }
+
+    this.credit(state, mintRecipient, amount - feeExecuted);
+    logs.push(this.log(this.addresses.tokenMessenger, tokenMessengerInterface, 'MintAndWithdraw', [
+      mintRecipient,
+      amount - feeExecuted,
+      this.addresses.usdc,
+      feeExecuted,
+    ]));
+    logs.push(this.log(this.addresses.messageTransmitter, messageTransmitterInterface, 'MessageReceived', [
+      call.from,
+      Number(uint(4, 4)),
+      nonce,
+      field(44, 32),
+      Number(uint(144, 4)),
+      ethers.utils.hexDataSlice(message, body),
+    ]));
+    return messageTransmitterInterface.encodeFunctionResult(name, [true]);
+  }
+
+  private verifyAttestation(message: string, attestation: string): void {
+    const digest = ethers.utils.keccak256(message);
+    const signatures = ethers.utils.hexDataLength(attestation) / 65;
+    if (!Number.isInteger(signatures) || signatures !== this.attesters.size) {
+      throw new Revert('Invalid attestation length');
+    }
+
+    let previous = ethers.constants.AddressZero;
+    for (let i = 0; i < signatures; i++) {
+      const signer = ethers.utils.recoverAddress(digest, ethers.utils.hexDataSlice(attestation, i * 65, (i + 1) * 65));
+      if (signer.toLowerCase() <= previous.toLowerCase()) {
+        throw new Revert('Invalid signature order or dupe');
+      }
+      if (!this.attesters.has(signer.toLowerCase())) {
+        throw new Revert('Invalid signature: not attester');
+      }
+      previous = signer;
+    }
+  }
+
+  private transfer(state: State, from: string, to: string, amount: bigint, logs: Log[]): void {
+    this.debit(state, from, amount);
+    this.credit(state, to, amount);
+    logs.push(this.log(this.addresses.usdc, usdcInterface, 'Transfer', [from, to, amount]));
+  }
+
+  private debit(state: State, owner: string, amount: bigint): void {
+    const balance = state.balances.get(owner.toLowerCase()) || 0n;
+    if (balance < amount) {
+      throw new Revert('ERC20: transfer amount exceeds balance');
+    }
+    state.balances.set(owner.toLowerCase(), balance - amount);
+  }
+
+  private credit(state: State, owner: string, amount: bigint): void {
+    state.balances.set(owner.toLowerCase(), (state.balances.get(owner.toLowerCase()) || 0n) + amount);
+  }
+
+  private log(address: string, iface: ethers.utils.Interface, name: string, values: unknown[]): Log {
+    const { data, topics } = iface.encodeEventLog(iface.getEvent(name), values);
+    return { address, topics, data };
+  }
+
+  private findLogs(filter: { address?: string; topics?: Array<string | string[] | null>; fromBlock?: string; toBlock?: string }): unknown[] {
+    const fromBlock = filter.fromBlock && filter.fromBlock !== 'latest' ? Number(filter.fromBlock) : 0;
+    const toBlock = filter.toBlock && filter.toBlock !== 'latest' ? Number(filter.toBlock) : this.head;
+    const matches = (topic: string | undefined, expected: string | string[] | null | undefined) =>
+      expected == null || (Array.isArray(expected) ? expected : [expected]).some(value => value.toLowerCase() === topic?.toLowerCase());
+
+    return Array.from(this.receipts.values())
+      .filter(receipt => receipt.status === 1 && receipt.blockNumber >= fromBlock && receipt.blockNumber <= toBlock)
+      .flatMap(receipt => this.formatLogs(receipt))
+      .filter(log =>
+        (!filter.address || log.address.toLowerCase() === filter.address.toLowerCase()) &&
+        (filter.topics || []).every((expected, index) => matches(log.topics[index], expected))
+      );
+  }
+
+  private formatReceipt(hash: string): unknown {
+    const receipt = this.receipts.get(hash);
+    if (!receipt) {
+      return null;
+    }
+    return {
+      transactionHash: receipt.transactionHash,
+      transactionIndex: '0x0',
+      blockHash: this.blockHash(receipt.blockNumber),
+      blockNumber: ethers.utils.hexValue(receipt.blockNumber),
+      from: receipt.from,
+      to: receipt.to,
+      contractAddress: null,
+      cumulativeGasUsed: ethers.utils.hexValue(100000),
+      gasUsed: ethers.utils.hexValue(100000),
+      effectiveGasPrice: GAS_PRICE.toHexString(),
+      logsBloom: ethers.utils.hexZeroPad('0x', 256),
+      logs: this.formatLogs(receipt),
+      status: ethers.utils.hexValue(receipt.status),
+      type: '0x2',
+      confirmations: this.head - receipt.blockNumber + 1,
+    };
+  }
+
+  private formatLogs(receipt: Receipt): Array<Log & Record<string, unknown>> {
+    return receipt.logs.map((log, index) => ({
+      ...log,
+      blockNumber: ethers.utils.hexValue(receipt.blockNumber),
+      blockHash: this.blockHash(receipt.blockNumber),
+      transactionHash: receipt.transactionHash,
+      transactionIndex: '0x0',
+      logIndex: ethers.utils.hexValue(index),
+      removed: false,
+    }));
+  }
+
+  private formatTransaction(hash: string): unknown {
+    const tx = this.transactions.find(candidate => candidate.hash === hash);
+    const receipt = this.receipts.get(hash);
+    if (!tx || !receipt) {
+      return null;
+    }
+    return {
+      hash,
+      from: tx.from,
+      to: tx.to,
+      nonce: ethers.utils.hexValue(tx.nonce),
+      input: tx.data,
+      value: tx.value.toHexString(),
+      gas: tx.gasLimit.toHexString(),
+      gasPrice: GAS_PRICE.toHexString(),
+      chainId: ethers.utils.hexValue(this.chainId),
+      blockNumber: ethers.utils.hexValue(receipt.blockNumber),
+      blockHash: this.blockHash(receipt.blockNumber),
+      transactionIndex: '0x0',
+      v: ethers.utils.hexValue(tx.v || 0),
+      r: tx.r,
+      s: tx.s,
+      type: ethers.utils.hexValue(tx.type || 0),
+    };
+  }
+
+  private block(number: number): unknown {
+    return {
+      number: ethers.utils.hexValue(number),
+      hash: this.blockHash(number),
+      parentHash: this.blockHash(number - 1),
+      timestamp: ethers.utils.hexValue(Math.floor(Date.now() / 1000)),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: ethers.utils.hexValue(30000000),
+      gasUsed: '0x0',
+      miner: ethers.constants.AddressZero,
+      extraData: '0x',
+      baseFeePerGas: GAS_PRICE.toHexString(),
+      transactions: [],
+    };
+  }
+
+  private blockHash(number: number): string {
+    return ethers.utils.solidityKeccak256(['uint256', 'uint256'], [this.chainId, number]);
+  }
+
+  private isContract(address: string): boolean {
+    return [this.addresses.usdc, this.addresses.tokenMessenger, this.addresses.messageTransmitter]
+      .some(contract => contract.toLowerCase() === address.toLowerCase());
+  }
+
+  private allowanceKey(owner: string, spender: string): string {
+    return `${owner.toLowerCase()}:${spender.toLowerCase()}`;
+  }
+
+  private cloneState(): State {
+    return {
+      balances: new Map(this.state.balances),
+      allowances: new Map(this.state.allowances),
+      usedNonces: new Set(this.state.usedNonces),
+    };
+  }
+}
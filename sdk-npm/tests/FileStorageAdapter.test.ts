@@ -0,0 +1,39 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStorageAdapter } from '../src/storage';
+
+describe('FileStorageAdapter', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'gasflow-storage-'));
+    filePath = join(dir, 'storage.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps every write made while the file is first read', async () => {
+    await writeFile(filePath, JSON.stringify({ existing: '0' }), 'utf8');
+    const storage = new FileStorageAdapter(filePath);
+
+    await Promise.all(['a', 'b', 'c'].map(key => storage.set(key, key)));
+
+    const reopened = new FileStorageAdapter(filePath);
+    expect((await reopened.keys()).sort()).toEqual(['a', 'b', 'c', 'existing']);
+    expect(await reopened.get('existing')).toBe('0');
+  });
+
+  it('reads the file again after a failed read', async () => {
+    await writeFile(filePath, '{', 'utf8');
+    const storage = new FileStorageAdapter(filePath);
+
+    await expect(storage.get('key')).rejects.toThrow('Failed to read storage file');
+
+    await writeFile(filePath, JSON.stringify({ key: 'value' }), 'utf8');
+    expect(await storage.get('key')).toBe('value');
+  });
+});
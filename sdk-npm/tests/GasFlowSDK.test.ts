@@ -0,0 +1,144 @@
+import { ethers } from 'ethers';
+import { GasFlowSDK } from '../src/core/GasFlowSDK';
+import { ExecutionJournal } from '../src/core/ExecutionJournal';
+import { MemoryStorageAdapter } from '../src/storage';
+import { CancelledError, InvalidParamsError } from '../src/errors';
+import { FastTransferAllowanceMonitor } from '../src/services/FastTransferAllowanceMonitor';
+import { FakeChain } from './FakeChain';
+import { BASE_SEPOLIA, RECIPIENT, SEPOLIA, TARGET, randomHash } from './helpers';
+
+describe('GasFlowSDK', () => {
+  let base: FakeChain;
+  let wallet: ethers.Wallet;
+  let storage: MemoryStorageAdapter;
+  let journal: ExecutionJournal;
+  let sdk: GasFlowSDK;
+
+  beforeEach(() => {
+    // The SDK builds RPC providers for every supported chain; keep them off the network
+    jest
+      .spyOn(ethers.providers.JsonRpcProvider.prototype, 'detectNetwork')
+      .mockResolvedValue({ chainId: SEPOLIA, name: 'sepolia' });
+
+    base = new FakeChain(BASE_SEPOLIA);
+    wallet = new ethers.Wallet(randomHash()).connect(base);
+    storage = new MemoryStorageAdapter();
+    journal = new ExecutionJournal(storage);
+    sdk = new GasFlowSDK({
+      apiKey: 'test-api-key',
+      supportedChains: [SEPOLIA, BASE_SEPOLIA],
+      executionStorage: storage,
+    });
+  });
+
+  afterEach(async () => {
+    sdk.destroy();
+    // Let the providers' deferred network detection hit the stub before it is restored
+    await new Promise(resolve => setTimeout(resolve, 0));
+    jest.restoreAllMocks();
+  });
+
+  describe('resume', () => {
+    const transaction = { to: TARGET, data: '0x1234', executeOn: BASE_SEPOLIA, payFromChain: BASE_SEPOLIA };
+    const route = {
+      executeOnChain: BASE_SEPOLIA,
+      payFromChain: BASE_SEPOLIA,
+      gasCost: ethers.BigNumber.from(10000),
+      totalCost: ethers.BigNumber.from(10000),
+      estimatedTime: 120,
+    };
+
+    it('continues an interrupted execution from its last step', async () => {
+      let record = await journal.create(transaction, wallet.address);
+      record = await journal.update(record, { step: 'route_selected', status: 'failed', route });
+
+      expect((await sdk.listPendingExecutions()).map(pending => pending.id)).toEqual([record.id]);
+
+      const result = await sdk.resume(record.id, undefined, wallet);
+
+      expect(base.transactions).toHaveLength(1);
+      expect(base.transactions[0]).toEqual(expect.objectContaining({ to: TARGET, data: '0x1234' }));
+      expect(result.transactionHash).toBe(base.transactions[0].hash);
+      expect(await sdk.getExecution(record.id)).toEqual(expect.objectContaining({ status: 'completed', step: 'completed' }));
+      expect(await sdk.listPendingExecutions()).toEqual([]);
+
+      // A completed execution returns its recorded result
+      expect(await sdk.resume(record.id, undefined, wallet)).toEqual(result);
+      expect(base.transactions).toHaveLength(1);
+    });
+
+    it('waits for a submitted transaction instead of sending it again', async () => {
+      const submitted = await wallet.sendTransaction({ to: TARGET, data: '0x1234' });
+      let record = await journal.create(transaction, wallet.address);
+      record = await journal.update(record, {
+        step: 'execution_submitted',
+        status: 'failed',
+        route,
+        execution: { mode: 'signer', hash: submitted.hash },
+      });
+
+      const result = await sdk.resume(record.id, undefined, wallet);
+
+      expect(result.transactionHash).toBe(submitted.hash);
+      expect(base.transactions).toHaveLength(1);
+    });
+
+    it('gives back Fast Transfer allowance held for a burn that is never sent', async () => {
+      const release = jest.spyOn(FastTransferAllowanceMonitor.prototype, 'release');
+      const bridged = { ...route, payFromChain: SEPOLIA, transferMode: 'fast' as const, allowanceReservationId: 'fast-1' };
+      let record = await journal.create({ ...transaction, payFromChain: SEPOLIA }, wallet.address);
+      record = await journal.update(record, { step: 'route_selected', status: 'failed', route: bridged });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(sdk.resume(record.id, undefined, wallet, { signal: controller.signal }))
+        .rejects.toThrow(CancelledError);
+
+      expect(release).toHaveBeenCalledWith('fast-1');
+      expect(await sdk.getExecution(record.id)).toEqual(expect.objectContaining({ status: 'cancelled' }));
+    });
+  });
+
+  describe('idempotency keys', () => {
+    const transaction = {
+      to: TARGET,
+      data: '0x1234',
+      executeOn: BASE_SEPOLIA,
+      payFromChain: BASE_SEPOLIA,
+      idempotencyKey: 'order-1',
+    };
+
+    it('runs an execution once for concurrent and repeated calls', async () => {
+      const [first, second] = await Promise.all([
+        sdk.execute(transaction, wallet.address, undefined, wallet),
+        sdk.execute(transaction, wallet.address, undefined, wallet),
+      ]);
+      const third = await sdk.execute(transaction, wallet.address, undefined, wallet);
+
+      expect(base.transactions).toHaveLength(1);
+      expect(second).toEqual(first);
+      expect(third).toEqual(first);
+    });
+
+    it('rejects a key reused for a different transaction', async () => {
+      await sdk.execute(transaction, wallet.address, undefined, wallet);
+
+      await expect(sdk.execute({ ...transaction, data: '0x5678' }, wallet.address, undefined, wallet))
+        .rejects.toThrow(InvalidParamsError);
+    });
+
+    it('rejects a key reused for a batch that differs after its first call', async () => {
+      const calls = [
+        { ...transaction, gasLimit: ethers.BigNumber.from(50000) },
+        { ...transaction, data: '0x5678', gasLimit: ethers.BigNumber.from(50000) },
+      ];
+      await sdk.executeBatch(calls, wallet.address, undefined, wallet);
+
+      for (const changed of [{ to: RECIPIENT }, { data: '0x9abc' }, { value: ethers.BigNumber.from(1) }]) {
+        await expect(sdk.executeBatch([calls[0], { ...calls[1], ...changed }], wallet.address, undefined, wallet))
+          .rejects.toThrow(InvalidParamsError);
+      }
+      expect(base.transactions).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import { BigNumber, ethers } from 'ethers';
+import { MockIrisServer, MockIrisServerOptions } from '../src/testing';
+import { GasFlowSDK } from '../src/core/GasFlowSDK';
+import { ProductionCCTPService } from '../src/services/ProductionCCTPService';
+import { BridgeTracker } from '../src/services/BridgeTracker';
+import { MemoryStorageAdapter } from '../src/storage';
+import { MessageTransmitterV2__factory, TokenMessengerV2__factory } from '../src/contracts/types';
+import { NON_EVM_CHAIN_IDS, SOLANA_CCTP_DOMAIN } from '../src/contracts';
+import { AttestationExpiredError, AttestationInvalidError } from '../src/errors';
+import { decodeBurnMessage, decodeCCTPMessage, encodeBurnMessage, encodeCCTPMessage } from '../src/utils/cctpMessage';
+import { FakeChain } from './FakeChain';
+import { BASE_SEPOLIA, RECIPIENT, SEPOLIA, TARGET, randomHash } from './helpers';
+
+/**
+ * Burn USDC on chain straight through TokenMessengerV2, returning the burn transaction hash
+ */
+async function burn(chain: FakeChain, wallet: ethers.Wallet, amount: BigNumber, minFinalityThreshold = 1000): Promise<string> {
+  chain.mintUSDC(wallet.address, amount);
+  chain.approveUSDC(wallet.address, chain.addresses.tokenMessenger, amount);
+  const tokenMessenger = TokenMessengerV2__factory.connect(chain.addresses.tokenMessenger, wallet);
+  const tx = await tokenMessenger.depositForBurn(
+    amount,
+    6,
+    ethers.utils.hexZeroPad(wallet.address, 32),
+    chain.addresses.usdc,
+    ethers.constants.HashZero,
+    amount.div(10),
+    minFinalityThreshold
+  );
+  await tx.wait();
+  return tx.hash;
+}
+
+describe('MockIrisServer', () => {
+  let sepolia: FakeChain;
+  let wallet: ethers.Wallet;
+
+  beforeEach(() => {
+    sepolia = new FakeChain(SEPOLIA);
+    wallet = new ethers.Wallet(randomHash()).connect(sepolia);
+  });
+
+  it('serves fees and the Fast Transfer allowance', async () => {
+    const mock = new MockIrisServer({ fastTransferAllowance: 500 });
+
+    const fees = await mock.handle('GET', '/v2/burn/USDC/fees/0/6');
+    expect(fees.status).toBe(200);
+    expect(fees.body).toEqual(expect.arrayContaining([expect.objectContaining({ finalityThreshold: 1000 })]));
+
+    const allowance = await mock.handle('GET', '/v2/fastBurn/USDC/allowance');
+    expect(allowance.body).toEqual(expect.objectContaining({ allowance: 500 }));
+
+    expect((await mock.handle('GET', '/v2/unknown')).status).toBe(404);
+  });
+
+  it('reads burns from the source chain and signs them with its attester keys', async () => {
+    const mock = new MockIrisServer({ providers: { 0: sepolia } });
+    const transactionHash = await burn(sepolia, wallet, BigNumber.from(1000000));
+
+    const { status, body } = await mock.handle('GET', `/v2/messages/0?transactionHash=${transactionHash}`);
+    const entry = (body as any).messages[0];
+    const message = decodeCCTPMessage(entry.message);
+
+    expect(status).toBe(200);
+    expect(entry.status).toBe('complete');
+    expect(message.nonce).toBe(entry.eventNonce);
+    expect(message.finalityThresholdExecuted).toBe(1000);
+    expect(ethers.utils.recoverAddress(ethers.utils.keccak256(entry.message), entry.attestation))
+      .toBe(mock.attesterAddresses[0]);
+
+    expect((await mock.handle('GET', `/v2/messages/0?transactionHash=${randomHash()}`)).status).toBe(404);
+  });
+
+  it('reports messages as pending until the attestation delay passes', async () => {
+    const mock = new MockIrisServer({ providers: { 0: sepolia }, attestationDelayMs: 60000 });
+    const transactionHash = await burn(sepolia, wallet, BigNumber.from(1000000));
+
+    const { body } = await mock.handle('GET', `/v2/messages/0?transactionHash=${transactionHash}`);
+
+    expect((body as any).messages[0]).toEqual(expect.objectContaining({
+      status: 'pending_confirmations',
+      attestation: 'PENDING',
+    }));
+  });
+});
+
+describe('GasFlowSDK against MockIrisServer', () => {
+  let mock: MockIrisServer;
+  let sepolia: FakeChain;
+  let base: FakeChain;
+  let wallet: ethers.Wallet;
+  let sdk: GasFlowSDK;
+  let irisApiUrl: string;
+
+  const transaction = { to: TARGET, data: '0x1234', executeOn: BASE_SEPOLIA, payFromChain: SEPOLIA };
+
+  const start = async (options: MockIrisServerOptions = {}) => {
+    mock = new MockIrisServer({ providers: { 0: sepolia }, ...options });
+    irisApiUrl = await mock.listen();
+    sdk = new GasFlowSDK({
+      apiKey: 'test-api-key',
+      supportedChains: [SEPOLIA, BASE_SEPOLIA],
+      irisApiUrl,
+      executionStorage: new MemoryStorageAdapter(),
+      historyStorage: new MemoryStorageAdapter(),
+      signers: new Map([[SEPOLIA, wallet.connect(sepolia)], [BASE_SEPOLIA, wallet.connect(base)]]),
+    });
+  };
+
+  beforeEach(() => {
+    // The SDK builds RPC providers for every supported chain; keep them off the network
+    jest
+      .spyOn(ethers.providers.JsonRpcProvider.prototype, 'detectNetwork')
+      .mockResolvedValue({ chainId: SEPOLIA, name: 'sepolia' });
+
+    sepolia = new FakeChain(SEPOLIA);
+    base = new FakeChain(BASE_SEPOLIA);
+
+    wallet = new ethers.Wallet(randomHash());
+    sepolia.mintUSDC(wallet.address, BigNumber.from(5000000));
+    sepolia.approveUSDC(wallet.address, sepolia.addresses.tokenMessenger, BigNumber.from(5000000));
+  });
+
+  afterEach(async () => {
+    sdk.destroy();
+    await mock.close();
+    // Let the providers' deferred network detection hit the stub before it is restored
+    await new Promise(resolve => setTimeout(resolve, 0));
+    jest.restoreAllMocks();
+  });
+
+  it('burns, waits for the attestation, mints and executes on the destination chain', async () => {
+    await start();
+    base.enableAttesters(mock.attesterAddresses);
+
+    const result = await sdk.execute(transaction, wallet.address, undefined, wallet.connect(base));
+
+    expect(sepolia.burns).toHaveLength(1);
+    expect(result.bridgeTransactionHash).toBe(sepolia.burns[0].hash);
+    expect(base.usdcBalance(wallet.address).gt(0)).toBe(true);
+    expect(base.transactions[base.transactions.length - 1]).toEqual(expect.objectContaining({ to: TARGET }));
+    expect(result.transactionHash).toBe(base.transactions[base.transactions.length - 1].hash);
+
+    const settlement = result.bridgeSettlement!;
+    expect(settlement.mintedAmount.eq(base.usdcBalance(wallet.address))).toBe(true);
+    expect(settlement.amount.sub(settlement.feeExecuted).eq(settlement.mintedAmount)).toBe(true);
+    expect(settlement.unusedMaxFee.eq(settlement.maxFee.sub(settlement.feeExecuted))).toBe(true);
+    expect(settlement.mintTransactionHash).toBe(base.transactions[0].hash);
+    expect(await sdk.getBridgeSettlement(result.bridgeTransactionHash!)).toEqual(settlement);
+  });
+
+  it('resumes after a failed mint without burning again', async () => {
+    await start();
+    // Attesters unknown to the destination chain: receiveMessage reverts
+    await expect(sdk.execute(transaction, wallet.address, undefined, wallet.connect(base))).rejects.toThrow();
+    const [pending] = await sdk.listPendingExecutions();
+    expect(pending.step).toBe('bridge_initiated');
+
+    base.enableAttesters(mock.attesterAddresses);
+    const result = await sdk.resume(pending.id, undefined, wallet.connect(base));
+
+    expect(sepolia.burns).toHaveLength(1);
+    expect(result.bridgeTransactionHash).toBe(sepolia.burns[0].hash);
+    expect(base.usdcBalance(wallet.address).gt(0)).toBe(true);
+  });
+
+  it('completes a stuck transfer from its burn transaction alone', async () => {
+    await start();
+    base.enableAttesters(mock.attesterAddresses);
+    const burnHash = await burn(sepolia, wallet.connect(sepolia), BigNumber.from(1000000));
+
+    const mintHash = await sdk.completeTransfer(burnHash, SEPOLIA, BASE_SEPOLIA);
+
+    expect(base.transactions.map(tx => tx.hash)).toEqual([mintHash]);
+    expect(base.usdcBalance(wallet.address).toNumber()).toBe(1000000);
+    // Minting again is a no-op
+    expect(await sdk.completeTransfer(burnHash, SEPOLIA, BASE_SEPOLIA)).toBe(mintHash);
+    expect(base.transactions).toHaveLength(1);
+  });
+
+  it('refuses to mint an attested message that differs from the burn', async () => {
+    await start();
+    base.enableAttesters(mock.attesterAddresses);
+    const burnHash = await burn(sepolia, wallet.connect(sepolia), BigNumber.from(1000000));
+
+    // Attest the burn with a different mint recipient
+    const receipt = await sepolia.getTransactionReceipt(burnHash);
+    const messageTransmitter = MessageTransmitterV2__factory.createInterface();
+    const emitted = decodeCCTPMessage(messageTransmitter.parseLog(receipt.logs[receipt.logs.length - 1]).args.message);
+    const redirected = encodeBurnMessage({
+      ...decodeBurnMessage(emitted.messageBody),
+      mintRecipient: ethers.utils.hexZeroPad(RECIPIENT, 32),
+    });
+    mock.addMessage(0, burnHash, encodeCCTPMessage({ ...emitted, messageBody: redirected }));
+
+    await expect(sdk.completeTransfer(burnHash, SEPOLIA, BASE_SEPOLIA)).rejects.toThrow(AttestationInvalidError);
+    expect(base.transactions).toHaveLength(0);
+  });
+
+  it('reports the settlement with the bridge status once minted', async () => {
+    await start();
+    base.enableAttesters(mock.attesterAddresses);
+    const burnHash = await burn(sepolia, wallet.connect(sepolia), BigNumber.from(1000000));
+    const service = new ProductionCCTPService('', true, undefined, undefined, undefined, irisApiUrl);
+    service.setSigner(SEPOLIA, wallet.connect(sepolia));
+    service.setSigner(BASE_SEPOLIA, wallet.connect(base));
+
+    expect(await service.getBridgeStatus(burnHash, SEPOLIA)).toEqual({ status: 'attested', destinationCompletion: 'sdk' });
+
+    await service.completeTransfer(burnHash, SEPOLIA, BASE_SEPOLIA);
+    const status = await service.getBridgeStatus(burnHash, SEPOLIA);
+
+    expect(status.status).toBe('completed');
+    expect(status.settlement).toEqual(await service.getBridgeSettlement(burnHash));
+    expect(status.settlement!.mintedAmount.eq(base.usdcBalance(wallet.address))).toBe(true);
+  });
+
+  describe('bridge', () => {
+    // USDC token account of the wallet whose public key is 0x01..0x20
+    const TOKEN_ACCOUNT = '2XMDdLg8sfyxttZAyQAVFnkKRWS15uAWzbZUMP7mTy4E';
+
+    const params = () => ({
+      amount: BigNumber.from(1000000),
+      fromChain: SEPOLIA,
+      toChain: BASE_SEPOLIA,
+      recipient: wallet.address,
+    });
+
+    it('records standalone bridges in history', async () => {
+      await start();
+      base.enableAttesters(mock.attesterAddresses);
+
+      const { bridge, destinationCompletion, mintTransactionHash } = await sdk.bridge(params());
+
+      expect(destinationCompletion).toBe('sdk');
+      expect(bridge.transactionHash).toBe(sepolia.burns[0].hash);
+      expect(mintTransactionHash).toBe(base.transactions[0].hash);
+      expect(await sdk.history.get(bridge.transactionHash)).toEqual(expect.objectContaining({
+        kind: 'bridge',
+        status: 'completed',
+        userAddress: wallet.address,
+        gasPaymentChain: SEPOLIA,
+        executedOnChain: BASE_SEPOLIA,
+        bridgeDestinationTransactionHash: mintTransactionHash,
+      }));
+    });
+
+    it('records a failed mint under its burn', async () => {
+      await start();
+      // Attesters unknown to the destination chain: receiveMessage reverts
+      await expect(sdk.bridge(params())).rejects.toThrow();
+
+      expect(await sdk.history.get(sepolia.burns[0].hash!)).toEqual(expect.objectContaining({
+        kind: 'bridge',
+        status: 'failed',
+      }));
+    });
+
+    it('stops at the attestation for Solana', async () => {
+      await start();
+
+      const { bridge, destinationCompletion, attestation } = await sdk.bridge({
+        ...params(),
+        toChain: NON_EVM_CHAIN_IDS.solanaDevnet,
+        recipient: TOKEN_ACCOUNT,
+      });
+
+      expect(destinationCompletion).toBe('external');
+      expect(decodeCCTPMessage(attestation!.message).destinationDomain).toBe(SOLANA_CCTP_DOMAIN);
+      expect(ethers.utils.recoverAddress(ethers.utils.keccak256(attestation!.message), attestation!.signature))
+        .toBe(mock.attesterAddresses[0]);
+      expect(await sdk.history.get(bridge.transactionHash)).toEqual(expect.objectContaining({ status: 'completed' }));
+      expect(base.transactions).toHaveLength(0);
+    });
+  });
+
+  describe('expired Fast Transfer messages', () => {
+    const mintedMessage = () => {
+      const messageTransmitter = MessageTransmitterV2__factory.createInterface();
+      const [mint] = base.transactions;
+      return decodeCCTPMessage(messageTransmitter.decodeFunctionData('receiveMessage', mint.data).message);
+    };
+
+    it('re-attests the message and retries the mint', async () => {
+      // Fast messages expire at block 1, long before the destination chain's head
+      await start({ fastExpirationBlock: 1 });
+      base.enableAttesters(mock.attesterAddresses);
+      const burnHash = await burn(sepolia, wallet.connect(sepolia), BigNumber.from(1000000));
+
+      await sdk.completeTransfer(burnHash, SEPOLIA, BASE_SEPOLIA);
+
+      expect(base.usdcBalance(wallet.address).toNumber()).toBe(1000000);
+      expect(decodeBurnMessage(mintedMessage().messageBody).expirationBlock.isZero()).toBe(true);
+    }, 15000);
+
+    it('re-attests on request', async () => {
+      await start({ fastExpirationBlock: 1 });
+      const burnHash = await burn(sepolia, wallet.connect(sepolia), BigNumber.from(1000000));
+
+      const renewed = await sdk.reattest(burnHash, SEPOLIA);
+
+      expect(decodeBurnMessage(decodeCCTPMessage(renewed.message).messageBody).expirationBlock.isZero()).toBe(true);
+      expect(ethers.utils.recoverAddress(ethers.utils.keccak256(renewed.message), renewed.signature))
+        .toBe(mock.attesterAddresses[0]);
+    }, 15000);
+
+    it('fails with the expired attestation when re-attestation is off', async () => {
+      await start({ fastExpirationBlock: 1 });
+      base.enableAttesters(mock.attesterAddresses);
+      const burnHash = await burn(sepolia, wallet.connect(sepolia), BigNumber.from(1000000));
+      const tracker = new BridgeTracker(true, undefined, undefined, irisApiUrl);
+      const service = new ProductionCCTPService('', true, undefined, tracker, undefined, irisApiUrl);
+      service.setSigner(SEPOLIA, wallet.connect(sepolia));
+      service.setSigner(BASE_SEPOLIA, wallet.connect(base));
+
+      try {
+        await expect(service.waitForCompletion(burnHash, SEPOLIA, BASE_SEPOLIA, undefined, { reattest: false }))
+          .rejects.toThrow(AttestationExpiredError);
+        expect(base.usdcBalance(wallet.address).isZero()).toBe(true);
+      } finally {
+        tracker.stop();
+      }
+    });
+  });
+});
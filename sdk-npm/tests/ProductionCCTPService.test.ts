@@ -0,0 +1,105 @@
+import { BigNumber, ethers } from 'ethers';
+import { ProductionCCTPService } from '../src/services/ProductionCCTPService';
+import { MemoryStorageAdapter } from '../src/storage';
+import { NON_EVM_CHAIN_IDS, SOLANA_CCTP_DOMAIN } from '../src/contracts';
+import { TokenMessengerV2__factory } from '../src/contracts/types';
+import { InvalidParamsError } from '../src/errors';
+import { solanaAddressToBytes32 } from '../src/utils/recipient';
+import { FakeChain } from './FakeChain';
+import { BASE_SEPOLIA, RECIPIENT, SEPOLIA, randomHash } from './helpers';
+
+describe('ProductionCCTPService', () => {
+  let sepolia: FakeChain;
+  let wallet: ethers.Wallet;
+  let storage: MemoryStorageAdapter;
+  let service: ProductionCCTPService;
+
+  const params = {
+    amount: BigNumber.from(1000000),
+    fromChain: SEPOLIA,
+    toChain: BASE_SEPOLIA,
+    recipient: RECIPIENT,
+    idempotencyKey: 'bridge-1',
+  };
+
+  beforeEach(() => {
+    // Iris is unreachable: fees and the Fast Transfer allowance fall back to their defaults
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 503 }));
+
+    sepolia = new FakeChain(SEPOLIA);
+    wallet = new ethers.Wallet(randomHash()).connect(sepolia);
+    sepolia.mintUSDC(wallet.address, BigNumber.from(5000000));
+    sepolia.approveUSDC(wallet.address, sepolia.addresses.tokenMessenger, BigNumber.from(5000000));
+
+    storage = new MemoryStorageAdapter();
+    service = new ProductionCCTPService('', true, storage);
+    service.setSigner(SEPOLIA, wallet);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('idempotency keys', () => {
+    it('never burns twice for one key', async () => {
+      const [first, second] = await Promise.all([service.initiateBridge(params), service.initiateBridge(params)]);
+      const third = await service.initiateBridge(params);
+
+      expect(sepolia.burns).toHaveLength(1);
+      expect(second.transactionHash).toBe(first.transactionHash);
+      expect(third.transactionHash).toBe(first.transactionHash);
+      expect(sepolia.usdcBalance(wallet.address).toNumber()).toBe(4000000);
+    });
+
+    it('shares keys through the idempotency storage', async () => {
+      const first = await service.initiateBridge(params);
+
+      const restarted = new ProductionCCTPService('', true, storage);
+      restarted.setSigner(SEPOLIA, wallet);
+
+      expect((await restarted.initiateBridge(params)).transactionHash).toBe(first.transactionHash);
+      expect(sepolia.burns).toHaveLength(1);
+    });
+
+    it('waits for a broadcast burn on retry instead of sending another', async () => {
+      jest.spyOn(sepolia, 'getTransactionReceipt').mockRejectedValueOnce(new Error('connection reset'));
+      await expect(service.initiateBridge(params)).rejects.toThrow();
+      expect(sepolia.burns).toHaveLength(1);
+
+      const retried = await service.initiateBridge(params);
+
+      expect(retried.transactionHash).toBe(sepolia.burns[0].hash);
+      expect(sepolia.burns).toHaveLength(1);
+    });
+  });
+
+  describe('non-EVM destinations', () => {
+    // USDC token account of the wallet whose public key is 0x01..0x20
+    const TOKEN_ACCOUNT = '2XMDdLg8sfyxttZAyQAVFnkKRWS15uAWzbZUMP7mTy4E';
+    const tokenMessenger = TokenMessengerV2__factory.createInterface();
+
+    it('burns to a Solana token account', async () => {
+      await service.initiateBridge({
+        amount: BigNumber.from(1000000),
+        fromChain: SEPOLIA,
+        toChain: NON_EVM_CHAIN_IDS.solanaDevnet,
+        recipient: TOKEN_ACCOUNT,
+      });
+
+      const [burn] = sepolia.burns;
+      const args = tokenMessenger.decodeFunctionData('depositForBurn', burn.data);
+      expect(args.destinationDomain).toBe(SOLANA_CCTP_DOMAIN);
+      expect(args.mintRecipient).toBe(solanaAddressToBytes32(TOKEN_ACCOUNT));
+    });
+
+    it('rejects EVM recipients for Solana before burning', async () => {
+      await expect(service.initiateBridge({
+        amount: BigNumber.from(1000000),
+        fromChain: SEPOLIA,
+        toChain: NON_EVM_CHAIN_IDS.solanaDevnet,
+        recipient: RECIPIENT,
+      })).rejects.toThrow(InvalidParamsError);
+      expect(sepolia.burns).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { BigNumber } from 'ethers';
+import { Rebalancer } from '../src/core/Rebalancer';
+import { TransactionHistory } from '../src/core/TransactionHistory';
+import { BalanceManager } from '../src/services/BalanceManager';
+import { CCTPService } from '../src/services/CCTPServiceFactory';
+import { MemoryStorageAdapter } from '../src/storage';
+import { CCTPTransferParams } from '../src/types';
+import { InvalidParamsError } from '../src/errors';
+import { throwIfAborted } from '../src/utils/abort';
+import { RECIPIENT, TARGET, randomHash } from './helpers';
+
+const usdc = (amount: number) => BigNumber.from(Math.round(amount * 1e6));
+const target = (min: number, amount: number) => ({ min: usdc(min), target: usdc(amount) });
+
+describe('Rebalancer', () => {
+  let balances: Record<number, number>;
+  let burns: CCTPTransferParams[];
+  let failingChain: number | undefined;
+  let bridging: Set<number>;
+  let overlapped: boolean;
+  let signerAddress: string;
+  let onBurn: (() => void) | undefined;
+  let history: TransactionHistory;
+  let rebalancer: Rebalancer;
+
+  const balanceManager = {
+    getUnifiedBalance: async () => ({
+      balancesByChain: Object.entries(balances).map(([chainId, balance]) => ({
+        chainId: Number(chainId),
+        balance: usdc(balance),
+      })),
+    }),
+    clearCache: () => undefined,
+  } as unknown as BalanceManager;
+
+  // Fast fee of 0.001 USDC from Sepolia, 0.002 USDC from elsewhere
+  const cctpService = {
+    getBridgeQuote: async (amount: BigNumber, fromChain: number, toChain: number) => {
+      const tier = (transferMode: string, fee: BigNumber) => ({ transferMode, fee, estimatedTime: 20, available: true });
+      return {
+        amount,
+        fromChain,
+        toChain,
+        fast: tier('fast', usdc(fromChain === 11155111 ? 0.001 : 0.002)),
+        standard: tier('standard', BigNumber.from(0)),
+      };
+    },
+    getSignerAddress: async () => signerAddress,
+    initiateBridge: async (params: CCTPTransferParams) => {
+      burns.push(params);
+      onBurn?.();
+      overlapped = overlapped || bridging.has(params.fromChain);
+      bridging.add(params.fromChain);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      bridging.delete(params.fromChain);
+      throwIfAborted(params.signal);
+      if (params.fromChain === failingChain) {
+        throw new Error('depositForBurn reverted');
+      }
+      return { transactionHash: randomHash(), bridgeFee: BigNumber.from(0), estimatedArrivalTime: 0 };
+    },
+    waitForCompletion: async () => randomHash(),
+    getBridgeSettlement: async () => null,
+  } as unknown as CCTPService;
+
+  beforeEach(() => {
+    burns = [];
+    failingChain = undefined;
+    bridging = new Set();
+    overlapped = false;
+    signerAddress = RECIPIENT;
+    onBurn = undefined;
+    history = new TransactionHistory(new MemoryStorageAdapter());
+    rebalancer = new Rebalancer(balanceManager, cctpService, new MemoryStorageAdapter(), history);
+  });
+
+  describe('plan', () => {
+    it('tops up deficits from the cheapest chain that covers them alone', async () => {
+      balances = { 11155111: 100, 421614: 100, 84532: 5 };
+      const job = await rebalancer.rebalance({
+        address: RECIPIENT,
+        targets: { 11155111: target(50, 60), 421614: target(50, 60), 84532: target(10, 40) },
+        dryRun: true,
+      });
+
+      expect(job.status).toBe('planned');
+      expect(job.transfers).toEqual([
+        expect.objectContaining({ fromChain: 11155111, toChain: 84532, amount: usdc(35), transferMode: 'fast' }),
+      ]);
+      expect(job.projectedBalances[84532]!.eq(usdc(39.999))).toBe(true);
+      expect(job.unmet).toEqual([]);
+      expect(burns).toHaveLength(0);
+    });
+
+    it('splits a deficit across surpluses and reports what stays unmet', async () => {
+      balances = { 11155111: 70, 421614: 70, 84532: 0 };
+      const job = await rebalancer.rebalance({
+        address: RECIPIENT,
+        targets: { 11155111: target(50, 60), 421614: target(50, 60), 84532: target(30, 40) },
+        dryRun: true,
+      });
+
+      expect(job.transfers.map(transfer => transfer.amount.toString())).toEqual([usdc(10).toString(), usdc(10).toString()]);
+      expect(job.unmet).toEqual([84532]);
+    });
+
+    it('rounds small deficits up to the CCTP minimum and leaves smaller surpluses in place', async () => {
+      balances = { 11155111: 60.005, 421614: 61, 84532: 9.995 };
+      const job = await rebalancer.rebalance({
+        address: RECIPIENT,
+        targets: { 11155111: target(50, 60), 421614: target(50, 60), 84532: target(10, 10) },
+        dryRun: true,
+      });
+
+      expect(job.transfers).toEqual([
+        expect.objectContaining({ fromChain: 421614, amount: BigNumber.from(10000) }),
+      ]);
+    });
+  });
+
+  it('runs the planned transfers, stores the job and records them in history', async () => {
+    balances = { 11155111: 100, 421614: 0, 84532: 0 };
+    const job = await rebalancer.rebalance({
+      address: RECIPIENT,
+      targets: { 11155111: target(0, 50), 421614: target(10, 20), 84532: target(10, 20) },
+    });
+
+    expect(job.status).toBe('completed');
+    // Both transfers leave Sepolia: one after the other
+    expect(burns.map(burn => burn.idempotencyKey)).toEqual([`${job.id}:0`, `${job.id}:1`]);
+    expect(overlapped).toBe(false);
+    expect(job.transfers.every(transfer => transfer.mintTransactionHash !== undefined)).toBe(true);
+    expect((await rebalancer.get(job.id))!.status).toBe('completed');
+    const entries = await history.query({ address: RECIPIENT });
+    expect(entries).toHaveLength(2);
+    expect(entries.every(entry => entry.kind === 'bridge' && entry.status === 'completed')).toBe(true);
+  });
+
+  it('reports failed transfers in the job', async () => {
+    balances = { 11155111: 100, 421614: 100, 84532: 0 };
+    failingChain = 421614;
+    const job = await rebalancer.rebalance({
+      address: RECIPIENT,
+      targets: { 11155111: target(50, 60), 421614: target(50, 60), 84532: target(30, 80) },
+    });
+
+    expect(job.status).toBe('partial');
+    const failed = job.transfers.find(transfer => transfer.fromChain === 421614)!;
+    const completed = job.transfers.find(transfer => transfer.fromChain === 11155111)!;
+    expect(completed.status).toBe('completed');
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toEqual(expect.objectContaining({ message: expect.stringContaining('reverted') }));
+  });
+
+  it('cancels the rest of a chain\'s transfers once one is cancelled', async () => {
+    balances = { 11155111: 100, 421614: 0, 84532: 0 };
+    const controller = new AbortController();
+    onBurn = () => controller.abort();
+
+    const job = await rebalancer.rebalance({
+      address: RECIPIENT,
+      targets: { 11155111: target(0, 50), 421614: target(10, 20), 84532: target(10, 20) },
+    }, controller.signal);
+
+    expect(burns).toHaveLength(1);
+    expect(burns[0].signal).toBe(controller.signal);
+    expect(job.status).toBe('cancelled');
+    expect(job.transfers.map(transfer => transfer.status)).toEqual(['cancelled', 'cancelled']);
+    const entries = await history.query({ address: RECIPIENT });
+    expect(entries.map(entry => entry.status)).toEqual(['cancelled']);
+  });
+
+  it('rejects a job whose source chain signer is not the rebalance address', async () => {
+    balances = { 11155111: 100, 421614: 0, 84532: 0 };
+    signerAddress = TARGET;
+
+    await expect(rebalancer.rebalance({
+      address: RECIPIENT,
+      targets: { 11155111: target(0, 50), 421614: target(10, 20), 84532: target(10, 20) },
+    })).rejects.toThrow(InvalidParamsError);
+    expect(burns).toHaveLength(0);
+  });
+});
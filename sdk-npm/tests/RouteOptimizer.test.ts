@@ -0,0 +1,256 @@
+import { BigNumber } from 'ethers';
+import { RouteOptimizer } from '../src/services/RouteOptimizer';
+import { BalanceManager } from '../src/services/BalanceManager';
+import { GasEstimator } from '../src/services/GasEstimator';
+import { CCTPService } from '../src/services/CCTPServiceFactory';
+import { InvalidParamsError, NoRouteError } from '../src/errors';
+import { BridgeQuote, GasFlowTransaction } from '../src/types';
+import { BASE_SEPOLIA, RECIPIENT, SEPOLIA, TARGET } from './helpers';
+
+const ARBITRUM_SEPOLIA = 421614;
+const OPTIMISM_SEPOLIA = 11155420;
+
+const usdc = (amount: number) => BigNumber.from(Math.round(amount * 1e6));
+
+describe('RouteOptimizer', () => {
+  let balances: Record<number, number>;
+  let gasCost: number;
+  let reservations: BigNumber[];
+  let released: string[];
+  let allowance: BigNumber;
+  let fastFeeBps: number;
+  let quoteOverrides: Record<number, { fastAvailable?: boolean; feeSource?: 'live' | 'fallback' }>;
+
+  const transaction: GasFlowTransaction = { to: TARGET, data: '0x', executeOn: BASE_SEPOLIA };
+
+  const balanceManager = {
+    getUnifiedBalance: async () => ({
+      balancesByChain: Object.entries(balances).map(([chainId, balance]) => ({
+        chainId: Number(chainId),
+        balance: usdc(balance),
+      })),
+    }),
+  } as unknown as BalanceManager;
+
+  const gasEstimator = {
+    estimateGas: async () => ({ gasCostUSDC: usdc(gasCost), estimatedTime: 10 }),
+  } as unknown as GasEstimator;
+
+  // Fast Transfer at fastFeeBps, 20 seconds; standard free, 15 minutes
+  const getBridgeQuote = async (amount: BigNumber, fromChain: number, toChain: number): Promise<BridgeQuote> => {
+    const { fastAvailable = true, feeSource = 'live' } = quoteOverrides[fromChain] || {};
+    const fee = amount.mul(fastFeeBps).div(10000);
+    return {
+      amount,
+      fromChain,
+      toChain,
+      fast: {
+        transferMode: 'fast',
+        available: fastAvailable,
+        feeBps: fastFeeBps,
+        fee,
+        maxFee: fee,
+        minFinalityThreshold: 1000,
+        estimatedTime: 20,
+      },
+      standard: {
+        transferMode: 'standard',
+        available: true,
+        feeBps: 0,
+        fee: BigNumber.from(0),
+        maxFee: BigNumber.from(0),
+        minFinalityThreshold: 2000,
+        estimatedTime: 900,
+      },
+      recommended: fastAvailable ? 'fast' : 'standard',
+      feeSource,
+      allowanceSource: 'live',
+      quotedAt: Date.now(),
+      validUntil: Date.now() + 30000,
+    };
+  };
+
+  const cctpService = {
+    getBridgeQuote,
+    estimateTransferTime: async (_amount: BigNumber, _from: number, _to: number, fast: boolean) => (fast ? 20 : 900),
+    allowanceMonitor: {
+      peek: () => null,
+      reserve: async (amount: BigNumber) => {
+        if (amount.gt(allowance)) {
+          return null;
+        }
+        allowance = allowance.sub(amount);
+        reservations.push(amount);
+        return { id: `reservation-${reservations.length}` };
+      },
+      release: (id: string) => {
+        released.push(id);
+      },
+    },
+  } as unknown as CCTPService;
+
+  const optimizer = new RouteOptimizer(
+    balanceManager,
+    gasEstimator,
+    cctpService,
+    [SEPOLIA, BASE_SEPOLIA, ARBITRUM_SEPOLIA]
+  );
+
+  beforeEach(() => {
+    gasCost = 1;
+    reservations = [];
+    released = [];
+    allowance = usdc(1000);
+    fastFeeBps = 14;
+    quoteOverrides = {};
+  });
+
+  describe('route ranking', () => {
+    // Sepolia bridges fast at a 50% fee, Arbitrum only standard for free
+    beforeEach(() => {
+      balances = { [SEPOLIA]: 5, [ARBITRUM_SEPOLIA]: 5, [BASE_SEPOLIA]: 0 };
+      fastFeeBps = 5000;
+      quoteOverrides = { [ARBITRUM_SEPOLIA]: { fastAvailable: false } };
+    });
+
+    it('trades cost for time by urgency', async () => {
+      const low = await optimizer.analyzeOptimalRoute(transaction, RECIPIENT, 'low');
+      const high = await optimizer.analyzeOptimalRoute(transaction, RECIPIENT, 'high');
+
+      expect(low.bestRoute.payFromChain).toBe(ARBITRUM_SEPOLIA);
+      expect(low.bestRoute.transferMode).toBe('standard');
+      expect(high.bestRoute.payFromChain).toBe(SEPOLIA);
+      expect(high.bestRoute.transferMode).toBe('fast');
+      expect(high.paretoRoutes).toHaveLength(2);
+    });
+
+    it('ranks dominated routes after the Pareto set', async () => {
+      // An OP Sepolia balance bridging at Sepolia's fee and speed, priced on fallback data
+      const withFallback = new RouteOptimizer(
+        balanceManager,
+        gasEstimator,
+        cctpService,
+        [SEPOLIA, BASE_SEPOLIA, ARBITRUM_SEPOLIA, OPTIMISM_SEPOLIA]
+      );
+      balances[OPTIMISM_SEPOLIA] = 5;
+      quoteOverrides[OPTIMISM_SEPOLIA] = { feeSource: 'fallback' };
+
+      const { allRoutes, paretoRoutes } = await withFallback.analyzeOptimalRoute(transaction, RECIPIENT, 'high');
+
+      expect(paretoRoutes.map(route => route.payFromChain).sort()).toEqual([SEPOLIA, ARBITRUM_SEPOLIA].sort());
+      expect(allRoutes[allRoutes.length - 1].payFromChain).toBe(OPTIMISM_SEPOLIA);
+      expect(allRoutes[allRoutes.length - 1].reliability!).toBeLessThan(paretoRoutes[0].reliability!);
+    });
+
+    it('normalizes route weight overrides', async () => {
+      const { bestRoute, weights } = await optimizer.analyzeOptimalRoute(
+        { ...transaction, routeWeights: { cost: 0, time: 2 } },
+        RECIPIENT,
+        'low'
+      );
+
+      expect(weights).toEqual({ cost: 0, time: 2 / 2.2, reliability: 0.2 / 2.2 });
+      expect(bestRoute.payFromChain).toBe(SEPOLIA);
+    });
+
+    it('prices a route downgraded for lack of allowance at its standard tier and ranks again', async () => {
+      // Sepolia wins on speed until it has to bridge standard, where Arbitrum beats it on reliability
+      quoteOverrides[SEPOLIA] = { feeSource: 'fallback' };
+      allowance = usdc(0);
+
+      const { bestRoute, allRoutes, paretoRoutes } = await optimizer.analyzeOptimalRoute(
+        transaction,
+        RECIPIENT,
+        'high',
+        undefined,
+        true
+      );
+
+      const downgraded = allRoutes.find(route => route.payFromChain === SEPOLIA)!;
+      expect(downgraded.transferMode).toBe('standard');
+      expect(downgraded.bridgeCost!.isZero()).toBe(true);
+      expect(downgraded.totalCost.eq(usdc(1))).toBe(true);
+      expect(downgraded.estimatedTime).toBe(910);
+      expect(bestRoute.payFromChain).toBe(ARBITRUM_SEPOLIA);
+      expect(paretoRoutes).toEqual([bestRoute]);
+    });
+
+    it('rejects negative or all-zero weights', async () => {
+      await expect(
+        optimizer.analyzeOptimalRoute({ ...transaction, routeWeights: { cost: -1 } }, RECIPIENT)
+      ).rejects.toThrow(InvalidParamsError);
+      await expect(
+        optimizer.analyzeOptimalRoute({ ...transaction, routeWeights: { cost: 0, time: 0, reliability: 0 } }, RECIPIENT)
+      ).rejects.toThrow(InvalidParamsError);
+    });
+  });
+
+  describe('split-source routes', () => {
+    it('pays from several chains when none can pay alone, largest balance first', async () => {
+      balances = { [SEPOLIA]: 0.5, [ARBITRUM_SEPOLIA]: 0.6, [BASE_SEPOLIA]: 0 };
+
+      const { bestRoute } = await optimizer.analyzeOptimalRoute(transaction, RECIPIENT);
+
+      // The Sepolia leg is grossed up by both fees so the mints add up to the gas cost
+      expect(bestRoute.sources!.map(source => [source.chainId, source.amount.toNumber()])).toEqual([
+        [ARBITRUM_SEPOLIA, 600000],
+        [SEPOLIA, 401401],
+      ]);
+      const minted = bestRoute.sources!.reduce((sum, source) => sum.add(source.amount.sub(source.bridgeCost)), BigNumber.from(0));
+      expect(minted.eq(usdc(1))).toBe(true);
+      expect(bestRoute.payFromChain).toBe(ARBITRUM_SEPOLIA);
+      expect(bestRoute.bridgeCost!.toNumber()).toBe(840 + 561);
+      expect(bestRoute.totalCost.eq(usdc(1).add(bestRoute.bridgeCost!))).toBe(true);
+      expect(bestRoute.estimatedTime).toBe(30);
+      // Each leg keeps the quote it was planned on for the burn
+      expect(bestRoute.sources!.every(source => source.quote!.amount.eq(source.amount))).toBe(true);
+      expect(bestRoute.sources!.map(source => source.quote!.fromChain)).toEqual([ARBITRUM_SEPOLIA, SEPOLIA]);
+    });
+
+    it('prefers a single chain that can pay alone', async () => {
+      balances = { [SEPOLIA]: 0.4, [ARBITRUM_SEPOLIA]: 1.5, [BASE_SEPOLIA]: 0 };
+
+      const { allRoutes } = await optimizer.analyzeOptimalRoute(transaction, RECIPIENT);
+
+      expect(allRoutes).toHaveLength(1);
+      expect(allRoutes[0].payFromChain).toBe(ARBITRUM_SEPOLIA);
+      expect(allRoutes[0].sources).toBeUndefined();
+    });
+
+    it('rounds a small last leg up to the CCTP minimum', async () => {
+      balances = { [SEPOLIA]: 0.995, [ARBITRUM_SEPOLIA]: 0.5, [BASE_SEPOLIA]: 0 };
+
+      const { bestRoute } = await optimizer.analyzeOptimalRoute(transaction, RECIPIENT);
+
+      expect(bestRoute.sources!.map(source => [source.chainId, source.amount.toNumber()])).toEqual([
+        [SEPOLIA, 995000],
+        [ARBITRUM_SEPOLIA, 10000],
+      ]);
+    });
+
+    it('finds no route when all balances together fall short of the cost and the fees', async () => {
+      balances = { [SEPOLIA]: 0.4, [ARBITRUM_SEPOLIA]: 0.5, [BASE_SEPOLIA]: 0 };
+      await expect(optimizer.analyzeOptimalRoute(transaction, RECIPIENT)).rejects.toThrow(NoRouteError);
+
+      balances = { [SEPOLIA]: 0.4, [ARBITRUM_SEPOLIA]: 0.6, [BASE_SEPOLIA]: 0 };
+      await expect(optimizer.analyzeOptimalRoute(transaction, RECIPIENT)).rejects.toThrow(NoRouteError);
+    });
+
+    it('reserves Fast Transfer allowance per leg and plans standard legs without it', async () => {
+      balances = { [SEPOLIA]: 0.5, [ARBITRUM_SEPOLIA]: 0.6, [BASE_SEPOLIA]: 0 };
+      allowance = usdc(0.5);
+
+      const { bestRoute } = await optimizer.analyzeOptimalRoute(transaction, RECIPIENT, 'medium', undefined, true);
+
+      expect(bestRoute.sources!.map(source => source.transferMode)).toEqual(['standard', 'fast']);
+      expect(bestRoute.sources![1].allowanceReservationId).toBe('reservation-1');
+      expect(reservations.map(amount => amount.toNumber())).toEqual([401401]);
+      expect(bestRoute.transferMode).toBe('standard');
+      expect(bestRoute.estimatedTime).toBe(910);
+      // Only the fast leg still pays a fee
+      expect(bestRoute.bridgeCost!.toNumber()).toBe(561);
+      expect(bestRoute.totalCost.eq(usdc(1).add(561))).toBe(true);
+      expect(released).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { ethers } from 'ethers';
+import { GasFlowSDK } from '../src/core/GasFlowSDK';
+import { MemoryStorageAdapter } from '../src/storage';
+import { InvalidParamsError } from '../src/errors';
+import { FakeChain } from './FakeChain';
+import { BASE_SEPOLIA, SEPOLIA, TARGET, randomHash } from './helpers';
+
+describe('TransactionHistory', () => {
+  let base: FakeChain;
+  let wallet: ethers.Wallet;
+  let sdk: GasFlowSDK;
+
+  const transaction = { to: TARGET, data: '0x1234', executeOn: BASE_SEPOLIA, payFromChain: BASE_SEPOLIA };
+
+  beforeEach(() => {
+    // The SDK builds RPC providers for every supported chain; keep them off the network
+    jest
+      .spyOn(ethers.providers.JsonRpcProvider.prototype, 'detectNetwork')
+      .mockResolvedValue({ chainId: SEPOLIA, name: 'sepolia' });
+
+    base = new FakeChain(BASE_SEPOLIA);
+    wallet = new ethers.Wallet(randomHash()).connect(base);
+    sdk = new GasFlowSDK({
+      apiKey: 'test-api-key',
+      supportedChains: [SEPOLIA, BASE_SEPOLIA],
+      historyStorage: new MemoryStorageAdapter(),
+    });
+  });
+
+  afterEach(async () => {
+    sdk.destroy();
+    // Let the providers' deferred network detection hit the stub before it is restored
+    await new Promise(resolve => setTimeout(resolve, 0));
+    jest.restoreAllMocks();
+  });
+
+  it('records finished executions and filters them', async () => {
+    const result = await sdk.execute(transaction, wallet.address, undefined, wallet);
+    base.revertCallsTo(TARGET, 'Paused');
+    await expect(sdk.execute(transaction, wallet.address, undefined, wallet)).rejects.toThrow();
+
+    const entries = await sdk.history.query({ address: wallet.address.toLowerCase() });
+    expect(entries.map(entry => entry.status)).toEqual(['failed', 'completed']);
+    expect(entries[1]).toEqual(expect.objectContaining({
+      id: result.executionId,
+      kind: 'execution',
+      executedOnChain: BASE_SEPOLIA,
+      transactionHash: result.transactionHash,
+    }));
+    expect(entries[0].error).toBeDefined();
+
+    expect(await sdk.history.query({ status: 'completed' })).toHaveLength(1);
+    expect(await sdk.history.query({ chainId: SEPOLIA })).toEqual([]);
+    expect(await sdk.history.query({ limit: 1 })).toEqual([entries[0]]);
+  });
+
+  it('exports amounts as base unit strings', async () => {
+    const result = await sdk.execute(transaction, wallet.address, undefined, wallet);
+
+    const [row] = JSON.parse(await sdk.history.exportJSON());
+    expect(row).toEqual(expect.objectContaining({
+      id: result.executionId,
+      totalCostUSDC: result.totalCostUSDC.toString(),
+      gasUsed: result.gasUsed.toString(),
+    }));
+
+    const [header, line] = (await sdk.history.exportCSV()).split('\n');
+    expect(header.split(',')).toEqual(expect.arrayContaining(['id', 'status', 'totalCostUSDC', 'transactionHash']));
+    expect(line).toContain(result.transactionHash);
+  });
+
+  it('is disabled without history storage', async () => {
+    const withoutHistory = new GasFlowSDK({ apiKey: 'test-api-key', supportedChains: [SEPOLIA, BASE_SEPOLIA] });
+
+    try {
+      await withoutHistory.execute(transaction, wallet.address, undefined, wallet);
+      await expect(withoutHistory.history.query()).rejects.toThrow(InvalidParamsError);
+    } finally {
+      withoutHistory.destroy();
+    }
+  });
+});
@@ -0,0 +1,59 @@
+import { BigNumber, ethers } from 'ethers';
+import {
+  decodeBurnMessage,
+  decodeCCTPMessage,
+  encodeBurnMessage,
+  encodeCCTPMessage,
+  matchesEmittedMessage
+} from '../src/utils/cctpMessage';
+import { InvalidParamsError } from '../src/errors';
+import { RECIPIENT, emittedBurnMessage } from './helpers';
+
+describe('cctpMessage', () => {
+  it('round-trips a CCTP message and its burn message', () => {
+    const encoded = emittedBurnMessage({ amount: BigNumber.from(2500000) });
+    const message = decodeCCTPMessage(encoded);
+
+    expect(message.sourceDomain).toBe(0);
+    expect(message.destinationDomain).toBe(6);
+    expect(message.minFinalityThreshold).toBe(1000);
+    expect(encodeCCTPMessage(message)).toBe(encoded);
+
+    const burn = decodeBurnMessage(message.messageBody);
+    expect(burn.amount.toString()).toBe('2500000');
+    expect(burn.mintRecipient).toBe(ethers.utils.hexZeroPad(RECIPIENT, 32));
+    expect(encodeBurnMessage(burn)).toBe(message.messageBody);
+  });
+
+  it('keeps hook data after the fixed burn message fields', () => {
+    const burn = decodeBurnMessage(decodeCCTPMessage(emittedBurnMessage()).messageBody);
+    const withHook = decodeBurnMessage(encodeBurnMessage({ ...burn, hookData: '0xdeadbeef' }));
+
+    expect(withHook.hookData).toBe('0xdeadbeef');
+    expect(withHook.maxFee.toString()).toBe(burn.maxFee.toString());
+  });
+
+  it('matches an attested message to its emitted message', () => {
+    const emitted = emittedBurnMessage();
+    const message = decodeCCTPMessage(emitted);
+    const attested = encodeCCTPMessage({
+      ...message,
+      nonce: ethers.utils.hexZeroPad('0x07', 32),
+      finalityThresholdExecuted: 1000,
+      messageBody: encodeBurnMessage({
+        ...decodeBurnMessage(message.messageBody),
+        feeExecuted: BigNumber.from(100),
+        expirationBlock: BigNumber.from(123),
+      }),
+    });
+
+    expect(matchesEmittedMessage(attested, emitted)).toBe(true);
+    expect(matchesEmittedMessage(attested, emittedBurnMessage({ amount: BigNumber.from(2000000) }))).toBe(false);
+    expect(matchesEmittedMessage('0x0000', emitted)).toBe(false);
+  });
+
+  it('rejects truncated messages', () => {
+    expect(() => decodeCCTPMessage('0x0000')).toThrow(InvalidParamsError);
+    expect(() => decodeBurnMessage('0x0000')).toThrow(InvalidParamsError);
+  });
+});
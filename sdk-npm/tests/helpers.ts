@@ -0,0 +1,43 @@
+import { BigNumber, ethers } from 'ethers';
+import { FINALITY_THRESHOLDS } from '../src/contracts';
+import { encodeBurnMessage, encodeCCTPMessage } from '../src/utils/cctpMessage';
+
+export const SEPOLIA = 11155111; // CCTP domain 0
+export const BASE_SEPOLIA = 84532; // CCTP domain 6
+export const RECIPIENT = '0x1111111111111111111111111111111111111111';
+export const TARGET = '0x2222222222222222222222222222222222222222';
+
+export function randomHash(): string {
+  return ethers.utils.hexlify(ethers.utils.randomBytes(32));
+}
+
+const toBytes32 = (address: string) => ethers.utils.hexZeroPad(address, 32);
+
+/**
+ * A USDC burn message from Sepolia to Base Sepolia as emitted by MessageSent:
+ * no nonce, no executed finality and no fee yet
+ */
+export function emittedBurnMessage(options: { amount?: BigNumber; fast?: boolean } = {}): string {
+  return encodeCCTPMessage({
+    version: 1,
+    sourceDomain: 0,
+    destinationDomain: 6,
+    nonce: ethers.constants.HashZero,
+    sender: toBytes32('0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA'),
+    recipient: toBytes32('0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA'),
+    destinationCaller: ethers.constants.HashZero,
+    minFinalityThreshold: options.fast === false ? FINALITY_THRESHOLDS.standard : FINALITY_THRESHOLDS.fast,
+    finalityThresholdExecuted: 0,
+    messageBody: encodeBurnMessage({
+      version: 1,
+      burnToken: toBytes32('0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238'),
+      mintRecipient: toBytes32(RECIPIENT),
+      amount: options.amount ?? BigNumber.from(1000000),
+      messageSender: toBytes32(RECIPIENT),
+      maxFee: BigNumber.from(500),
+      feeExecuted: BigNumber.from(0),
+      expirationBlock: BigNumber.from(0),
+      hookData: '0x',
+    }),
+  });
+}
@@ -0,0 +1,54 @@
+import { ethers } from 'ethers';
+import {
+  bytes32ToSolanaAddress,
+  encodeMintRecipient,
+  getSolanaUSDCTokenAccount,
+  solanaAddressToBytes32
+} from '../src/utils/recipient';
+import { SOLANA_CCTP_DOMAIN } from '../src/contracts';
+import { InvalidParamsError } from '../src/errors';
+import { RECIPIENT } from './helpers';
+
+// Wallet whose 32-byte public key is 0x01..0x20
+const SOLANA_OWNER = '4wBqpZM9xaSheZzJSMawUKKwhdpChKbZ5eu5ky4Vigw';
+
+describe('encodeMintRecipient', () => {
+  it('left-pads EVM addresses', () => {
+    expect(encodeMintRecipient(RECIPIENT, 6)).toEqual({
+      format: 'evm',
+      bytes32: ethers.utils.hexZeroPad(RECIPIENT, 32),
+    });
+  });
+
+  it('decodes base58 accounts for Solana', () => {
+    const recipient = encodeMintRecipient(SOLANA_OWNER, SOLANA_CCTP_DOMAIN);
+
+    expect(recipient.format).toBe('solana');
+    expect(recipient.bytes32).toBe(ethers.utils.hexlify(Array.from({ length: 32 }, (_, i) => i + 1)));
+    expect(bytes32ToSolanaAddress(recipient.bytes32)).toBe(SOLANA_OWNER);
+  });
+
+  it('passes bytes32 recipients through on any domain', () => {
+    const bytes32 = solanaAddressToBytes32(SOLANA_OWNER);
+
+    expect(encodeMintRecipient(bytes32, SOLANA_CCTP_DOMAIN)).toEqual({ format: 'bytes32', bytes32 });
+    expect(encodeMintRecipient(bytes32, 6)).toEqual({ format: 'bytes32', bytes32 });
+  });
+
+  it('rejects recipients that do not fit the destination', () => {
+    expect(() => encodeMintRecipient(SOLANA_OWNER, 6)).toThrow(InvalidParamsError);
+    expect(() => encodeMintRecipient(RECIPIENT, SOLANA_CCTP_DOMAIN)).toThrow(InvalidParamsError);
+    expect(() => encodeMintRecipient(ethers.constants.HashZero, 6)).toThrow(InvalidParamsError);
+  });
+});
+
+describe('getSolanaUSDCTokenAccount', () => {
+  it('derives the associated USDC token account of a wallet', () => {
+    expect(getSolanaUSDCTokenAccount(SOLANA_OWNER)).toBe('2XMDdLg8sfyxttZAyQAVFnkKRWS15uAWzbZUMP7mTy4E');
+    expect(getSolanaUSDCTokenAccount(SOLANA_OWNER, false)).toBe('9z1TnAigt5WEMVA9GAUkdtnfHMv9NYXRvY6Sd2RswZ8v');
+  });
+
+  it('rejects addresses that are not 32 bytes', () => {
+    expect(() => getSolanaUSDCTokenAccount('abc')).toThrow(InvalidParamsError);
+  });
+});